@@ -17,24 +17,38 @@ import {
   Microscope,
   Atom,
   FlaskConical,
-  Beaker
+  Beaker,
+  AlertTriangle,
+  Download
 } from 'lucide-react';
 import { GoogleGenAI } from "@google/genai";
 import { ImmunoAI } from './components/ImmunoAI';
-import { AffinityMaturation } from './components/AffinityMaturation';
+import { AffinityMaturation, SeedVariant } from './components/AffinityMaturation';
+import { BatchPanel } from './components/Batch';
+import {
+  convertPosition, NUMBERING_SCHEMES, POSITION_SYSTEMS, ImgtNumbering, ImgtRegion, NumberingScheme, PositionSystem
+} from './utils/numbering';
+import { CHAIN_CLASS_NAMES } from './utils/chainType';
+import { annotateSequence, AnnotatedRegion, AnnotatedSequence } from './utils/annotation';
+import { analyzeFv, scfvFromSegments, FvAnalysis } from './utils/fv';
+import { segmentConstruct, Segment, SegmentKind } from './utils/segmentation';
+import { netCharge, isoelectricPoint } from './utils/bioinformatics';
+import { scanLiabilities, liabilityAt, LIABILITY_LABELS, Liability, Severity } from './utils/liabilities';
+import { validateSequence, SequenceValidation } from './utils/validation';
+import { formatFrame } from './utils/translation';
+import { BatchRecord } from './utils/batch';
+import { airrRearrangement, toAirrTsv } from './utils/airr';
+import { downloadFile } from './utils/download';
 
 // Types
-interface Region {
-  type: string;
-  start: number;
-  end: number;
-  seq: string;
+interface Region extends AnnotatedRegion {
   color: string;
   name: string;
 }
 
 interface NumberingItem {
   index: number;
+  position: string; // scheme number with insertion code, '' outside the V domain
   aa: string;
   region: string;
   color: string;
@@ -42,186 +56,49 @@ interface NumberingItem {
   y?: number;
 }
 
-interface AnalysisResult {
+interface AnalysisResult extends Omit<AnnotatedSequence, 'regions' | 'residues'> {
   regions: Region[];
   numbering: NumberingItem[];
-  score: number;
-  reasoning: string[];
-  sequence: string;
-  scheme: string;
+  liabilities: Liability[];
 }
 
 /**
- * SIMULATED ANARCI / IMGT NUMBERING LOGIC
- * * In a real-world scenario, this would call a backend Python service (ANARCI).
- * Here, we implement a robust heuristic based on conserved residue anchors 
- * common in VH/VL domains (Kabat/IMGT definitions).
+ * SCHEME NUMBERING
+ * Annotation is shared with the other tabs (utils/annotation): residues are
+ * numbered by a profile alignment onto the IMGT V-domain templates, the chain
+ * type is classified, and the selected scheme's CDR definitions give the
+ * region boundaries. Here the regions only gain display colours and names.
  */
-const analyzeSequence = (seq: string, scheme = 'IMGT'): AnalysisResult => {
-  const sequence = seq.toUpperCase().replace(/[^A-Z]/g, '');
-  const len = sequence.length;
-
-  // Anchors for Heuristic Alignment (simplified IMGT)
-  // 1. 1st Cys (C23) - usually around 20-25
-  // 2. Trp (W41) - usually around 35-40 (Start of FR2)
-  // 3. 2nd Cys (C104) - usually around 85-100 (End of FR3 / Start of CDR3)
-  // 4. FGXG/WGXG (FR4 motif) - usually around 100-115
-
-  let regions: Region[] = [];
-  let numbering: NumberingItem[] = [];
-  let score = 0;
-  let reasoning: string[] = [];
-
-  // --- Step 1: Find Anchors ---
-
-  // Find FR4 start (J-region motif: W/F-G-X-G)
-  const fr4Regex = /([WF]G.G)/g;
-  let match;
-  let fr4Index = -1;
-  while ((match = fr4Regex.exec(sequence)) !== null) {
-    // We take the last one usually, but let's check position to be safe (should be > 80)
-    if (match.index > len * 0.7) {
-      fr4Index = match.index;
-    }
-  }
-
-  // Find 2nd Cys (C104) - look backwards from FR4
-  let c104Index = -1;
-  if (fr4Index !== -1) {
-    const searchEnd = fr4Index;
-    const searchStart = Math.max(0, fr4Index - 25); // CDR3 is rarely > 25 residues
-    for (let i = searchEnd - 1; i >= searchStart; i--) {
-      if (sequence[i] === 'C') {
-        c104Index = i;
-        break;
-      }
-    }
-  }
-
-  // Find 1st Cys (C23)
-  let c23Index = sequence.indexOf('C');
-  if (c23Index > 30) c23Index = -1; // Too far
-
-  // Find Trp (W41) - usually ~13-15 residues after C23
-  let w41Index = -1;
-  if (c23Index !== -1) {
-    for (let i = c23Index + 10; i < c23Index + 25; i++) {
-      if (sequence[i] === 'W') {
-        w41Index = i;
-        break;
-      }
-    }
-  }
-
-  // --- Step 2: Define Boundaries based on Scheme ---
-
-  // Defaults if anchors fail
-  let bounds = {
-    fr1_end: 26,
-    cdr1_end: 38,
-    fr2_end: 55,
-    cdr2_end: 65,
-    fr3_end: 104,
-    cdr3_end: 117
-  };
-
-  const hasAnchors = c23Index !== -1 && w41Index !== -1 && c104Index !== -1 && fr4Index !== -1;
-
-  if (hasAnchors) {
-    score = 0.95; // High confidence
-    reasoning.push(`Identified conserved Cysteine (C23) at pos ${c23Index + 1}.`);
-    reasoning.push(`Identified conserved Tryptophan (W41) at pos ${w41Index + 1}.`);
-    reasoning.push(`Identified 2nd Cysteine (C104) at pos ${c104Index + 1} bounding FR3.`);
-    reasoning.push(`Identified J-region motif (${sequence.substring(fr4Index, fr4Index + 4)}) at pos ${fr4Index + 1}.`);
-
-    if (scheme === 'IMGT') {
-      // IMGT: CDR1 (27-38), CDR2 (56-65), CDR3 (105-117)
-      // Boundaries are very inclusive
-      bounds.fr1_end = c23Index + 4;
-      bounds.cdr1_end = w41Index - 2;
-      bounds.fr2_end = w41Index + 14;
-      bounds.cdr2_end = bounds.fr2_end + 10;
-      bounds.fr3_end = c104Index + 1; // Includes the C
-      bounds.cdr3_end = fr4Index;
-    } else if (scheme === 'Kabat') {
-      // Kabat: CDR1 (31-35), CDR2 (50-65), CDR3 (95-102)
-      // FR1 is longer, CDR1 starts later
-      bounds.fr1_end = c23Index + 7;
-      bounds.cdr1_end = w41Index - 4;
-      // FR2 is shorter
-      bounds.fr2_end = w41Index + 9;
-      // CDR2 is longer (starts earlier)
-      bounds.cdr2_end = w41Index + 24;
-      // CDR3 starts after Cys
-      bounds.fr3_end = c104Index + 3;
-      bounds.cdr3_end = fr4Index;
-    } else if (scheme === 'Chothia') {
-      // Chothia: CDR1 (26-32), CDR2 (52-56), CDR3 (95-102)
-      // Structural loops are shorter
-      bounds.fr1_end = c23Index + 4;
-      bounds.cdr1_end = w41Index - 6; // Ends much earlier than Kabat
-      bounds.fr2_end = w41Index + 11;
-      bounds.cdr2_end = w41Index + 17; // Very short CDR2 loop
-      bounds.fr3_end = c104Index + 3;
-      bounds.cdr3_end = fr4Index;
-    }
-
-  } else {
-    score = 0.4;
-    reasoning.push("Structural anchors were ambiguous. Falling back to statistical length models.");
-    const scale = len / 120;
-    bounds.fr1_end = Math.floor(26 * scale);
-    bounds.cdr1_end = Math.floor(38 * scale);
-    bounds.fr2_end = Math.floor(55 * scale);
-    bounds.cdr2_end = Math.floor(65 * scale);
-    bounds.fr3_end = Math.floor(104 * scale);
-    bounds.cdr3_end = len - 11;
-  }
-
-  // --- Step 3: Map Residues ---
-
-  const addRegion = (start: number, end: number, type: string, color: string, name: string) => {
-    // Clamp
-    if (start >= len) return;
-    if (end > len) end = len;
-    // ensure start < end
-    if (start >= end) end = start;
-
-    const regionSeq = sequence.substring(start, end);
-    regions.push({ type, start, end, seq: regionSeq, color, name });
-
-    for (let i = start; i < end; i++) {
-      numbering.push({
-        index: i + 1,
-        aa: sequence[i],
-        region: type,
-        color: color
-      });
-    }
-  };
-
-  let current = 0;
-  addRegion(current, bounds.fr1_end, 'FR1', 'bg-slate-300', 'Framework 1');
-  current = bounds.fr1_end;
-
-  addRegion(current, bounds.cdr1_end, 'CDR1', 'bg-red-400', 'CDR 1');
-  current = bounds.cdr1_end;
-
-  addRegion(current, bounds.fr2_end, 'FR2', 'bg-slate-300', 'Framework 2');
-  current = bounds.fr2_end;
-
-  addRegion(current, bounds.cdr2_end, 'CDR2', 'bg-green-400', 'CDR 2');
-  current = bounds.cdr2_end;
-
-  addRegion(current, bounds.fr3_end, 'FR3', 'bg-slate-300', 'Framework 3');
-  current = bounds.fr3_end;
-
-  addRegion(current, bounds.cdr3_end, 'CDR3', 'bg-blue-500', 'CDR 3');
-  current = bounds.cdr3_end;
+const SCHEME_NOTES: Record<NumberingScheme, string> = {
+  IMGT: "Standard for immunogenetics. Inclusive CDRs.",
+  Kabat: "Classic sequence-based definition. Longer CDR1.",
+  Chothia: "Structure-based. Short loops for CDR1/CDR2.",
+  Martin: "Enhanced Chothia. Framework insertions at structural positions (H8, H72).",
+  North: "Cluster-based CDRs on Chothia numbering. H3 includes H93-H94.",
+  AHo: "Fixed 149-position frame shared by VH and VL. Gaps centred on each loop.",
+};
 
-  addRegion(current, len, 'FR4', 'bg-slate-300', 'Framework 4');
+const REGION_STYLES: Record<ImgtRegion, { color: string; name: string }> = {
+  FR1: { color: 'bg-slate-300', name: 'Framework 1' },
+  CDR1: { color: 'bg-red-400', name: 'CDR 1' },
+  FR2: { color: 'bg-slate-300', name: 'Framework 2' },
+  CDR2: { color: 'bg-green-400', name: 'CDR 2' },
+  FR3: { color: 'bg-slate-300', name: 'Framework 3' },
+  CDR3: { color: 'bg-blue-500', name: 'CDR 3' },
+  FR4: { color: 'bg-slate-300', name: 'Framework 4' },
+};
 
-  return { regions, numbering, score, reasoning, sequence, scheme };
+const analyzeSequence = (seq: string, scheme: NumberingScheme = 'IMGT'): AnalysisResult => {
+  const annotation = annotateSequence(seq, scheme);
+  const regions = annotation.regions.map(r => ({ ...r, ...REGION_STYLES[r.type] }));
+  const numbering = annotation.residues.map(r => ({
+    index: r.index + 1,
+    position: r.position,
+    aa: r.aa,
+    region: r.region,
+    color: REGION_STYLES[r.region].color
+  }));
+  return { ...annotation, regions, numbering, liabilities: scanLiabilities(annotation) };
 };
 
 // --- GEMINI API INTEGRATION ---
@@ -265,7 +142,11 @@ const Tooltip: React.FC<TooltipProps> = ({ children, text }) => {
   );
 };
 
-const NecklacePlot = ({ numbering, showLabels = true }: { numbering: NumberingItem[]; showLabels?: boolean }) => {
+const SEVERITY_COLORS: Record<Severity, string> = { high: '#dc2626', medium: '#f59e0b', low: '#a3a3a3' };
+
+const NecklacePlot = ({ numbering, scheme, liabilities, showLabels = true }: { numbering: NumberingItem[]; scheme: NumberingScheme; liabilities: Liability[]; showLabels?: boolean }) => {
+  const flagged = useMemo(() => liabilityAt(liabilities), [liabilities]);
+
   // Generate coordinates for a U-shaped or Loop-shaped path
 
   const points = useMemo(() => {
@@ -303,6 +184,9 @@ const NecklacePlot = ({ numbering, showLabels = true }: { numbering: NumberingIt
         {/* Beads */}
         {points.map((p, i) => (
           <g key={i} className="cursor-pointer group">
+            {flagged.has(i) && (
+              <circle cx={p.x} cy={p.y} r="12" fill="none" stroke={SEVERITY_COLORS[flagged.get(i)!.severity]} strokeWidth="2.5" />
+            )}
             <circle
               cx={p.x}
               cy={p.y}
@@ -331,7 +215,7 @@ const NecklacePlot = ({ numbering, showLabels = true }: { numbering: NumberingIt
             )}
 
             {/* SVG Tooltip on Hover */}
-            <title>{`${p.region} - Pos ${p.index}: ${p.aa}`}</title>
+            <title>{`${p.region} - ${p.position ? `${scheme} ${p.position}` : `Pos ${p.index}`}: ${p.aa}${flagged.has(i) ? `\n${flagged.get(i)!.description} (${flagged.get(i)!.severity})` : ''}`}</title>
           </g>
         ))}
       </svg>
@@ -364,15 +248,236 @@ const RegionBar = ({ regions }: { regions: Region[] }) => {
   );
 };
 
+const PositionLookup = ({ imgt, scheme }: { imgt: ImgtNumbering; scheme: NumberingScheme }) => {
+  const [query, setQuery] = useState('');
+  const [from, setFrom] = useState<PositionSystem>(scheme);
+
+  useEffect(() => setFrom(scheme), [scheme]);
+
+  return (
+    <div>
+      <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Position Lookup</p>
+      <div className="flex gap-2">
+        <select
+          value={from}
+          onChange={(e) => setFrom(e.target.value as PositionSystem)}
+          className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-slate-600 outline-none"
+        >
+          {POSITION_SYSTEMS.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="e.g. H52A"
+          className="flex-1 min-w-0 text-xs font-mono bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-slate-700 outline-none focus:border-blue-500"
+        />
+      </div>
+      {query.trim() && (
+        <div className="mt-2 grid grid-cols-2 gap-1 text-xs">
+          {POSITION_SYSTEMS.map(to => (
+            <div key={to} className="flex justify-between bg-slate-50 rounded px-2 py-1">
+              <span className="text-slate-400">{to}</span>
+              <span className="font-mono font-bold text-slate-700">{convertPosition(imgt, query, from, to) ?? '—'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+type FvChain = 'heavy' | 'light';
+
+const FvSummary = ({ fv, active, onSelect }: { fv: FvAnalysis; active: FvChain; onSelect: (chain: FvChain) => void }) => {
+  const chains: { key: FvChain; annotation: AnnotatedSequence }[] = [
+    { key: 'heavy', annotation: fv.heavy },
+    { key: 'light', annotation: fv.light },
+  ];
+  const cdrs = (a: AnnotatedSequence) => a.regions.filter(r => r.type.startsWith('CDR'));
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <div className="p-2 bg-purple-100 text-purple-600 rounded-lg">
+            <Atom size={20} />
+          </div>
+          <h2 className="text-lg font-bold text-slate-800">Fv Summary</h2>
+        </div>
+        {fv.scfv && (
+          <span className="text-xs text-purple-600 bg-purple-50 px-2 py-1 rounded-full font-bold border border-purple-100">
+            scFv · linker {fv.scfv.linkerMotif ?? `${fv.scfv.linker.length} aa`} at pos {fv.scfv.linkerStart + 1}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <div className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+          <p className="text-xs text-slate-400 font-bold uppercase">Total CDR Length</p>
+          <p className="text-2xl font-black text-slate-800">{fv.totalCdrLength}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+          <p className="text-xs text-slate-400 font-bold uppercase">Fv Net Charge (pH 7.4)</p>
+          <p className="text-2xl font-black text-slate-800">{fv.netCharge.toFixed(1)}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+          <p className="text-xs text-slate-400 font-bold uppercase">Fv pI</p>
+          <p className="text-2xl font-black text-slate-800">{fv.pI.toFixed(2)}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {chains.map(({ key, annotation }) => (
+          <button
+            key={key}
+            onClick={() => onSelect(key)}
+            className={`text-left p-4 rounded-xl border transition-all ${active === key ? 'border-blue-500 ring-2 ring-blue-100 bg-blue-50/40' : 'border-slate-200 hover:border-slate-300'}`}
+          >
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-bold text-sm text-slate-700">
+                {annotation.chain ? CHAIN_CLASS_NAMES[annotation.chain.type] : 'Unresolved chain'}
+              </span>
+              <span className="text-xs text-slate-400 font-mono">{annotation.sequence.length} AA</span>
+            </div>
+            <div className="flex gap-2 flex-wrap text-xs">
+              {cdrs(annotation).map(r => (
+                <span key={r.type} className="bg-white border border-slate-200 rounded px-2 py-0.5 font-mono text-slate-600">
+                  {r.type} {r.seq.length}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              Net charge {netCharge(annotation.sequence).toFixed(1)} · pI {isoelectricPoint(annotation.sequence).toFixed(2)}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {fv.interface.length > 0 && (
+        <div>
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">VH/VL Interface (Kabat)</p>
+          <div className="flex flex-wrap gap-1">
+            {fv.interface.map(r => {
+              const unusual = r.consensus && r.aa !== r.consensus;
+              return (
+                <Tooltip key={`${r.chain}${r.position}`} text={r.consensus ? `Consensus ${r.consensus}` : 'Variable position'}>
+                  <span className={`text-xs font-mono px-2 py-1 rounded border ${unusual ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-slate-50 border-slate-200 text-slate-600'}`}>
+                    {r.chain === 'heavy' ? 'H' : 'L'}{r.position} {r.aa}
+                  </span>
+                </Tooltip>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {fv.notes.map((n, i) => (
+        <p key={i} className="text-xs text-slate-500 mt-3 flex items-center gap-1"><Info size={12} /> {n}</p>
+      ))}
+    </section>
+  );
+};
+
+// Validation errors block analysis; warnings explain how odd residues were handled
+const ValidationNotice = ({ label, validation }: { label?: string; validation: SequenceValidation }) => {
+  const { translation } = validation;
+  if (validation.issues.length === 0 && !translation) return null;
+  return (
+    <ul className="mt-2 space-y-1 text-xs">
+      {translation && (
+        <li className="flex items-start gap-1.5 text-blue-600">
+          <Dna size={12} className="mt-0.5 shrink-0" />
+          <span>
+            {label && <span className="font-bold">{label}: </span>}
+            Nucleotides translated in frame {formatFrame(translation.frame)}, nt {translation.ntStart}–{translation.ntEnd} ({translation.protein.length} residues)
+          </span>
+        </li>
+      )}
+      {validation.issues.map((issue, i) => (
+        <li key={i} className={`flex items-start gap-1.5 ${issue.level === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+          {issue.level === 'error' ? <AlertCircle size={12} className="mt-0.5 shrink-0" /> : <AlertTriangle size={12} className="mt-0.5 shrink-0" />}
+          <span>{label && <span className="font-bold">{label}: </span>}{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const SEGMENT_COLORS: Record<SegmentKind, string> = {
+  signal: 'bg-amber-300',
+  vdomain: 'bg-blue-500',
+  linker: 'bg-slate-300',
+  tag: 'bg-pink-400',
+  constant: 'bg-emerald-400',
+  other: 'bg-slate-100',
+};
+
+const ConstructMap = ({ segments, selected, onSelect }: { segments: Segment[]; selected: number; onSelect: (domain: number) => void }) => {
+  const total = segments[segments.length - 1]?.end || 1;
+  const domains = segments.filter(s => s.kind === 'vdomain');
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <div className="p-2 bg-amber-100 text-amber-600 rounded-lg">
+          <Dna size={20} />
+        </div>
+        <h2 className="text-lg font-bold text-slate-800">Construct Map</h2>
+        <span className="text-xs text-slate-400 font-medium">{domains.length} variable domain{domains.length === 1 ? '' : 's'}</span>
+      </div>
+
+      <div className="flex h-6 rounded-lg overflow-hidden ring-1 ring-slate-900/5 mb-4">
+        {segments.map((seg, i) => (
+          <div
+            key={i}
+            title={`${seg.label} · pos ${seg.start + 1}-${seg.end}`}
+            className={`h-6 ${SEGMENT_COLORS[seg.kind]} border-r border-white/40 ${seg.kind === 'vdomain' ? 'cursor-pointer hover:opacity-80' : ''}`}
+            style={{ width: `${((seg.end - seg.start) / total) * 100}%`, minWidth: 4 }}
+            onClick={() => seg.kind === 'vdomain' && onSelect(domains.indexOf(seg))}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        {segments.map((seg, i) => {
+          const domain = domains.indexOf(seg);
+          return (
+            <div
+              key={i}
+              onClick={() => domain !== -1 && onSelect(domain)}
+              className={`flex items-center justify-between text-sm px-3 py-1.5 rounded-lg ${domain !== -1 ? 'cursor-pointer hover:bg-slate-50' : ''} ${domain === selected && domain !== -1 ? 'bg-blue-50 ring-1 ring-blue-200' : ''}`}
+            >
+              <span className="flex items-center gap-2">
+                <span className={`w-2.5 h-2.5 rounded-full ${SEGMENT_COLORS[seg.kind]}`} />
+                <span className="font-medium text-slate-700">{domain !== -1 ? `Domain ${domain + 1}: ${seg.label}` : seg.label}</span>
+              </span>
+              <span className="font-mono text-xs text-slate-400">{seg.start + 1}-{seg.end}</span>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
 // --- Antibody Analyzer Component (Original) ---
 function AntibodyAnalyzer() {
   const defaultSeq = "EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYAMSWVRQAPGKGLEWVSAISGSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCARDYYGSSWYFDVWGQGTLVTVSS";
+  const sampleVl = "DIQMTQSPSSLSASVGDRVTITCRASQGISNYLAWYQQKPGKVPKLLIYAASTLQSGVPSRFSGSGSGTDFTLTISSLQPEDVATYYCQKYNSAPLTFGGGTKVEIK";
   const [sequence, setSequence] = useState(defaultSeq);
+  const [pairedMode, setPairedMode] = useState(false);
+  const [lightSequence, setLightSequence] = useState(sampleVl);
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchClone, setBatchClone] = useState<string | null>(null); // name of the clone opened from the batch table
+  const [fv, setFv] = useState<FvAnalysis | null>(null);
+  const [fvChain, setFvChain] = useState<FvChain>('heavy');
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [domainIndex, setDomainIndex] = useState(0);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
   const [showConfig, setShowConfig] = useState(false);
   const [showLabels, setShowLabels] = useState(true);
-  const [scheme, setScheme] = useState('IMGT');
+  const [scheme, setScheme] = useState<NumberingScheme>('IMGT');
 
   // AI Feature States
   const [aiLoading, setAiLoading] = useState(false);
@@ -380,6 +485,9 @@ function AntibodyAnalyzer() {
   const [aiError, setAiError] = useState<string | null>(null);
   const [activeAiMode, setActiveAiMode] = useState<string | null>(null);
 
+  const heavyCheck = useMemo(() => validateSequence(sequence), [sequence]);
+  const lightCheck = useMemo(() => validateSequence(lightSequence), [lightSequence]);
+
   // Run analysis when sequence OR scheme changes
   useEffect(() => {
     setIsAnimating(true);
@@ -388,12 +496,70 @@ function AntibodyAnalyzer() {
 
     // Simulate processing delay for "AI" feel
     const timer = setTimeout(() => {
-      const result = analyzeSequence(sequence, scheme);
-      setAnalysis(result);
+      if (!heavyCheck.valid || (pairedMode && !lightCheck.valid)) {
+        setSegments([]);
+        setFv(null);
+        setAnalysis(null);
+        setIsAnimating(false);
+        return;
+      }
+      const heavy = heavyCheck.sequence;
+      // Paired chains, or an scFv pasted as one sequence, also get Fv-level metrics;
+      // the detailed views below follow the selected chain or domain
+      if (pairedMode) {
+        const pair = analyzeFv(heavy, lightCheck.sequence, scheme);
+        setSegments([]);
+        setFv(pair);
+        setAnalysis(analyzeSequence(pair[fvChain].sequence, scheme));
+      } else {
+        const parts = segmentConstruct(heavy);
+        const isConstruct = parts.some(p => p.kind !== 'vdomain' && p.kind !== 'other') || parts.filter(p => p.kind === 'vdomain').length > 1;
+        const split = scfvFromSegments(parts);
+        setSegments(isConstruct ? parts : []);
+        setFv(split ? analyzeFv(split.domains[0], split.domains[1], scheme, split) : null);
+        const domain = isConstruct ? parts.filter(p => p.kind === 'vdomain')[domainIndex] : undefined;
+        setAnalysis(analyzeSequence(domain ? domain.seq : heavy, scheme));
+      }
       setIsAnimating(false);
     }, 600);
     return () => clearTimeout(timer);
-  }, [sequence, scheme]);
+  }, [heavyCheck, lightCheck, pairedMode, fvChain, domainIndex, scheme]);
+
+  useEffect(() => setDomainIndex(0), [sequence]);
+
+  // Codons under each residue when the analyzed chain was translated from DNA
+  const sourceCheck = pairedMode && fvChain === 'light' ? lightCheck : heavyCheck;
+  const translation = sourceCheck.translation;
+  const codonOffset = analysis && translation ? sourceCheck.sequence.indexOf(analysis.sequence) : -1;
+  const codons = translation && codonOffset >= 0
+    ? translation.codons.slice(codonOffset).map((codon, i) => ({ codon, nt: translation.ntStart + (codonOffset + i) * 3 }))
+    : null;
+
+  const domains = segments.filter(s => s.kind === 'vdomain');
+  const selectedFvChain: FvChain = pairedMode || !fv ? fvChain : fv.heavy.sequence === domains[domainIndex]?.seq ? 'heavy' : 'light';
+  const selectFvChain = (chain: FvChain) => {
+    if (pairedMode || !fv) setFvChain(chain);
+    else setDomainIndex(Math.max(0, domains.findIndex(d => d.seq === fv[chain].sequence)));
+  };
+
+  const openBatchRecord = (record: BatchRecord) => {
+    setPairedMode(record.light !== '');
+    setSequence(record.heavy);
+    if (record.light) setLightSequence(record.light);
+    setBatchClone(record.name);
+    setBatchMode(false);
+  };
+
+  // AIRR rearrangements of the current input: both chains of an Fv, else the analyzed domain
+  const exportAirr = () => {
+    if (!analysis) return;
+    const id = batchClone ?? 'query';
+    const translationOf = (seq: string) => [heavyCheck.translation, lightCheck.translation].find(t => t?.protein.includes(seq));
+    const rows = fv
+      ? (['heavy', 'light'] as FvChain[]).map(chain => airrRearrangement(`${id}_${chain === 'heavy' ? 'VH' : 'VL'}`, fv[chain], { translation: translationOf(fv[chain].sequence), cellId: id }))
+      : [airrRearrangement(id, annotateSequence(analysis.sequence, 'IMGT'), { translation: translationOf(analysis.sequence) })];
+    downloadFile(`${id}_rearrangements.tsv`, toAirrTsv(rows), 'text/tab-separated-values');
+  };
 
   const handleSequenceChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setSequence(e.target.value);
@@ -413,16 +579,17 @@ function AntibodyAnalyzer() {
     if (mode === 'liabilities') {
       prompt = `
         You are an expert computational biologist specializing in antibody engineering.
-        Analyze the following antibody sequence (${scheme} numbering):
+        Analyze the following antibody sequence (${analysis.scheme} numbering${analysis.chain ? `, ${CHAIN_CLASS_NAMES[analysis.chain.type]}` : ''}):
         
-        Full Sequence: ${sequence}
+        Full Sequence: ${analysis.sequence}
         CDR1: ${cdr1}
         CDR2: ${cdr2}
         CDR3: ${cdr3}
+        Liability motifs found by local scan: ${analysis.liabilities.map(l => `${l.motif} (${LIABILITY_LABELS[l.kind]}, ${l.region} ${l.position || l.start + 1}, ${l.severity})`).join('; ') || 'none'}
         
         Please provide a concise technical report covering:
         1. **Likely Species of Origin** (e.g., Human, Mouse, Camelid) based on framework homology.
-        2. **Sequence Liabilities:** Identify specific chemical liability motifs (e.g., Deamidation [NG, NS], Oxidation [M, W], Isomerization [DG], Glycosylation [NxS/T]) specifically within the CDRs.
+        2. **Sequence Liabilities:** Interpret the motif hits above, commenting on which CDR liabilities are most likely to matter.
         3. **Therapeutic Similarity:** Does this sequence strongly resemble any FDA-approved antibodies (e.g., Trastuzumab, Adalimumab)?
         
         Format the output as a clean, bulleted list suitable for a dashboard. Keep it under 200 words.
@@ -430,7 +597,7 @@ function AntibodyAnalyzer() {
     } else if (mode === 'humanize') {
       prompt = `
         You are an expert antibody engineer.
-        Review the following antibody sequence: ${sequence}
+        Review the following antibody sequence: ${analysis.sequence}
         
         Suggest 3 specific point mutations to improve its stability, solubility, or "humaneness" (reduce immunogenicity), focusing on the Framework Regions (FR).
         
@@ -463,24 +630,64 @@ function AntibodyAnalyzer() {
             <div className="flex justify-between items-end mb-4">
               <label className="text-sm font-bold text-slate-700 uppercase tracking-wider flex items-center space-x-2">
                 <Search size={16} />
-                <span>Input Sequence (VH/VL)</span>
+                <span>{batchMode ? 'Batch Screen (FASTA / CSV)' : pairedMode ? 'Input Chains (VH + VL)' : 'Input Sequence (VH/VL or scFv)'}</span>
               </label>
               <div className="flex items-center gap-2">
+                {batchClone && !batchMode && (
+                  <button
+                    onClick={() => setBatchMode(true)}
+                    className="text-xs text-indigo-600 bg-indigo-50 px-2 py-1 rounded-full font-bold border border-indigo-100 hover:bg-indigo-100"
+                  >
+                    ← Batch · {batchClone}
+                  </button>
+                )}
+                <div className="flex bg-slate-100 rounded-full p-0.5 text-xs font-bold">
+                  {[false, true].map(paired => (
+                    <button
+                      key={String(paired)}
+                      onClick={() => { setPairedMode(paired); setBatchMode(false); }}
+                      className={`px-3 py-1 rounded-full transition-colors ${!batchMode && pairedMode === paired ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}
+                    >
+                      {paired ? 'Paired' : 'Single'}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setBatchMode(true)}
+                    className={`px-3 py-1 rounded-full transition-colors ${batchMode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    Batch
+                  </button>
+                </div>
                 <span className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded-full font-bold border border-blue-100">
                   {scheme} Scheme
                 </span>
-                <span className="text-xs text-slate-400 bg-slate-100 px-2 py-1 rounded-full font-mono">
-                  Length: {sequence.length} AA
-                </span>
+                {!batchMode && (
+                  <span className="text-xs text-slate-400 bg-slate-100 px-2 py-1 rounded-full font-mono">
+                    Length: {heavyCheck.sequence.length} AA
+                  </span>
+                )}
               </div>
             </div>
 
-            <textarea
-              value={sequence}
-              onChange={handleSequenceChange}
-              className="w-full h-32 p-4 bg-slate-50 border-2 border-slate-200 rounded-xl font-mono text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all resize-none"
-              placeholder="Paste your amino acid sequence here..."
-            />
+            <div className={batchMode ? 'hidden' : ''}>
+            <div className={pairedMode ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : ''}>
+              <textarea
+                value={sequence}
+                onChange={handleSequenceChange}
+                className="w-full h-32 p-4 bg-slate-50 border-2 border-slate-200 rounded-xl font-mono text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all resize-none"
+                placeholder={pairedMode ? "Heavy chain (VH)..." : "Paste an amino acid or nucleotide sequence here..."}
+              />
+              {pairedMode && (
+                <textarea
+                  value={lightSequence}
+                  onChange={(e) => setLightSequence(e.target.value)}
+                  className="w-full h-32 p-4 bg-slate-50 border-2 border-slate-200 rounded-xl font-mono text-sm text-slate-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all resize-none"
+                  placeholder="Light chain (VL)..."
+                />
+              )}
+            </div>
+            <ValidationNotice label={pairedMode ? 'VH' : undefined} validation={heavyCheck} />
+            {pairedMode && <ValidationNotice label="VL" validation={lightCheck} />}
 
             <div className="mt-4 flex flex-wrap gap-2">
               <button
@@ -490,22 +697,46 @@ function AntibodyAnalyzer() {
                 Load Sample VH
               </button>
               <button
-                onClick={() => setSequence("DIQMTQSPSSLSASVGDRVTITCRASQGISNYLAWYQQKPGKVPKLLIYAASTLQSGVPSRFSGSGSGTDFTLTISSLQPEDVATYYCQKYNSAPLTFGGGTKVEIK")}
+                onClick={() => (pairedMode ? setLightSequence(sampleVl) : setSequence(sampleVl))}
                 className="text-xs bg-purple-50 text-purple-600 px-3 py-1 rounded-full hover:bg-purple-100 font-medium transition-colors"
               >
                 Load Sample VL
               </button>
+              <button
+                onClick={() => { setPairedMode(false); setSequence(defaultSeq + "GGGGSGGGGSGGGGS" + sampleVl); }}
+                className="text-xs bg-pink-50 text-pink-600 px-3 py-1 rounded-full hover:bg-pink-100 font-medium transition-colors"
+              >
+                Load Sample scFv
+              </button>
               <button
                 onClick={() => setShowConfig(true)}
                 className="text-xs bg-slate-100 text-slate-600 px-3 py-1 rounded-full hover:bg-slate-200 font-medium transition-colors flex items-center gap-1"
               >
                 <Settings size={12} /> Config
               </button>
+              <button
+                onClick={exportAirr}
+                disabled={!analysis || isAnimating}
+                title="AIRR Rearrangement TSV"
+                className="text-xs bg-slate-100 text-slate-600 px-3 py-1 rounded-full hover:bg-slate-200 font-medium transition-colors flex items-center gap-1 disabled:opacity-50"
+              >
+                <Download size={12} /> AIRR TSV
+              </button>
+            </div>
             </div>
           </div>
         </section>
 
-        {isAnimating ? (
+        {/* Kept mounted so results survive a trip to the dashboard */}
+        <div className={batchMode ? '' : 'hidden'}>
+          <BatchPanel onOpen={openBatchRecord} />
+        </div>
+
+        {segments.length > 0 && !isAnimating && !batchMode && <ConstructMap segments={segments} selected={domainIndex} onSelect={setDomainIndex} />}
+
+        {fv && !isAnimating && !batchMode && <FvSummary fv={fv} active={selectedFvChain} onSelect={selectFvChain} />}
+
+        {batchMode ? null : isAnimating ? (
           <div className="h-64 flex flex-col items-center justify-center space-y-4">
             <div className="animate-spin text-blue-600">
               <Cpu size={48} />
@@ -525,22 +756,27 @@ function AntibodyAnalyzer() {
                       <Zap size={20} />
                     </div>
                     <h2 className="text-lg font-bold text-slate-800">Structural Topology Logic</h2>
+                    {analysis.chain && (
+                      <span className="ml-auto text-xs font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 px-2 py-1 rounded-full">
+                        {CHAIN_CLASS_NAMES[analysis.chain.type]} · {(analysis.chain.confidence * 100).toFixed(0)}%
+                      </span>
+                    )}
                   </div>
 
                   <div className="space-y-4">
                     <div className="flex items-start space-x-3 bg-slate-50 p-4 rounded-xl border border-slate-100">
-                      {analysis.score > 0.8 ? (
+                      {analysis.confidence > 0.8 ? (
                         <CheckCircle2 className="text-green-500 mt-1 shrink-0" size={20} />
                       ) : (
                         <AlertCircle className="text-amber-500 mt-1 shrink-0" size={20} />
                       )}
                       <div>
                         <h4 className="font-bold text-slate-700 text-sm">
-                          {analysis.score > 0.8 ? 'High Confidence Identification' : 'Low Confidence Approximation'}
+                          {analysis.confidence > 0.8 ? 'High Confidence Identification' : 'Low Confidence Approximation'}
                         </h4>
                         <p className="text-slate-500 text-sm mt-1">
-                          {analysis.score > 0.8
-                            ? `The algorithm successfully anchored sequence features to ${scheme} antibody motifs.`
+                          {analysis.confidence > 0.8
+                            ? `The algorithm successfully anchored sequence features to ${analysis.scheme} antibody motifs.`
                             : "Some standard anchors were missing. Regions are estimated based on average lengths."}
                         </p>
                       </div>
@@ -642,7 +878,7 @@ function AntibodyAnalyzer() {
                     <div className="p-2 bg-pink-100 text-pink-600 rounded-lg">
                       <Activity size={20} />
                     </div>
-                    <h2 className="text-lg font-bold text-slate-800">CDR Metrics ({scheme})</h2>
+                    <h2 className="text-lg font-bold text-slate-800">CDR Metrics ({analysis.scheme})</h2>
                   </div>
                   <div className="space-y-4">
                     {analysis.regions.filter(r => r.type.startsWith('CDR')).map((cdr, idx) => (
@@ -652,6 +888,9 @@ function AntibodyAnalyzer() {
                             cdr.type === 'CDR2' ? 'bg-green-400' : 'bg-blue-500'
                             }`}></span>
                           <span className="font-medium text-slate-600">{cdr.type}</span>
+                          {cdr.startPos && (
+                            <span className="text-[10px] font-mono text-slate-400">{cdr.startPos}–{cdr.endPos}</span>
+                          )}
                         </div>
                         <span className="font-mono text-slate-800 bg-slate-100 px-2 py-0.5 rounded text-sm">
                           {cdr.seq.length} AA
@@ -667,6 +906,12 @@ function AntibodyAnalyzer() {
                     <p className="text-xs text-slate-400 uppercase font-bold mt-1">CDR3 Length</p>
                   </div>
                 </div>
+
+                {analysis.imgt && (
+                  <div className="mt-6 pt-6 border-t border-slate-100">
+                    <PositionLookup imgt={analysis.imgt} scheme={analysis.scheme} />
+                  </div>
+                )}
               </div>
 
             </div>
@@ -692,7 +937,41 @@ function AntibodyAnalyzer() {
               {/* 2D Necklace Plot */}
               <div className="mt-12 bg-slate-50 rounded-xl border border-slate-200 pt-8 pb-4 overflow-hidden relative">
                 <div className="absolute top-4 left-4 text-xs font-bold text-slate-400 uppercase">2D Topology Preview</div>
-                <NecklacePlot numbering={analysis.numbering} showLabels={showLabels} />
+                <NecklacePlot numbering={analysis.numbering} scheme={analysis.scheme} liabilities={analysis.liabilities} showLabels={showLabels} />
+              </div>
+
+              {/* Sequence Liabilities */}
+              <div className="mt-8">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-bold text-slate-700 uppercase tracking-wider flex items-center gap-2">
+                    <AlertTriangle size={14} className="text-amber-500" />
+                    Sequence Liabilities ({analysis.liabilities.length})
+                  </h4>
+                  <div className="flex space-x-3 text-xs font-bold text-slate-500">
+                    {(Object.keys(SEVERITY_COLORS) as Severity[]).map(sev => (
+                      <div key={sev} className="flex items-center space-x-1">
+                        <span className="w-3 h-3 rounded-full border-2" style={{ borderColor: SEVERITY_COLORS[sev] }}></span>
+                        <span className="capitalize">{sev}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                {analysis.liabilities.length === 0 ? (
+                  <p className="text-sm text-slate-400">No liability motifs found.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {analysis.liabilities.map((l, i) => (
+                      <span
+                        key={i}
+                        title={l.description}
+                        className="text-xs font-mono px-2 py-1 rounded-lg bg-slate-50 border"
+                        style={{ borderColor: SEVERITY_COLORS[l.severity] }}
+                      >
+                        {l.motif} · {l.region} {l.position ? `${analysis.scheme} ${l.position}` : `pos ${l.start + 1}`} · {LIABILITY_LABELS[l.kind]}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Residue Grid (for detail) */}
@@ -700,16 +979,24 @@ function AntibodyAnalyzer() {
                 <h4 className="text-sm font-bold text-slate-700 mb-4 uppercase tracking-wider">Detailed Residue Inspector</h4>
                 <div className="flex flex-wrap gap-px">
                   {analysis.numbering.map((item, idx) => (
-                    <Tooltip key={idx} text={`${item.region} ${item.index}`}>
-                      <div className={`
-                        w-5 h-5 flex items-center justify-center text-[10px] font-bold rounded-sm cursor-default
-                        ${item.region.startsWith('CDR') ? 'text-white' : 'text-slate-600 bg-slate-100'}
-                        ${item.region === 'CDR1' ? 'bg-red-400' : ''}
-                        ${item.region === 'CDR2' ? 'bg-green-400' : ''}
-                        ${item.region === 'CDR3' ? 'bg-blue-500' : ''}
-                        hover:scale-150 transition-transform z-0 hover:z-10 relative shadow-sm hover:shadow-md
-                      `}>
-                        {item.aa}
+                    <Tooltip
+                      key={idx}
+                      text={`${item.position ? `${item.region} · ${analysis.scheme} ${item.position}` : `${item.region} · pos ${item.index}`}${codons?.[idx] ? ` · ${codons[idx].codon} (nt ${codons[idx].nt})` : ''}`}
+                    >
+                      <div className="flex flex-col items-center">
+                        <div className={`
+                          w-5 h-5 flex items-center justify-center text-[10px] font-bold rounded-sm cursor-default
+                          ${item.region.startsWith('CDR') ? 'text-white' : 'text-slate-600 bg-slate-100'}
+                          ${item.region === 'CDR1' ? 'bg-red-400' : ''}
+                          ${item.region === 'CDR2' ? 'bg-green-400' : ''}
+                          ${item.region === 'CDR3' ? 'bg-blue-500' : ''}
+                          hover:scale-150 transition-transform z-0 hover:z-10 relative shadow-sm hover:shadow-md
+                        `}>
+                          {item.aa}
+                        </div>
+                        {codons?.[idx] && (
+                          <span className="w-5 text-center font-mono text-[6px] leading-3 text-slate-400">{codons[idx].codon}</span>
+                        )}
                       </div>
                     </Tooltip>
                   ))}
@@ -765,7 +1052,7 @@ function AntibodyAnalyzer() {
               <div>
                 <h4 className="text-xs font-bold text-slate-400 uppercase mb-3">Numbering Scheme</h4>
                 <div className="grid grid-cols-3 gap-2">
-                  {['IMGT', 'Kabat', 'Chothia'].map((s) => (
+                  {NUMBERING_SCHEMES.map((s) => (
                     <button
                       key={s}
                       onClick={() => setScheme(s)}
@@ -783,9 +1070,7 @@ function AntibodyAnalyzer() {
                 </div>
                 <p className="text-[10px] text-slate-400 mt-2 italic flex items-center gap-1">
                   <Info size={12} />
-                  {scheme === 'IMGT' && "Standard for immunogenetics. Inclusive CDRs."}
-                  {scheme === 'Kabat' && "Classic sequence-based definition. Longer CDR1."}
-                  {scheme === 'Chothia' && "Structure-based. Short loops for CDR1/CDR2."}
+                  {SCHEME_NOTES[scheme]}
                 </p>
               </div>
             </div>
@@ -811,6 +1096,13 @@ type TabType = 'analyzer' | 'immuno' | 'affinity';
 // --- Main App with Tabs ---
 export default function App() {
   const [activeTab, setActiveTab] = useState<TabType>('analyzer');
+  const [maturationSeeds, setMaturationSeeds] = useState<SeedVariant[]>([]);
+
+  // Variants picked in the Immuno tab open in the Maturation tab as starting sequences
+  const sendToMaturation = (variants: SeedVariant[]) => {
+    setMaturationSeeds(seeds => [...seeds, ...variants]);
+    setActiveTab('affinity');
+  };
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -874,8 +1166,8 @@ export default function App() {
       {/* Tab Content */}
       <div className="animate-in fade-in duration-300">
         {activeTab === 'analyzer' && <AntibodyAnalyzer />}
-        {activeTab === 'immuno' && <ImmunoAI />}
-        {activeTab === 'affinity' && <AffinityMaturation />}
+        {activeTab === 'immuno' && <ImmunoAI onSendToMaturation={sendToMaturation} />}
+        {activeTab === 'affinity' && <AffinityMaturation seeds={maturationSeeds} />}
       </div>
 
       {/* Footer */}
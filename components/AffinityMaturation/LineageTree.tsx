@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { Variant, VariantOrigin } from '../../utils/evolution';
+
+interface LineageTreeProps {
+    variants: Variant[];
+    survivors: Set<string>; // ids kept in the beam of their generation
+    highlighted: Set<string>; // lineage of the best variant
+    selectedId: string | null;
+    onSelect: (id: string) => void;
+}
+
+const COLUMN_WIDTH = 120;
+const ROW_HEIGHT = 26;
+const MARGIN = 24;
+
+// Long recombinant names are cut to fit a column; the tooltip has the full name
+const label = (text: string) => (text.length > 16 ? `${text.slice(0, 15)}…` : text);
+
+const ORIGIN_COLORS: Record<VariantOrigin, string> = {
+    seed: '#3b82f6',
+    mutation: '#10b981',
+    recombination: '#8b5cf6',
+};
+
+/**
+ * Every variant of the run, one column per generation ordered by score, with
+ * edges to its parent(s). Culled variants are drawn hollow; the best variant's
+ * ancestry is drawn heavier.
+ */
+export const LineageTree: React.FC<LineageTreeProps> = ({ variants, survivors, highlighted, selectedId, onSelect }) => {
+    const layout = useMemo(() => {
+        const columns = new Map<number, Variant[]>();
+        for (const v of variants) columns.set(v.generation, [...(columns.get(v.generation) ?? []), v]);
+        const points = new Map<string, { x: number; y: number }>();
+        for (const [generation, members] of columns) {
+            [...members]
+                .sort((a, b) => b.score - a.score)
+                .forEach((v, row) => points.set(v.id, { x: MARGIN + generation * COLUMN_WIDTH, y: MARGIN + row * ROW_HEIGHT }));
+        }
+        const generations = Math.max(0, ...columns.keys()) + 1;
+        const rows = Math.max(1, ...[...columns.values()].map(members => members.length));
+        return { points, width: MARGIN * 2 + (generations - 1) * COLUMN_WIDTH + 60, height: MARGIN * 2 + (rows - 1) * ROW_HEIGHT };
+    }, [variants]);
+
+    return (
+        <div className="overflow-auto max-h-[420px]">
+            <svg width={layout.width} height={layout.height} className="font-sans">
+                {variants.flatMap(v => v.parents.map(parentId => {
+                    const from = layout.points.get(parentId);
+                    const to = layout.points.get(v.id);
+                    if (!from || !to) return null;
+                    const onPath = highlighted.has(v.id) && highlighted.has(parentId);
+                    const mid = (from.x + to.x) / 2;
+                    return (
+                        <path
+                            key={`${parentId}-${v.id}`}
+                            d={`M ${from.x} ${from.y} C ${mid} ${from.y}, ${mid} ${to.y}, ${to.x} ${to.y}`}
+                            fill="none"
+                            stroke={onPath ? '#2563eb' : '#cbd5e1'}
+                            strokeWidth={onPath ? 2 : 1}
+                            strokeDasharray={v.origin === 'recombination' ? '4 3' : undefined}
+                        />
+                    );
+                }))}
+                {variants.map(v => {
+                    const point = layout.points.get(v.id)!;
+                    const color = ORIGIN_COLORS[v.origin];
+                    const kept = survivors.has(v.id);
+                    return (
+                        <g key={v.id} transform={`translate(${point.x}, ${point.y})`} onClick={() => onSelect(v.id)} className="cursor-pointer">
+                            <title>{`${v.step || 'Starting sequence'} · score ${v.score}${kept ? '' : ' · culled'}`}</title>
+                            {v.id === selectedId && <circle r={10} fill="none" stroke="#0f172a" strokeWidth={1.5} />}
+                            <circle r={6} fill={kept ? color : '#ffffff'} stroke={color} strokeWidth={2} />
+                            <text x={10} y={-2} fontSize={10} fill="#334155" fontWeight={highlighted.has(v.id) ? 700 : 400}>
+                                {label(v.step || 'WT')}
+                            </text>
+                            <text x={10} y={9} fontSize={9} fill="#94a3b8">{v.score}</text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
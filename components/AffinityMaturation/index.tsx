@@ -1,27 +1,50 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Icon, Card, Badge } from './UIComponents';
+import { LineageTree } from './LineageTree';
+import { annotateSequence, AnnotatedSequence } from '../../utils/annotation';
+import { CHAIN_CLASS_NAMES } from '../../utils/chainType';
+import { scanLiabilities, LIABILITY_LABELS } from '../../utils/liabilities';
+import { applyMutations, checkPointMutation, diffSequences, formatMutation } from '../../utils/mutagenesis';
+import {
+    addMutation, describeMutations, lineageOf, recombinationPairs, selectSurvivors, Variant
+} from '../../utils/evolution';
+import { MsaEntry } from '../../utils/msa';
+import { AlignmentModal } from '../ImmunoAI/AlignmentModal';
 
 // Types
 interface CDRInfo {
     seq: string;
-    start: number;
+    start: number; // 0-indexed, inclusive
     end: number;
 }
 
 interface Analysis {
-    cdr1?: CDRInfo;
-    cdr2?: CDRInfo;
-    cdr3?: CDRInfo;
+    annotation: AnnotatedSequence;
     assessment: string;
     score: number;
 }
 
-interface HistoryItem {
-    generation: number;
-    sequence: string;
-    score: number;
+// CDRs from the shared annotation, in the shape sent to Gemini
+const cdrSummary = (annotation: AnnotatedSequence): Record<string, CDRInfo> =>
+    Object.fromEntries(
+        annotation.regions
+            .filter(r => r.type.startsWith('CDR'))
+            .map(r => [r.type.toLowerCase(), { seq: r.seq, start: r.start, end: r.end - 1 }])
+    );
+
+// A mutation as proposed by the model; fields are checked before use
+interface ProposedMutation {
+    code: string;
+    pos: number;
+    wt: string;
+    mut: string;
     reason: string;
-    mutation: string;
+    confidence: number;
+}
+
+interface VariantScore {
+    id: string;
+    score: number;
 }
 
 interface SafetyAnalysis {
@@ -105,10 +128,25 @@ const callGeminiText = async (prompt: string, systemInstruction: string, apiKey:
     }
 };
 
-export const AffinityMaturation: React.FC = () => {
+// Trastuzumab VH, the starting point when no variant has been sent over
+const DEFAULT_SEQUENCE = "EVQLVESGGGLVQPGGSLRLSCAASGFNIKDTYIHWVRQAPGKGLEWVARIYPTNGYTRYADSVKGRFTISADTSKNTAYLQMNSLRAEDTAVYYCSRWGGDGFYAMDYWGQGTLVTVSS";
+
+/** A starting sequence handed over from another tab (e.g. a saturation-scan variant). */
+export interface SeedVariant {
+    name: string;
+    sequence: string;
+    source: string;
+}
+
+interface AffinityMaturationProps {
+    seeds?: SeedVariant[];
+}
+
+export const AffinityMaturation: React.FC<AffinityMaturationProps> = ({ seeds = [] }) => {
     const apiKey = (process.env as any).API_KEY || "";
 
-    const [sequence, setSequence] = useState("EVQLVESGGGLVQPGGSLRLSCAASGFNIKDTYIHWVRQAPGKGLEWVARIYPTNGYTRYADSVKGRFTISADTSKNTAYLQMNSLRAEDTAVYYCSRWGGDGFYAMDYWGQGTLVTVSS");
+    const [sequence, setSequence] = useState(DEFAULT_SEQUENCE);
+    const [seedIndex, setSeedIndex] = useState(-1); // -1: the default sequence
     const [targetAntigen, setTargetAntigen] = useState("HER2 (Human Epidermal Growth Factor Receptor 2)");
     const [includeAntigen, setIncludeAntigen] = useState(true);
     const [optimizationGoal, setOptimizationGoal] = useState("Affinity");
@@ -119,11 +157,61 @@ export const AffinityMaturation: React.FC = () => {
     const [iteration, setIteration] = useState(0);
     const [numGenerations, setNumGenerations] = useState(5);
     const [numCandidates, setNumCandidates] = useState(3);
+    const [beamWidth, setBeamWidth] = useState(3);
+    const [elitism, setElitism] = useState(1);
+    const [recombination, setRecombination] = useState(true);
     const [logs, setLogs] = useState<LogEntry[]>([]);
-    const [history, setHistory] = useState<HistoryItem[]>([]);
+    const [variants, setVariants] = useState<Variant[]>([]);
+    const [populations, setPopulations] = useState<string[][]>([]); // surviving ids, one entry per generation
+    const [selectedId, setSelectedId] = useState<string | null>(null);
     const [currentAnalysis, setCurrentAnalysis] = useState<Analysis | null>(null);
     const [report, setReport] = useState<string | null>(null);
     const [safetyAnalysis, setSafetyAnalysis] = useState<SafetyAnalysis | null>(null);
+    const [showAlignment, setShowAlignment] = useState(false);
+
+    const chooseStart = (index: number) => {
+        setSeedIndex(index);
+        setSequence(index >= 0 ? seeds[index].sequence : DEFAULT_SEQUENCE);
+    };
+
+    // Newly sent variants become the starting sequence
+    useEffect(() => {
+        if (seeds.length) chooseStart(seeds.length - 1);
+    }, [seeds.length]);
+
+    // CDR highlighting follows the shared numbering of whatever sequence is current
+    const annotation = useMemo(() => annotateSequence(sequence), [sequence]);
+
+    const survivors = useMemo(() => new Set(populations.flat()), [populations]);
+    const best = useMemo(() => variants.reduce<Variant | null>((top, v) => (!top || v.score > top.score ? v : top), null), [variants]);
+    const bestLineage = useMemo(() => (best ? lineageOf(best.id, variants) : new Set<string>()), [best, variants]);
+    const selected = variants.find(v => v.id === selectedId) ?? best;
+
+    // Best score in the beam after each generation
+    const trajectory = useMemo(() => populations.map((ids, generation) => ({
+        generation,
+        score: Math.max(...variants.filter(v => ids.includes(v.id)).map(v => v.score)),
+    })), [variants, populations]);
+
+    const selectVariant = (id: string) => {
+        setSelectedId(id);
+        if (!isProcessing) setSequence(variants.find(v => v.id === id)!.sequence);
+    };
+
+    // The best variant's ancestry from the starting sequence, then the rest of the final population
+    const lineageVariants = useMemo(() => {
+        const finalIds = populations[populations.length - 1] ?? [];
+        return [
+            ...variants.filter(v => bestLineage.has(v.id)).sort((a, b) => a.generation - b.generation),
+            ...variants.filter(v => finalIds.includes(v.id) && !bestLineage.has(v.id)),
+        ];
+    }, [variants, populations, bestLineage]);
+
+    const historyEntries = useMemo<MsaEntry[]>(() => lineageVariants.map(v => ({
+        name: `Gen ${v.generation} ${v.origin === 'seed' ? '(wild type)' : describeMutations(v.mutations)}`,
+        sequence: v.sequence,
+        group: bestLineage.has(v.id) ? 'Best lineage' : 'Final population',
+    })), [lineageVariants, bestLineage]);
 
     const addLog = (message: string, type: LogEntry['type'] = "info") => {
         setLogs(prev => [...prev, { message, type, timestamp: new Date().toLocaleTimeString() }]);
@@ -155,32 +243,35 @@ export const AffinityMaturation: React.FC = () => {
         return `${antigenCtx}\nOptimization Goal: ${optimizationGoal}\nInstructions: ${goalInstructions}`;
     };
 
-    const analyzeSequence = async (seq: string) => {
+    const analyzeSequence = async (seq: string): Promise<Analysis | null> => {
         addLog(`Analyzing sequence. Goal: ${optimizationGoal}...`, "info");
+        const annotation = annotateSequence(seq);
+        const chainName = annotation.chain ? CHAIN_CLASS_NAMES[annotation.chain.type] : 'Antibody V-domain';
+        addLog(`Numbered as ${chainName} (IMGT, ${(annotation.confidence * 100).toFixed(0)}% confidence).`, "info");
+
         const prompt = `
-      Analyze the following Antibody VH sequence. 
+      Analyze the following ${chainName} sequence. 
       ${getGoalPromptContext()}
       
-      1. Identify CDRs.
-      2. Provide a brief structural assessment relevant to the Optimization Goal.
-      3. Calculate a baseline "${optimizationGoal} Score" (0-100).
+      IMGT CDRs (0-indexed, inclusive): ${JSON.stringify(cdrSummary(annotation))}
+      
+      1. Provide a brief structural assessment relevant to the Optimization Goal.
+      2. Calculate a baseline "${optimizationGoal} Score" (0-100).
       
-      Sequence: ${seq}
+      Sequence: ${annotation.sequence}
     `;
 
         const system = `
       You are an expert Structural Biologist and Antibody Engineer. 
       Output JSON format:
       {
-        "cdr1": {"seq": "...", "start": X, "end": Y},
-        "cdr2": {"seq": "...", "start": X, "end": Y},
-        "cdr3": {"seq": "...", "start": X, "end": Y},
         "assessment": "string",
         "score": number
       }
     `;
 
-        return await callGemini(prompt, system, apiKey);
+        const result = await callGemini(prompt, system, apiKey);
+        return result ? { annotation, assessment: result.assessment, score: result.score } : null;
     };
 
     const runSafetyCheck = async () => {
@@ -188,9 +279,17 @@ export const AffinityMaturation: React.FC = () => {
         setIsCheckingSafety(true);
         addLog("Running CMC & Developability scan...", "process");
 
+        // Motif hits are computed locally so the scan still works when Gemini is unavailable
+        const liabilities = scanLiabilities(annotation);
+        const motifFlags = liabilities
+            .filter(l => l.severity !== 'low')
+            .map(l => `${LIABILITY_LABELS[l.kind]}: ${l.motif} at ${l.region} ${l.position || `pos ${l.start + 1}`} (${l.severity})`);
+        addLog(`Motif scan: ${liabilities.length} liabilities (${motifFlags.length} medium/high).`, "info");
+
         const prompt = `
       Perform a specific Developability and Safety Assessment on this antibody VH sequence.
       Sequence: ${sequence}
+      Sequence liabilities already found by motif scan (IMGT): ${motifFlags.join('; ') || 'none'}
       
       Check for:
       1. Chemical Liabilities (Post-Translational Modifications).
@@ -200,7 +299,7 @@ export const AffinityMaturation: React.FC = () => {
       Output JSON:
       {
         "risk_level": "Low" | "Medium" | "High",
-        "flags": ["list of string issues found"],
+        "flags": ["list of string issues found, excluding the motif liabilities above"],
         "summary": "Concise summary of manufacturability"
       }
     `;
@@ -209,14 +308,22 @@ export const AffinityMaturation: React.FC = () => {
         const result = await callGemini(prompt, system, apiKey);
 
         if (result) {
-            setSafetyAnalysis(result);
+            setSafetyAnalysis({ ...result, flags: [...motifFlags, ...result.flags] });
             addLog("Safety assessment complete.", "success");
+        } else {
+            const high = liabilities.some(l => l.severity === 'high');
+            setSafetyAnalysis({
+                risk_level: high ? 'High' : motifFlags.length ? 'Medium' : 'Low',
+                flags: motifFlags,
+                summary: 'Offline motif scan only; stability and immunogenicity were not assessed.',
+            });
+            addLog("Gemini unavailable; showing local motif scan.", "info");
         }
         setIsCheckingSafety(false);
     };
 
-    const generateMutations = async (seq: string, analysis: Analysis, currentGen: number) => {
-        addLog(`Generation ${currentGen}: Proposing ${numCandidates} candidate mutations for ${optimizationGoal}...`, "process");
+    const generateMutations = async (seq: string, annotation: AnnotatedSequence, currentGen: number, parentName: string): Promise<{ mutations?: ProposedMutation[] } | null> => {
+        addLog(`Generation ${currentGen}: Proposing ${numCandidates} candidate mutations to ${parentName} for ${optimizationGoal}...`, "process");
 
         const antigenInstruction = includeAntigen
             ? `Use your knowledge of the target antigen's structure (${targetAntigen}) to guide mutations.`
@@ -224,7 +331,7 @@ export const AffinityMaturation: React.FC = () => {
 
         const prompt = `
       Current Sequence: ${seq}
-      CDRs: ${JSON.stringify(analysis)}
+      CDRs (IMGT, 0-indexed): ${JSON.stringify(cdrSummary(annotation))}
       ${getGoalPromptContext()}
       
       Task: Propose ${numCandidates} distinct single-point mutations in the CDRs (or Framework if relevant).
@@ -249,28 +356,60 @@ export const AffinityMaturation: React.FC = () => {
         return await callGemini(prompt, system, apiKey);
     };
 
-    const evaluateMutations = async (mutations: any) => {
-        if (!mutations?.mutations) return null;
-        const best = mutations.mutations.reduce((prev: any, current: any) =>
-            (prev.confidence > current.confidence) ? prev : current
+    // Proposals that actually fit the sequence, most confident first; hallucinated wild types are rejected
+    const screenMutations = (proposals: { mutations?: ProposedMutation[] } | null, seq: string): ProposedMutation[] => {
+        if (!Array.isArray(proposals?.mutations)) return [];
+        const ranked = [...proposals.mutations].sort((a, b) => b.confidence - a.confidence);
+        return ranked.filter(candidate => {
+            const problem = checkPointMutation(seq, candidate.pos, candidate.wt, candidate.mut);
+            if (problem) addLog(`Rejected ${candidate.code}: ${problem}.`, "error");
+            return !problem;
+        });
+    };
+
+    // One call scores a batch of locally built variants; the model never rewrites sequences
+    const scoreVariants = async (drafts: Variant[], known: Variant[]): Promise<Variant[]> => {
+        if (!drafts.length) return [];
+        const scoreOf = new Map(known.map(v => [v.id, v.score]));
+        const prompt = `
+      Score each variant below for ${optimizationGoal} (0-100), on the same scale as its parent scores.
+      ${getGoalPromptContext()}
+      
+      Variants: ${JSON.stringify(drafts.map(d => ({
+            id: d.id,
+            parent_scores: d.parents.map(id => scoreOf.get(id)),
+            change: d.step,
+            sequence: d.sequence,
+        })))}
+    `;
+        const system = `Output JSON: { "scores": [ { "id": "string", "score": number } ] }`;
+        const result: { scores?: VariantScore[] } | null = await callGemini(prompt, system, apiKey);
+        const scores = new Map<string, number>(
+            (Array.isArray(result?.scores) ? result.scores : []).map(s => [String(s.id), Number(s.score)])
         );
-        return best;
+        const scored = drafts.filter(d => Number.isFinite(scores.get(d.id)));
+        if (scored.length < drafts.length) {
+            addLog(`${drafts.length - scored.length} of ${drafts.length} variants were not scored and are dropped.`, "error");
+        }
+        return scored.map(d => ({ ...d, score: scores.get(d.id)! }));
     };
 
     const runEvolutionLoop = async () => {
         setIsProcessing(true);
         setReport(null);
         setSafetyAnalysis(null);
-        setHistory([]);
+        setVariants([]);
+        setPopulations([]);
+        setSelectedId(null);
         setLogs([]);
         setIteration(0);
 
         try {
-            let currentSeq = sequence;
-            let currentGen = 0;
-            const maxGens = numGenerations;
+            const root = annotateSequence(sequence).sequence;
+            // A substitution keeps the numbering, so the starting sequence's labels name every mutation
+            const rootAnnotation = annotateSequence(root);
 
-            const initialAnalysis = await analyzeSequence(currentSeq);
+            const initialAnalysis = await analyzeSequence(root);
 
             if (!initialAnalysis) {
                 setIsProcessing(false);
@@ -278,62 +417,82 @@ export const AffinityMaturation: React.FC = () => {
                 return;
             }
 
-            let currentScore = initialAnalysis.score;
-
             setCurrentAnalysis(initialAnalysis);
-            setHistory([{
+            const seed: Variant = {
+                id: '0.0',
                 generation: 0,
-                sequence: currentSeq,
-                score: currentScore,
+                parents: [],
+                origin: 'seed',
+                sequence: root,
+                score: initialAnalysis.score,
+                mutations: [],
+                step: '',
                 reason: "Wild Type Initialization",
-                mutation: "None"
-            }]);
-
-            while (currentGen < maxGens) {
-                currentGen++;
+            };
+            const all: Variant[] = [seed];
+            const seen = new Set([root]);
+            let population = [seed];
+            setVariants([seed]);
+            setPopulations([[seed.id]]);
+
+            for (let currentGen = 1; currentGen <= numGenerations; currentGen++) {
                 setIteration(currentGen);
 
-                const mutations = await generateMutations(currentSeq, initialAnalysis, currentGen);
-                if (!mutations?.mutations) {
-                    addLog("Generation step failed or yielded no mutations. Stopping.", "error");
-                    break;
+                // Point mutants of every member of the beam, applied and checked locally
+                const drafts: Variant[] = [];
+                for (const parent of population) {
+                    const proposals = await generateMutations(parent.sequence, rootAnnotation, currentGen, describeMutations(parent.mutations));
+                    for (const m of screenMutations(proposals, parent.sequence)) {
+                        const added = { index: m.pos, position: rootAnnotation.residues[m.pos]?.position ?? '', wt: m.wt, mut: m.mut };
+                        const childSeq = applyMutations(parent.sequence, [{ index: m.pos, mut: m.mut }]);
+                        if (diffSequences(parent.sequence, childSeq).length !== 1 || seen.has(childSeq)) continue;
+                        seen.add(childSeq);
+                        drafts.push({
+                            id: `${currentGen}.${drafts.length}`,
+                            generation: currentGen,
+                            parents: [parent.id],
+                            origin: 'mutation',
+                            sequence: childSeq,
+                            score: parent.score,
+                            mutations: addMutation(parent.mutations, added, root),
+                            step: formatMutation(added),
+                            reason: m.reason,
+                        });
+                    }
+                }
+                const mutants = await scoreVariants(drafts, all);
+
+                // Beneficial mutations from different branches combined into one variant
+                let recombinants: Variant[] = [];
+                if (recombination) {
+                    const beneficial = mutants.filter(v => v.score > (all.find(p => p.id === v.parents[0])?.score ?? Infinity));
+                    const pairs = recombinationPairs([...beneficial, ...population.filter(v => v.mutations.length)], root, beamWidth, seen);
+                    recombinants = await scoreVariants(pairs.map(({ a, b, mutations, sequence }, i) => ({
+                        id: `${currentGen}.r${i}`,
+                        generation: currentGen,
+                        parents: [a.id, b.id],
+                        origin: 'recombination' as const,
+                        sequence,
+                        score: Math.max(a.score, b.score),
+                        mutations,
+                        step: describeMutations(mutations),
+                        reason: `Recombination of ${describeMutations(a.mutations)} and ${describeMutations(b.mutations)}.`,
+                    })), all);
+                    if (recombinants.length) addLog(`Recombined ${recombinants.length} pair(s) of beneficial variants.`, "info");
                 }
 
-                const bestMut = await evaluateMutations(mutations);
-
-                if (!bestMut) {
-                    addLog("Evaluation failed to select a mutation. Stopping.", "error");
+                if (!mutants.length && !recombinants.length) {
+                    addLog("Generation yielded no valid variants. Stopping.", "error");
                     break;
                 }
 
-                addLog(`Selected Mutation: ${bestMut.code} (${bestMut.reason})`, "success");
-
-                const applyPrompt = `
-          Original: ${currentSeq}
-          Mutation to apply: Change residue at index ${bestMut.pos} (0-indexed) from ${bestMut.wt} to ${bestMut.mut}.
-          Return the FULL new sequence and an updated ${optimizationGoal} Score (0-100).
-          ${getGoalPromptContext()}
-          Previous Score: ${currentScore}
-        `;
-                const applySystem = `Output JSON: { "new_sequence": "...", "new_score": number }`;
-                const applied = await callGemini(applyPrompt, applySystem, apiKey);
-
-                if (applied) {
-                    currentSeq = applied.new_sequence;
-                    currentScore = applied.new_score;
+                population = selectSurvivors(population, [...mutants, ...recombinants], beamWidth, elitism);
+                all.push(...mutants, ...recombinants);
 
-                    setHistory(prev => [...prev, {
-                        generation: currentGen,
-                        sequence: currentSeq,
-                        score: currentScore,
-                        reason: bestMut.reason,
-                        mutation: bestMut.code
-                    }]);
-                    setSequence(currentSeq);
-                } else {
-                    addLog("Failed to apply mutation (API error).", "error");
-                    break;
-                }
+                addLog(`Generation ${currentGen}: kept ${population.map(v => `${describeMutations(v.mutations)} (${v.score})`).join(', ')}.`, "success");
+                setVariants([...all]);
+                setPopulations(prev => [...prev, population.map(v => v.id)]);
+                setSequence(population[0].sequence);
 
                 await new Promise(r => setTimeout(r, 1500));
             }
@@ -349,7 +508,7 @@ export const AffinityMaturation: React.FC = () => {
     };
 
     const generateReport = async () => {
-        if (!history.length) return;
+        if (!variants.length) return;
         setIsGeneratingReport(true);
         addLog("Generating scientific report...", "process");
 
@@ -357,11 +516,17 @@ export const AffinityMaturation: React.FC = () => {
       Write a concise scientific summary of this in silico affinity maturation campaign.
       
       Context: ${getGoalPromptContext()}
-      Evolutionary History: ${JSON.stringify(history)}
+      Best lineage and final population: ${JSON.stringify(lineageVariants.map(v => ({
+            generation: v.generation,
+            origin: v.origin,
+            mutations: describeMutations(v.mutations),
+            score: v.score,
+            reason: v.reason,
+        })))}
       
       Structure the report with these sections:
       1. Campaign Overview (Goal: ${optimizationGoal}, Starting score vs Final score).
-      2. Key Biophysical Mechanisms (Summarize the reasoning behind the key accepted mutations).
+      2. Key Biophysical Mechanisms (Summarize the reasoning behind the key accepted mutations and any recombinations).
       3. Conclusion & Next Steps (Recommendation for wet-lab validation).
       
       Keep it professional, technical, and concise.
@@ -378,25 +543,10 @@ export const AffinityMaturation: React.FC = () => {
     };
 
     const renderSequence = () => {
-        if (!currentAnalysis) {
+        if (!annotation.chain) {
             return <p className="font-mono break-all text-sm text-slate-500">{sequence}</p>;
         }
 
-        const { cdr1, cdr2, cdr3 } = currentAnalysis;
-        const highlightMap = new Array(sequence.length).fill(null);
-
-        const mark = (subseq: string | undefined, type: string) => {
-            if (!subseq) return;
-            const idx = sequence.indexOf(subseq);
-            if (idx !== -1) {
-                for (let i = 0; i < subseq.length; i++) highlightMap[idx + i] = type;
-            }
-        };
-
-        if (cdr1) mark(cdr1.seq, 'cdr1');
-        if (cdr2) mark(cdr2.seq, 'cdr2');
-        if (cdr3) mark(cdr3.seq, 'cdr3');
-
         const getCdrClass = (type: string) => {
             switch (type) {
                 case 'cdr1': return 'bg-blue-100 text-blue-700 border-b-2 border-blue-500 px-0.5 rounded font-bold';
@@ -408,10 +558,10 @@ export const AffinityMaturation: React.FC = () => {
 
         return (
             <div className="font-mono text-sm leading-6 break-all tracking-wide text-slate-700">
-                {sequence.split('').map((char, i) => {
-                    const type = highlightMap[i];
-                    if (!type) return <span key={i}>{char}</span>;
-                    return <span key={i} className={getCdrClass(type)}>{char}</span>;
+                {annotation.residues.map(r => {
+                    const type = r.region.startsWith('CDR') ? r.region.toLowerCase() : null;
+                    if (!type) return <span key={r.index}>{r.aa}</span>;
+                    return <span key={r.index} className={getCdrClass(type)} title={`IMGT ${r.position}`}>{r.aa}</span>;
                 })}
             </div>
         );
@@ -424,6 +574,12 @@ export const AffinityMaturation: React.FC = () => {
 
     return (
         <div className="min-h-screen p-6 md:p-12 max-w-7xl mx-auto bg-slate-50">
+            <AlignmentModal
+                isOpen={showAlignment}
+                onClose={() => setShowAlignment(false)}
+                entries={historyEntries}
+                title="Maturation History"
+            />
 
             {/* Header */}
             <div className="mb-10 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
@@ -447,6 +603,26 @@ export const AffinityMaturation: React.FC = () => {
                     <Card>
                         <h3 className="text-sm font-semibold text-slate-600 mb-3 uppercase tracking-wider">Experiment Setup</h3>
                         <div className="space-y-4">
+                            {/* Starting Sequence */}
+                            {seeds.length > 0 && (
+                                <div>
+                                    <label className="block text-xs font-medium text-slate-500 mb-1 flex items-center gap-1">
+                                        <Icon name="dna" size={14} /> Start From
+                                    </label>
+                                    <select
+                                        value={seedIndex}
+                                        onChange={(e) => chooseStart(Number(e.target.value))}
+                                        disabled={isProcessing}
+                                        className="w-full bg-slate-50 border border-slate-200 rounded px-3 py-2 text-sm text-slate-700 focus:outline-none focus:border-blue-500 cursor-pointer"
+                                    >
+                                        <option value={-1}>Trastuzumab VH (default)</option>
+                                        {seeds.map((seed, i) => (
+                                            <option key={i} value={i}>{seed.name} · {seed.source}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
                             {/* Optimization Goal */}
                             <div>
                                 <label className="block text-xs font-medium text-slate-500 mb-1 flex items-center gap-1">
@@ -520,7 +696,7 @@ export const AffinityMaturation: React.FC = () => {
                             {/* Candidates Slider */}
                             <div>
                                 <label className="block text-xs font-medium text-slate-500 mb-1 flex items-center gap-1">
-                                    <Icon name="layers" size={14} /> Mutation Candidates per Generation
+                                    <Icon name="layers" size={14} /> Mutation Candidates per Parent
                                 </label>
                                 <div className="flex items-center gap-3">
                                     <input
@@ -535,6 +711,57 @@ export const AffinityMaturation: React.FC = () => {
                                 </div>
                             </div>
 
+                            {/* Population Sliders */}
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1 flex items-center gap-1">
+                                    <Icon name="layers" size={14} /> Beam Width (Variants Kept)
+                                </label>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        type="range"
+                                        min="1"
+                                        max="6"
+                                        value={beamWidth}
+                                        onChange={(e) => setBeamWidth(parseInt(e.target.value))}
+                                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                                    />
+                                    <span className="text-sm font-bold text-slate-700 w-8 text-center">{beamWidth}</span>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1 flex items-center gap-1">
+                                    <Icon name="shield" size={14} /> Elitism (Parents Carried Over)
+                                </label>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max={beamWidth}
+                                        value={Math.min(elitism, beamWidth)}
+                                        onChange={(e) => setElitism(parseInt(e.target.value))}
+                                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                                    />
+                                    <span className="text-sm font-bold text-slate-700 w-8 text-center">{Math.min(elitism, beamWidth)}</span>
+                                </div>
+                            </div>
+
+                            {/* Recombination Toggle */}
+                            <div className="flex items-center justify-between">
+                                <label className="block text-xs font-medium text-slate-500 flex items-center gap-1">
+                                    <Icon name="dna" size={14} /> Recombine Beneficial Mutations
+                                </label>
+                                <button
+                                    onClick={() => setRecombination(!recombination)}
+                                    className={`w-8 h-4 rounded-full transition-colors relative ${recombination ? 'bg-blue-500' : 'bg-slate-300'}`}
+                                >
+                                    <div
+                                        className="w-3 h-3 bg-white rounded-full absolute top-0.5 transition-all"
+                                        style={{ left: recombination ? '18px' : '2px' }}
+                                    />
+                                </button>
+                            </div>
+
                             {/* Start Button */}
                             <button
                                 onClick={runEvolutionLoop}
@@ -557,7 +784,7 @@ export const AffinityMaturation: React.FC = () => {
                         <div className="flex justify-between items-center mb-4">
                             <h2 className="text-lg font-semibold flex items-center gap-2 text-slate-800">
                                 <Icon name="align-left" className="text-blue-500" />
-                                Variable Heavy Chain
+                                {annotation.chain ? CHAIN_CLASS_NAMES[annotation.chain.type] : 'Variable Domain'}
                             </h2>
                             {isProcessing && <span className="text-xs text-green-600 animate-pulse">Sequencing...</span>}
                         </div>
@@ -569,6 +796,9 @@ export const AffinityMaturation: React.FC = () => {
                             <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-purple-500"></div> CDR2</span>
                             <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-emerald-500"></div> CDR3</span>
                         </div>
+                        {currentAnalysis?.assessment && (
+                            <p className="mt-3 text-xs text-slate-600 leading-relaxed">{currentAnalysis.assessment}</p>
+                        )}
                     </Card>
 
                     {/* Safety Check */}
@@ -660,30 +890,30 @@ export const AffinityMaturation: React.FC = () => {
                                 <Icon name="activity" className="text-green-500" />
                                 Evolutionary Trajectory
                             </h2>
-                            {history.length > 0 && (
+                            {best && (
                                 <div className="text-right">
                                     <div className="text-3xl font-bold text-emerald-600">
-                                        {history[history.length - 1]?.score || 0}
+                                        {best.score}
                                     </div>
-                                    <div className="text-xs text-slate-400">Current Score</div>
+                                    <div className="text-xs text-slate-400">Best Score</div>
                                 </div>
                             )}
                         </div>
 
                         {/* Simple Score Bar Visualization */}
                         <div className="flex items-end gap-1 h-24">
-                            {history.map((item, idx) => (
+                            {trajectory.map((item, idx) => (
                                 <div
                                     key={idx}
                                     className="flex-1 bg-gradient-to-t from-emerald-500 to-emerald-400 rounded-t-sm transition-all duration-500 relative group"
                                     style={{ height: `${item.score}%` }}
                                 >
                                     <div className="absolute -top-6 left-1/2 -translate-x-1/2 bg-slate-800 text-white px-1 py-0.5 rounded text-[10px] opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap">
-                                        Gen {item.generation}: {item.score}
+                                        Gen {item.generation} best: {item.score}
                                     </div>
                                 </div>
                             ))}
-                            {history.length === 0 && (
+                            {trajectory.length === 0 && (
                                 <div className="w-full h-full flex items-center justify-center text-slate-400 text-sm">
                                     Start maturation to see progress
                                 </div>
@@ -692,8 +922,16 @@ export const AffinityMaturation: React.FC = () => {
                     </Card>
 
                     {/* Report Button & Display */}
-                    {history.length > 0 && !isProcessing && (
-                        <div className="flex justify-end">
+                    {variants.length > 0 && !isProcessing && (
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => setShowAlignment(true)}
+                                disabled={lineageVariants.length < 2}
+                                className="bg-white border border-slate-200 hover:border-blue-300 text-slate-600 hover:text-blue-600 px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <Icon name="align-left" />
+                                Align Lineage
+                            </button>
                             <button
                                 onClick={generateReport}
                                 disabled={isGeneratingReport}
@@ -717,29 +955,62 @@ export const AffinityMaturation: React.FC = () => {
                         </Card>
                     )}
 
-                    {/* Mutation History */}
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {history.slice().reverse().map((item, idx) => (
-                            <Card key={idx} className={`${idx === 0 ? 'border-blue-200 shadow-lg shadow-blue-500/5 bg-white' : 'bg-slate-50'}`}>
-                                <div className="flex justify-between items-start mb-3">
-                                    <div>
-                                        <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Generation {item.generation}</div>
-                                        <div className="text-xl font-bold text-slate-800 flex items-center gap-2">
-                                            {item.mutation === "None" ? "Wild Type" : item.mutation}
-                                            {idx === 0 && item.mutation !== "None" && <Badge type="blue">Latest</Badge>}
-                                        </div>
-                                    </div>
-                                    <div className="text-right">
-                                        <div className="text-2xl font-bold text-emerald-600">{item.score}</div>
-                                        <div className="text-[10px] text-slate-400">SCORE</div>
+                    {/* Lineage Tree */}
+                    {variants.length > 0 && (
+                        <Card>
+                            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                                <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                                    <Icon name="layers" className="text-purple-500" />
+                                    Lineage Tree
+                                </h2>
+                                <div className="flex gap-3 text-xs text-slate-500">
+                                    <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-blue-500"></div> Start</span>
+                                    <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-emerald-500"></div> Point mutant</span>
+                                    <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-violet-500"></div> Recombinant</span>
+                                    <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full border-2 border-slate-400"></div> Culled</span>
+                                </div>
+                            </div>
+                            <LineageTree
+                                variants={variants}
+                                survivors={survivors}
+                                highlighted={bestLineage}
+                                selectedId={selected?.id ?? null}
+                                onSelect={selectVariant}
+                            />
+                        </Card>
+                    )}
+
+                    {/* Selected Variant */}
+                    {selected && (
+                        <Card className="border-blue-200 shadow-lg shadow-blue-500/5 bg-white">
+                            <div className="flex justify-between items-start mb-3">
+                                <div>
+                                    <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Generation {selected.generation}</div>
+                                    <div className="text-xl font-bold text-slate-800 flex flex-wrap items-center gap-2">
+                                        {describeMutations(selected.mutations)}
+                                        {selected === best && selected.origin !== 'seed' && <Badge type="green">Best</Badge>}
+                                        {selected.origin === 'recombination' && <Badge type="purple">Recombinant</Badge>}
+                                        {!survivors.has(selected.id) && <Badge type="amber">Culled</Badge>}
                                     </div>
                                 </div>
-                                <p className="text-sm text-slate-600 leading-relaxed border-t border-slate-200 pt-3">
-                                    {item.reason}
+                                <div className="text-right">
+                                    <div className="text-2xl font-bold text-emerald-600">{selected.score}</div>
+                                    <div className="text-[10px] text-slate-400">SCORE</div>
+                                </div>
+                            </div>
+                            <p className="text-sm text-slate-600 leading-relaxed border-t border-slate-200 pt-3">
+                                {selected.reason}
+                            </p>
+                            {selected.parents.length > 0 && (
+                                <p className="text-xs text-slate-400 mt-2">
+                                    From {selected.parents.map(id => {
+                                        const parent = variants.find(v => v.id === id);
+                                        return parent ? `${describeMutations(parent.mutations)} (${parent.score})` : id;
+                                    }).join(' × ')}
                                 </p>
-                            </Card>
-                        ))}
-                    </div>
+                            )}
+                        </Card>
+                    )}
 
                 </div>
             </div>
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, Download, FileUp, Filter, Table, Zap } from 'lucide-react';
+import { analyzeBatchRecord, parseBatch, BatchRecord, BatchRow } from '../../utils/batch';
+import { toAirrTsv } from '../../utils/airr';
+import { downloadFile } from '../../utils/download';
+
+interface BatchPanelProps {
+    onOpen: (record: BatchRecord) => void;
+    onRowsChange?: (rows: BatchRow[]) => void; // results as they arrive, e.g. for the alignment view
+}
+
+type SortKey = 'id' | 'name' | 'format' | 'vGene' | 'identity' | 'meanIdentity' | 'pI' | 'liabilities' | 'cdr3Length' | 'issues';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+    { key: 'name', label: 'Name' },
+    { key: 'format', label: 'Format' },
+    { key: 'vGene', label: 'V Gene' },
+    { key: 'identity', label: 'Human V %', numeric: true },
+    { key: 'meanIdentity', label: 'Mean ID', numeric: true },
+    { key: 'pI', label: 'pI', numeric: true },
+    { key: 'liabilities', label: 'Liabilities', numeric: true },
+    { key: 'cdr3Length', label: 'CDR3', numeric: true },
+    { key: 'issues', label: 'Input', numeric: true },
+];
+
+// Rows with high-severity liabilities or input problems
+const isFlagged = (row: BatchRow) => !row.ok || row.highLiabilities > 0 || row.issues.length > 0;
+
+const sortValue = (row: BatchRow, key: SortKey): number | string | null => {
+    switch (key) {
+        case 'name': return row.record.name.toLowerCase();
+        case 'liabilities': return row.highLiabilities * 1000 + row.liabilities;
+        case 'issues': return row.ok ? row.issues.length : 1000;
+        default: return row[key];
+    }
+};
+
+const SAMPLE = `name,VH,VL
+adalimumab,EVQLVESGGGLVQPGRSLRLSCAASGFTFDDYAMHWVRQAPGKGLEWVSAITWNSGHIDYADSVEGRFTISRDNAKNSLYLQMNSLRAEDTAVYYCAKVSYLSTASSLDYWGQGTLVTVSS,DIQMTQSPSSLSASVGDRVTITCRASQGIRNYLAWYQQKPGKAPKLLIYAASTLQSGVPSRFSGSGSGTDFTLTISSLQPEDVATYYCQRYNRAPYTFGQGTKVEIK
+trastuzumab,EVQLVESGGGLVQPGGSLRLSCAASGFNIKDTYIHWVRQAPGKGLEWVARIYPTNGYTRYADSVKGRFTISADTSKNTAYLQMNSLRAEDTAVYYCSRWGGDGFYAMDYWGQGTLVTVSS,DIQMTQSPSSLSASVGDRVTITCRASQDVNTAVAWYQQKPGKAPKLLIYSASFLYSGVPSRFSGSRSGTDFTLTISSLQPEDFATYYCQQHYTTPPTFGQGTKVEIK
+rituximab,QVQLQQPGAELVKPGASVKMSCKASGYTFTSYNMHWVKQTPGRGLEWIGAIYPGNGDTSYNQKFKGKATLTADKSSSTAYMQLSSLTSEDSAVYYCARSTYYGGDWYFNVWGAGTTVTVSA,QIVLSQSPAILSASPGEKVTMTCRASSSVSYIHWFQQKPGSSPKPWIYATSNLASGVPVRFSGSGSGTSYSLTISRVEAEDAATYYCQQWTSNPPTFGGGTKLEIK`;
+
+/**
+ * Batch screening of a clone panel: paste or upload multi-record FASTA or a
+ * CSV/TSV with name, VH and VL columns. Records are analyzed a few at a time
+ * so the page stays responsive; clicking a row hands the clone back to the
+ * single-sequence dashboard.
+ */
+export const BatchPanel: React.FC<BatchPanelProps> = ({ onOpen, onRowsChange }) => {
+    const [input, setInput] = useState(SAMPLE);
+    const [rows, setRows] = useState<BatchRow[]>([]);
+    const [parseErrors, setParseErrors] = useState<string[]>([]);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [query, setQuery] = useState('');
+    const [flaggedOnly, setFlaggedOnly] = useState(false);
+    const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'id', ascending: true });
+    const runRef = useRef(0);
+
+    // Abandon a running batch when the panel unmounts
+    useEffect(() => () => { runRef.current++; }, []);
+
+    useEffect(() => {
+        onRowsChange?.(rows);
+    }, [rows, onRowsChange]);
+
+    const runBatch = async () => {
+        const run = ++runRef.current;
+        const { records, errors } = parseBatch(input);
+        setParseErrors(errors);
+        setRows([]);
+        setProgress({ done: 0, total: records.length });
+        const results: BatchRow[] = [];
+        for (const [i, record] of records.entries()) {
+            // Yield to the browser between records
+            await new Promise(resolve => setTimeout(resolve, 0));
+            if (run !== runRef.current) return;
+            results.push(analyzeBatchRecord(record, i));
+            setProgress({ done: i + 1, total: records.length });
+            if (i % 10 === 9 || i === records.length - 1) setRows([...results]);
+        }
+        setProgress(null);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) setInput(await file.text());
+        e.target.value = '';
+    };
+
+    const toggleSort = (key: SortKey) =>
+        setSort(current => ({ key, ascending: current.key === key ? !current.ascending : true }));
+
+    const visible = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        const filtered = rows.filter(row =>
+            (!flaggedOnly || isFlagged(row))
+            && (!needle || row.record.name.toLowerCase().includes(needle) || row.vGene.toLowerCase().includes(needle)));
+        const direction = sort.ascending ? 1 : -1;
+        // Missing values sort last in either direction
+        return [...filtered].sort((a, b) => {
+            const [x, y] = [sortValue(a, sort.key), sortValue(b, sort.key)];
+            if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+            return (x < y ? -1 : x > y ? 1 : 0) * direction;
+        });
+    }, [rows, query, flaggedOnly, sort]);
+
+    const flaggedCount = rows.filter(isFlagged).length;
+
+    // Exports the rows currently shown, in table order
+    const exportAirr = () => downloadFile('batch_rearrangements.tsv', toAirrTsv(visible.flatMap(row => row.airr)), 'text/tab-separated-values');
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                <div className="flex justify-between items-center mb-3">
+                    <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                        <Table size={16} /> Batch Input (FASTA or CSV: name, VH, VL)
+                    </label>
+                    <label className="text-xs bg-slate-100 hover:bg-slate-200 px-3 py-1 rounded text-slate-600 transition-colors font-medium cursor-pointer flex items-center gap-1">
+                        <FileUp size={12} /> Upload File
+                        <input type="file" accept=".fa,.fasta,.faa,.fna,.csv,.tsv,.txt" onChange={handleFile} className="hidden" />
+                    </label>
+                </div>
+                <textarea
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    className="w-full h-40 bg-slate-50 border border-slate-200 rounded-lg p-4 font-mono text-xs text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all resize-y shadow-inner"
+                    placeholder={'>clone1_VH\nEVQLV...\n>clone1_VL\nDIQMT...\n\nor\n\nname,VH,VL\nclone1,EVQLV...,DIQMT...'}
+                />
+                {parseErrors.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs text-red-600">
+                        {parseErrors.map((error, i) => (
+                            <li key={i} className="flex items-center gap-1.5"><AlertCircle size={12} /> {error}</li>
+                        ))}
+                    </ul>
+                )}
+                <div className="mt-4 flex items-center justify-between gap-4">
+                    <div className="flex-1">
+                        {progress && (
+                            <div className="flex items-center gap-3 text-xs text-slate-500">
+                                <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }} />
+                                </div>
+                                <span>{progress.done} / {progress.total}</span>
+                            </div>
+                        )}
+                    </div>
+                    <button
+                        onClick={runBatch}
+                        disabled={progress !== null || !input.trim()}
+                        className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-6 py-2 rounded-lg text-sm font-semibold shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Zap size={16} /> {progress ? 'Analyzing...' : 'Analyze Batch'}
+                    </button>
+                </div>
+            </div>
+
+            {rows.length > 0 && (
+                <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                    <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                        <h3 className="text-lg font-semibold text-slate-800">
+                            Results <span className="text-sm font-normal text-slate-400">({visible.length} of {rows.length} · {flaggedCount} flagged)</span>
+                        </h3>
+                        <div className="flex items-center gap-3">
+                            <div className="relative">
+                                <Filter size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+                                <input
+                                    value={query}
+                                    onChange={(e) => setQuery(e.target.value)}
+                                    placeholder="Filter by name or V gene"
+                                    className="pl-7 pr-2 py-1 text-xs border border-slate-200 rounded bg-slate-50 focus:outline-none focus:border-indigo-400"
+                                />
+                            </div>
+                            <label className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+                                <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} className="accent-indigo-600" />
+                                Flagged only
+                            </label>
+                            <button
+                                onClick={exportAirr}
+                                className="text-xs bg-slate-100 hover:bg-slate-200 px-3 py-1 rounded text-slate-600 transition-colors font-medium flex items-center gap-1"
+                            >
+                                <Download size={12} /> AIRR TSV
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs text-slate-400 text-left">
+                                    {COLUMNS.map(column => (
+                                        <th key={column.key} className={`font-medium pb-2 pr-3 ${column.numeric ? 'text-right' : ''}`}>
+                                            <button onClick={() => toggleSort(column.key)} className="inline-flex items-center gap-1 hover:text-slate-600">
+                                                {column.label}
+                                                {sort.key !== column.key ? <ArrowUpDown size={10} /> : sort.ascending ? <ArrowUp size={10} /> : <ArrowDown size={10} />}
+                                            </button>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visible.map(row => (
+                                    <tr
+                                        key={row.id}
+                                        onClick={() => onOpen(row.record)}
+                                        className="border-t border-slate-100 hover:bg-indigo-50/50 cursor-pointer"
+                                        title="Open in the dashboard"
+                                    >
+                                        <td className="py-1.5 pr-3 font-medium text-slate-700">{row.record.name}</td>
+                                        <td className="py-1.5 pr-3 text-slate-500 text-xs">{row.format}{row.chains.length > 0 && ` · ${row.chains.join('/')}`}</td>
+                                        <td className="py-1.5 pr-3 font-mono text-xs text-slate-600">{row.vGene || '—'}</td>
+                                        <td className="py-1.5 pr-3 text-right font-mono">{row.identity?.toFixed(1) ?? '—'}</td>
+                                        <td className="py-1.5 pr-3 text-right font-mono">{row.meanIdentity?.toFixed(1) ?? '—'}</td>
+                                        <td className="py-1.5 pr-3 text-right font-mono">{row.pI?.toFixed(2) ?? '—'}</td>
+                                        <td className="py-1.5 pr-3 text-right font-mono">
+                                            {row.ok ? (
+                                                <span className={row.highLiabilities ? 'text-red-600 font-bold' : 'text-slate-600'}>
+                                                    {row.liabilities}{row.highLiabilities > 0 && ` (${row.highLiabilities} high)`}
+                                                </span>
+                                            ) : '—'}
+                                        </td>
+                                        <td className="py-1.5 pr-3 text-right font-mono">{row.cdr3Length ?? '—'}</td>
+                                        <td className="py-1.5 text-right">
+                                            {row.issues.length > 0 ? (
+                                                <span title={row.issues.join('\n')} className={`inline-flex items-center gap-1 text-xs ${row.ok ? 'text-amber-600' : 'text-red-600'}`}>
+                                                    {row.ok ? <AlertTriangle size={12} /> : <AlertCircle size={12} />} {row.issues.length}
+                                                </span>
+                                            ) : <span className="text-xs text-green-600">OK</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
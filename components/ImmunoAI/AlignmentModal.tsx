@@ -1,35 +1,109 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Dna, X } from 'lucide-react';
+import { expandResidue, AMINO_ACID_PROPERTIES } from '../../utils/aminoAcidProperties';
+import { NUMBERING_SCHEMES, NumberingScheme } from '../../utils/numbering';
+import { alignByNumbering, isSimilar, rowIdentity, MsaEntry, MsaColumn } from '../../utils/msa';
 
 interface AlignmentModalProps {
     isOpen: boolean;
     onClose: () => void;
-    querySeq: string;
+    entries: MsaEntry[]; // first entry is the initial reference
+    title?: string;
 }
 
-export const AlignmentModal: React.FC<AlignmentModalProps> = ({ isOpen, onClose, querySeq }) => {
-    if (!isOpen) return null;
+type ColorMode = 'identity' | 'similarity' | 'chemistry';
 
-    const subjectName = "Adalimumab (Humira)";
-    // Adalimumab VH Sequence for comparison
-    const subjectSeq = "EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYAMSWVRQAPGKGLEWVSAISGSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCARDYYGSSWYFDVWGQGTLVTVSS";
+const BLOCK = 50;
 
-    // Split into chunks for readability
-    const chunkSize = 40;
-    const chunks: number[] = [];
-    for (let i = 0; i < Math.max(querySeq.length, subjectSeq.length); i += chunkSize) {
-        chunks.push(i);
-    }
+const CATEGORY_COLORS: Record<string, string> = {
+    Nonpolar: '#b45309',
+    Polar: '#059669',
+    Positive: '#2563eb',
+    Negative: '#dc2626',
+};
+
+const letterColor = (aa: string) => CATEGORY_COLORS[AMINO_ACID_PROPERTIES[expandResidue(aa)]?.category] ?? '#64748b';
+
+// Stacked letters, height proportional to bits (max log2(20) ≈ 4.32)
+const LogoColumn: React.FC<{ column: MsaColumn }> = ({ column }) => {
+    const height = 36;
+    const perBit = height / Math.log2(20);
+    let y = height;
+    return (
+        <svg width={16} height={height} className="block">
+            {column.logo.map(({ aa, bits }) => {
+                const h = bits * perBit;
+                y -= h;
+                if (h < 1) return null;
+                // Glyph cap height is ~0.72em; scale a 10px letter to fill h
+                return (
+                    <text
+                        key={aa}
+                        x={8}
+                        y={0}
+                        fontSize={10}
+                        fontWeight={700}
+                        fontFamily="monospace"
+                        textAnchor="middle"
+                        fill={letterColor(aa)}
+                        transform={`translate(0 ${y + h}) scale(1 ${h / 7.2})`}
+                    >
+                        {aa}
+                    </text>
+                );
+            })}
+        </svg>
+    );
+};
+
+export const AlignmentModal: React.FC<AlignmentModalProps> = ({ isOpen, onClose, entries, title = 'Alignment View' }) => {
+    const [scheme, setScheme] = useState<NumberingScheme>('IMGT');
+    const [colorMode, setColorMode] = useState<ColorMode>('identity');
+    const [dots, setDots] = useState(false);
+    const [hiddenGroups, setHiddenGroups] = useState<string[]>([]);
+    const [referenceName, setReferenceName] = useState('');
+
+    const groups = useMemo(() => [...new Set(entries.map(e => e.group))], [entries]);
+    const visible = useMemo(() => entries.filter(e => !hiddenGroups.includes(e.group)), [entries, hiddenGroups]);
+    const msa = useMemo(() => (isOpen ? alignByNumbering(visible, scheme) : null), [isOpen, visible, scheme]);
+
+    // Fall back to the first row when the reference is hidden or gone
+    useEffect(() => {
+        if (msa && !msa.rows.some(r => r.entry.name === referenceName)) setReferenceName(msa.rows[0]?.entry.name ?? '');
+    }, [msa]);
+
+    if (!isOpen || !msa) return null;
+
+    const reference = msa.rows.find(r => r.entry.name === referenceName) ?? msa.rows[0];
+    const blocks: number[] = [];
+    for (let i = 0; i < msa.columns.length; i += BLOCK) blocks.push(i);
+
+    const toggleGroup = (group: string) =>
+        setHiddenGroups(hidden => (hidden.includes(group) ? hidden.filter(g => g !== group) : [...hidden, group]));
+
+    const cellClass = (aa: string, k: number, isReference: boolean) => {
+        if (aa === '-') return 'text-slate-300';
+        if (colorMode === 'chemistry' || !reference) return '';
+        const ref = reference.residues[k];
+        if (isReference || aa === ref) return 'bg-emerald-100 text-emerald-800';
+        if (ref !== '-' && colorMode === 'similarity' && isSimilar(aa, ref)) return 'bg-amber-100 text-amber-800';
+        return 'bg-red-100 text-red-600 font-bold';
+    };
 
     return (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
-            <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full flex flex-col max-h-[90vh]">
-                <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-6xl w-full flex flex-col max-h-[90vh]">
+                <div className="p-6 border-b border-slate-100 flex justify-between items-start gap-4">
                     <div>
                         <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
-                            <Dna className="text-indigo-600" size={20} /> Alignment View
+                            <Dna className="text-indigo-600" size={20} /> {title}
                         </h3>
-                        <p className="text-sm text-slate-500 mt-1">Comparing Input (Query) vs. {subjectName} (Ref)</p>
+                        <p className="text-sm text-slate-500 mt-1">
+                            {msa.rows.length} sequences aligned by {msa.scheme} numbering · reference: {reference?.entry.name ?? '—'} (click a name to change)
+                        </p>
+                        {msa.unaligned.length > 0 && (
+                            <p className="text-xs text-amber-600 mt-1">Not numbered (no V domain found): {msa.unaligned.map(e => e.name).join(', ')}</p>
+                        )}
                     </div>
                     <button
                         onClick={onClose}
@@ -39,63 +113,141 @@ export const AlignmentModal: React.FC<AlignmentModalProps> = ({ isOpen, onClose,
                     </button>
                 </div>
 
-                <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50">
-                    <div className="space-y-8 font-mono text-sm">
-                        {chunks.map((startIdx) => {
-                            const qChunk = querySeq.slice(startIdx, startIdx + chunkSize).padEnd(chunkSize, '-');
-                            const sChunk = subjectSeq.slice(startIdx, startIdx + chunkSize).padEnd(chunkSize, '-');
+                <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-4 text-xs text-slate-600">
+                    <label className="flex items-center gap-2">
+                        Scheme
+                        <select value={scheme} onChange={(e) => setScheme(e.target.value as NumberingScheme)} className="border border-slate-200 rounded px-2 py-1 bg-white">
+                            {NUMBERING_SCHEMES.map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Color
+                        <select value={colorMode} onChange={(e) => setColorMode(e.target.value as ColorMode)} className="border border-slate-200 rounded px-2 py-1 bg-white">
+                            <option value="identity">Identity to reference</option>
+                            <option value="similarity">Similarity (BLOSUM62 &gt; 0)</option>
+                            <option value="chemistry">Residue chemistry</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                        <input type="checkbox" checked={dots} onChange={(e) => setDots(e.target.checked)} />
+                        Identical residues as dots
+                    </label>
+                    {groups.length > 1 && (
+                        <div className="flex items-center gap-3">
+                            <span className="text-slate-400">Show</span>
+                            {groups.map(group => (
+                                <label key={group} className="flex items-center gap-1.5 cursor-pointer">
+                                    <input type="checkbox" checked={!hiddenGroups.includes(group)} onChange={() => toggleGroup(group)} />
+                                    {group} ({entries.filter(e => e.group === group).length})
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
 
+                <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50">
+                    {msa.rows.length === 0 && (
+                        <p className="text-center text-slate-400 text-sm py-12">No sequences to align.</p>
+                    )}
+                    <div className="space-y-6 font-mono text-sm">
+                        {msa.rows.length > 0 && blocks.map(start => {
+                            const columns = msa.columns.slice(start, start + BLOCK);
+                            const ks = columns.map((_, i) => start + i);
                             return (
-                                <div key={startIdx} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
-                                    {/* Position Header */}
-                                    <div className="flex justify-between text-xs text-slate-400 mb-2 px-2">
-                                        <span>Pos {startIdx + 1}</span>
-                                        <span>{Math.min(startIdx + chunkSize, Math.max(querySeq.length, subjectSeq.length))}</span>
+                                <div key={start} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+                                    {/* Position labels every 10 columns and on insertions */}
+                                    <div className="flex items-end gap-3 mb-1">
+                                        <span className="w-44 shrink-0" />
+                                        <span className="w-12 shrink-0" />
+                                        <div className="flex text-[8px] text-slate-400 h-6">
+                                            {columns.map((c, i) => (
+                                                <span key={c.label} className="w-4 text-center [writing-mode:vertical-rl] rotate-180 leading-4">
+                                                    {(start + i) % 10 === 0 || /[A-Z]$/.test(c.label) ? c.label : ''}
+                                                </span>
+                                            ))}
+                                        </div>
                                     </div>
 
-                                    {/* Subject (Reference) */}
+                                    {/* Region track */}
                                     <div className="flex items-center gap-3 mb-1">
-                                        <span className="w-16 text-xs font-bold text-slate-400 text-right select-none">REF</span>
-                                        <div className="flex tracking-widest text-slate-500">
-                                            {sChunk.split('').map((char, i) => (
-                                                <span key={i} className="w-4 text-center">{char}</span>
+                                        <span className="w-44 shrink-0 text-[10px] text-slate-400 text-right">Region</span>
+                                        <span className="w-12 shrink-0" />
+                                        <div className="flex">
+                                            {columns.map(c => (
+                                                <span
+                                                    key={c.label}
+                                                    title={`${c.region} ${c.label}`}
+                                                    className={`w-4 h-1.5 ${c.region.startsWith('CDR') ? 'bg-pink-400' : 'bg-blue-200'}`}
+                                                />
                                             ))}
                                         </div>
                                     </div>
 
-                                    {/* Alignment Line */}
-                                    <div className="flex items-center gap-3 mb-1">
-                                        <span className="w-16 select-none"></span>
-                                        <div className="flex tracking-widest">
-                                            {qChunk.split('').map((char, i) => {
-                                                const match = char === sChunk[i];
-                                                const gap = char === '-' || sChunk[i] === '-';
-                                                return (
-                                                    <span key={i} className="w-4 text-center text-[10px] h-4 flex items-center justify-center">
-                                                        {gap ? '' : match ? <span className="w-1 h-1 rounded-full bg-emerald-400"></span> : <span className="text-red-500 font-bold">x</span>}
-                                                    </span>
-                                                );
-                                            })}
+                                    {msa.rows.map((row, r) => {
+                                        const isReference = row === reference;
+                                        const stats = reference && !isReference ? rowIdentity(row, reference) : null;
+                                        return (
+                                            <div key={r} className="flex items-center gap-3">
+                                                <button
+                                                    onClick={() => setReferenceName(row.entry.name)}
+                                                    title={`${row.entry.group}: ${row.entry.name}`}
+                                                    className={`w-44 shrink-0 text-[11px] text-right truncate font-sans ${isReference ? 'font-bold text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`}
+                                                >
+                                                    {row.entry.name}
+                                                </button>
+                                                <span
+                                                    className="w-12 shrink-0 text-[10px] text-slate-400 text-right font-sans"
+                                                    title={stats ? `${stats.identity.toFixed(1)}% identity, ${stats.similarity.toFixed(1)}% similarity` : 'Reference'}
+                                                >
+                                                    {stats ? `${stats.identity.toFixed(0)}%` : 'ref'}
+                                                </span>
+                                                <div className="flex">
+                                                    {ks.map(k => {
+                                                        const aa = row.residues[k];
+                                                        const same = !isReference && aa !== '-' && reference && aa === reference.residues[k];
+                                                        return (
+                                                            <span
+                                                                key={k}
+                                                                className={`w-4 text-center rounded-sm ${cellClass(aa, k, isReference)}`}
+                                                                style={colorMode === 'chemistry' && aa !== '-' ? { color: letterColor(aa) } : undefined}
+                                                            >
+                                                                {dots && same ? '·' : aa}
+                                                            </span>
+                                                        );
+                                                    })}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+
+                                    {/* Consensus, conservation and logo */}
+                                    <div className="flex items-center gap-3 mt-2 pt-2 border-t border-slate-100">
+                                        <span className="w-44 shrink-0 text-[10px] text-slate-400 text-right font-sans">Consensus</span>
+                                        <span className="w-12 shrink-0" />
+                                        <div className="flex text-slate-500">
+                                            {columns.map(c => <span key={c.label} className="w-4 text-center">{c.consensus}</span>)}
                                         </div>
                                     </div>
-
-                                    {/* Query (Input) */}
-                                    <div className="flex items-center gap-3">
-                                        <span className="w-16 text-xs font-bold text-indigo-600 text-right select-none">QUERY</span>
-                                        <div className="flex tracking-widest">
-                                            {qChunk.split('').map((char, i) => {
-                                                const match = char === sChunk[i];
-                                                return (
-                                                    <span
-                                                        key={i}
-                                                        className={`w-4 text-center font-bold ${match ? 'text-slate-800' : 'bg-red-100 text-red-600 rounded'}`}
-                                                    >
-                                                        {char}
-                                                    </span>
-                                                );
-                                            })}
+                                    <div className="flex items-end gap-3">
+                                        <span className="w-44 shrink-0 text-[10px] text-slate-400 text-right font-sans">Conservation</span>
+                                        <span className="w-12 shrink-0" />
+                                        <div className="flex items-end h-6">
+                                            {columns.map(c => (
+                                                <span key={c.label} className="w-4 flex justify-center" title={`${c.label}: ${(c.conservation * 100).toFixed(0)}% conserved`}>
+                                                    <span className="w-3 bg-indigo-400 rounded-t-sm" style={{ height: `${Math.max(1, c.conservation * 24)}px` }} />
+                                                </span>
+                                            ))}
                                         </div>
                                     </div>
+                                    {msa.rows.length > 1 && (
+                                        <div className="flex items-end gap-3 mt-1">
+                                            <span className="w-44 shrink-0 text-[10px] text-slate-400 text-right font-sans">Logo</span>
+                                            <span className="w-12 shrink-0" />
+                                            <div className="flex items-end">
+                                                {columns.map(c => <LogoColumn key={c.label} column={c} />)}
+                                            </div>
+                                        </div>
+                                    )}
                                 </div>
                             );
                         })}
@@ -104,8 +256,16 @@ export const AlignmentModal: React.FC<AlignmentModalProps> = ({ isOpen, onClose,
 
                 <div className="p-4 border-t border-slate-100 bg-white rounded-b-2xl flex justify-between items-center text-xs text-slate-500">
                     <div className="flex gap-4">
-                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-400"></span> Match</span>
-                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-100 border border-red-200"></span> Mismatch</span>
+                        {colorMode === 'chemistry'
+                            ? Object.entries(CATEGORY_COLORS).map(([category, color]) => (
+                                <span key={category} className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm" style={{ background: color }}></span> {category}</span>
+                            ))
+                            : <>
+                                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-emerald-100 border border-emerald-200"></span> Identical</span>
+                                {colorMode === 'similarity' && <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-100 border border-amber-200"></span> Similar</span>}
+                                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-100 border border-red-200"></span> Different</span>
+                            </>}
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-pink-400"></span> CDR</span>
                     </div>
                     <button onClick={onClose} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 font-medium rounded-lg transition-colors">
                         Close
@@ -1,10 +1,13 @@
-import React from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
     Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis,
-    ResponsiveContainer, AreaChart, Area, CartesianGrid, XAxis, YAxis, Tooltip
+    ResponsiveContainer, AreaChart, Area, CartesianGrid, XAxis, YAxis, Tooltip,
+    LineChart, Line, ReferenceLine, ReferenceArea
 } from 'recharts';
-import { Activity } from 'lucide-react';
-import { AMINO_ACID_PROPERTIES } from '../../utils/aminoAcidProperties';
+import { Activity, Zap } from 'lucide-react';
+import { HYDROPHOBICITY_SCALE_NAMES, HydrophobicityScale } from '../../utils/aminoAcidProperties';
+import { hydrophobicityProfile } from '../../utils/bioinformatics';
+import { AnnotatedSequence } from '../../utils/annotation';
 
 interface RadarData {
     subject: string;
@@ -57,20 +60,70 @@ export const RadarChartPanel: React.FC<RadarChartPanelProps> = ({ data }) => {
 };
 
 interface HydrophobicityChartProps {
-    sequence: string;
+    annotation: AnnotatedSequence;
+    onSettingsChange?: (settings: { scale: HydrophobicityScale; window: number }) => void; // lets reports reproduce the on-screen profile
 }
 
-export const HydrophobicityChart: React.FC<HydrophobicityChartProps> = ({ sequence }) => {
-    const data = sequence.split('').map((char, i) => ({
-        i,
-        val: AMINO_ACID_PROPERTIES[char]?.hydro || 0
-    }));
+const WINDOW_SIZES = [1, 5, 7, 9, 11];
+
+const BAND_COLORS: Record<string, string> = { FR: '#dbeafe', CDR: '#fce7f3' };
+
+interface HydroPoint {
+    i: number;
+    aa: string;
+    position: string;
+    region: string;
+    val: number;
+}
+
+const HydroTooltip = ({ active, payload, scheme }: { active?: boolean; payload?: { payload: HydroPoint }[]; scheme: string }) => {
+    if (!active || !payload?.length) return null;
+    const p = payload[0].payload;
+    return (
+        <div className="bg-white border border-slate-200 rounded-lg shadow-md px-3 py-2 text-xs text-slate-700">
+            <p className="font-semibold">{p.aa}{p.i + 1} · {p.region}</p>
+            <p className="text-slate-500">{p.position ? `${scheme} ${p.position}` : 'Unnumbered'}</p>
+            <p className="font-mono mt-1">{p.val.toFixed(2)}</p>
+        </div>
+    );
+};
+
+export const HydrophobicityChart: React.FC<HydrophobicityChartProps> = ({ annotation, onSettingsChange }) => {
+    const [scale, setScale] = useState<HydrophobicityScale>('Kyte-Doolittle');
+    const [windowSize, setWindowSize] = useState(9);
+
+    useEffect(() => {
+        onSettingsChange?.({ scale, window: windowSize });
+    }, [scale, windowSize]);
+
+    const data = useMemo<HydroPoint[]>(() => {
+        const values = hydrophobicityProfile(annotation.sequence, scale, windowSize);
+        return annotation.residues.map(r => ({ i: r.index, aa: r.aa, position: r.position, region: r.region, val: values[r.index] }));
+    }, [annotation, scale, windowSize]);
 
     return (
         <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm h-80 flex flex-col">
-            <h3 className="text-slate-800 font-semibold mb-4 flex items-center gap-2">
-                <Activity size={18} className="text-pink-500" /> Hydrophobicity Profile
-            </h3>
+            <div className="flex justify-between items-center mb-4 gap-2">
+                <h3 className="text-slate-800 font-semibold flex items-center gap-2">
+                    <Activity size={18} className="text-pink-500" /> Hydrophobicity Profile
+                </h3>
+                <div className="flex gap-1">
+                    <select
+                        value={scale}
+                        onChange={(e) => setScale(e.target.value as HydrophobicityScale)}
+                        className="text-xs bg-white border border-slate-200 rounded px-1 py-0.5 text-slate-600"
+                    >
+                        {HYDROPHOBICITY_SCALE_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                    <select
+                        value={windowSize}
+                        onChange={(e) => setWindowSize(Number(e.target.value))}
+                        className="text-xs bg-white border border-slate-200 rounded px-1 py-0.5 text-slate-600"
+                    >
+                        {WINDOW_SIZES.map(w => <option key={w} value={w}>{w === 1 ? 'No window' : `Window ${w}`}</option>)}
+                    </select>
+                </div>
+            </div>
             <div className="flex-1 w-full">
                 <ResponsiveContainer width="100%" height="100%">
                     <AreaChart data={data}>
@@ -80,15 +133,58 @@ export const HydrophobicityChart: React.FC<HydrophobicityChartProps> = ({ sequen
                                 <stop offset="95%" stopColor="#ec4899" stopOpacity={0} />
                             </linearGradient>
                         </defs>
+                        {annotation.regions.filter(r => r.end > r.start).map(r => (
+                            <ReferenceArea
+                                key={r.type}
+                                x1={r.start}
+                                x2={r.end - 1}
+                                fill={BAND_COLORS[r.type.startsWith('CDR') ? 'CDR' : 'FR']}
+                                fillOpacity={0.6}
+                                ifOverflow="extendDomain"
+                                label={{ value: r.type, position: 'insideTop', fontSize: 9, fill: '#94a3b8' }}
+                            />
+                        ))}
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                        <XAxis dataKey="i" type="number" domain={[0, Math.max(0, data.length - 1)]} tick={false} stroke="#94a3b8" />
+                        <YAxis stroke="#94a3b8" tick={{ fontSize: 10 }} />
+                        <Tooltip content={<HydroTooltip scheme={annotation.scheme} />} />
+                        <ReferenceLine y={0} stroke="#cbd5e1" />
+                        <Area type="monotone" dataKey="val" stroke="#ec4899" fillOpacity={1} fill="url(#colorHydro)" />
+                    </AreaChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+interface ChargeCurveChartProps {
+    data: { pH: number; charge: number }[];
+    pI: number;
+    pH: number; // formulation pH
+}
+
+export const ChargeCurveChart: React.FC<ChargeCurveChartProps> = ({ data, pI, pH }) => {
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm h-80 flex flex-col">
+            <h3 className="text-slate-800 font-semibold mb-4 flex items-center gap-2">
+                <Zap size={18} className="text-blue-500" /> Charge vs pH
+            </h3>
+            <div className="flex-1 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
-                        <XAxis dataKey="i" tick={false} stroke="#94a3b8" />
+                        <XAxis dataKey="pH" type="number" domain={[0, 14]} ticks={[0, 2, 4, 6, 8, 10, 12, 14]} stroke="#94a3b8" tick={{ fontSize: 10 }} />
                         <YAxis stroke="#94a3b8" tick={{ fontSize: 10 }} />
                         <Tooltip
                             contentStyle={{ backgroundColor: '#ffffff', borderColor: '#e2e8f0', color: '#1e293b', borderRadius: '8px', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                            labelStyle={{ display: 'none' }}
+                            labelFormatter={(value) => `pH ${Number(value).toFixed(2)}`}
+                            formatter={(value) => [Number(value).toFixed(2), 'Net charge']}
                         />
-                        <Area type="monotone" dataKey="val" stroke="#ec4899" fillOpacity={1} fill="url(#colorHydro)" />
-                    </AreaChart>
+                        <ReferenceLine y={0} stroke="#94a3b8" />
+                        <ReferenceLine x={pI} stroke="#6366f1" strokeDasharray="3 3" label={{ value: `pI ${pI.toFixed(2)}`, fontSize: 10, fill: '#6366f1', position: 'top' }} />
+                        <ReferenceLine x={pH} stroke="#ec4899" strokeDasharray="3 3" label={{ value: `pH ${pH}`, fontSize: 10, fill: '#ec4899', position: 'insideTopRight' }} />
+                        <Line type="monotone" dataKey="charge" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                    </LineChart>
                 </ResponsiveContainer>
             </div>
         </div>
@@ -0,0 +1,54 @@
+import React from 'react';
+import { FlaskConical } from 'lucide-react';
+import { DevelopabilityProfile, FlagLevel } from '../../utils/developability';
+
+interface DevelopabilityPanelProps {
+    profile: DevelopabilityProfile;
+}
+
+const FLAG_STYLES: Record<FlagLevel, string> = {
+    green: 'bg-green-50 text-green-700 border-green-200',
+    amber: 'bg-amber-50 text-amber-700 border-amber-200',
+    red: 'bg-red-50 text-red-700 border-red-200',
+};
+
+export const DevelopabilityPanel: React.FC<DevelopabilityPanelProps> = ({ profile }) => {
+    const flagged = profile.metrics.filter(m => m.level !== 'green').length;
+
+    return (
+        <div className="w-full bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <FlaskConical size={18} className="text-emerald-600" /> Developability Guidelines
+                </h3>
+                <span className={`text-xs px-2 py-1 rounded border ${flagged ? FLAG_STYLES.amber : FLAG_STYLES.green}`}>
+                    {flagged ? `${flagged} flagged` : 'Within therapeutic range'}
+                </span>
+            </div>
+
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-xs text-slate-400 text-left">
+                        <th className="font-medium pb-1">Metric</th>
+                        <th className="font-medium pb-1">Value</th>
+                        <th className="font-medium pb-1">Guideline</th>
+                        <th className="font-medium pb-1 text-right">Flag</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {profile.metrics.map(m => (
+                        <tr key={m.key} className="border-t border-slate-100">
+                            <td className="py-1.5 text-slate-700">{m.label}</td>
+                            <td className="py-1.5 font-mono text-slate-600">{Number.isInteger(m.value) ? m.value : m.value.toFixed(1)}</td>
+                            <td className="py-1.5 text-xs text-slate-400">{m.guideline}</td>
+                            <td className="py-1.5 text-right">
+                                <span className={`text-xs px-2 py-0.5 rounded-full border capitalize ${FLAG_STYLES[m.level]}`}>{m.level}</span>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {profile.notes.map((n, i) => <p key={i} className="text-xs text-slate-400 mt-2">{n}</p>)}
+        </div>
+    );
+};
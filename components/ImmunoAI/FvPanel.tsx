@@ -0,0 +1,78 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { FvAnalysis } from '../../utils/fv';
+import { HumannessAnalysis } from '../../utils/bioinformatics';
+import { CHAIN_CLASS_NAMES } from '../../utils/chainType';
+import { AnnotatedSequence } from '../../utils/annotation';
+
+interface FvPanelProps {
+    fv: FvAnalysis;
+    heavyMetrics: HumannessAnalysis;
+    lightMetrics: HumannessAnalysis;
+}
+
+export const FvPanel: React.FC<FvPanelProps> = ({ fv, heavyMetrics, lightMetrics }) => {
+    const chains: [AnnotatedSequence, HumannessAnalysis][] = [[fv.heavy, heavyMetrics], [fv.light, lightMetrics]];
+    const unusualInterface = fv.interface.filter(r => r.consensus && r.aa !== r.consensus);
+
+    return (
+        <div className="w-full bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <Link2 size={18} className="text-violet-600" /> Fv Pair
+                </h3>
+                {fv.scfv && (
+                    <span className="text-xs text-violet-600 bg-violet-50 px-2 py-1 rounded border border-violet-100">
+                        scFv linker {fv.scfv.linkerMotif ?? fv.scfv.linker} ({fv.scfv.linker.length} AA)
+                    </span>
+                )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 mb-4">
+                <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+                    <p className="text-xs text-slate-500">Total CDR Length</p>
+                    <p className="text-xl font-bold text-slate-800">{fv.totalCdrLength}</p>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+                    <p className="text-xs text-slate-500">Fv Net Charge (pH 7.4)</p>
+                    <p className="text-xl font-bold text-slate-800">{fv.netCharge.toFixed(1)}</p>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+                    <p className="text-xs text-slate-500">Fv pI</p>
+                    <p className="text-xl font-bold text-slate-800">{fv.pI.toFixed(2)}</p>
+                </div>
+            </div>
+
+            <table className="w-full text-sm mb-4">
+                <thead>
+                    <tr className="text-xs text-slate-400 text-left">
+                        <th className="font-medium pb-1">Chain</th>
+                        <th className="font-medium pb-1">V / J Germline</th>
+                        <th className="font-medium pb-1">Identity (V / FR)</th>
+                        <th className="font-medium pb-1">CDR1/2/3</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {chains.map(([annotation, metrics], i) => (
+                        <tr key={i} className="border-t border-slate-100">
+                            <td className="py-1.5 text-slate-700">{annotation.chain ? CHAIN_CLASS_NAMES[annotation.chain.type] : 'Unresolved'}</td>
+                            <td className="py-1.5 font-mono text-slate-600">{metrics.germlines.v?.gene.name ?? '—'} / {metrics.germlines.j?.gene.name ?? '—'}</td>
+                            <td className="py-1.5 text-slate-600">{metrics.identity.toFixed(1)}% / {metrics.frameworkIdentity.toFixed(1)}%</td>
+                            <td className="py-1.5 font-mono text-slate-600">
+                                {annotation.regions.filter(r => r.type.startsWith('CDR')).map(r => r.seq.length).join('/')}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <p className="text-xs text-slate-500">
+                VH/VL interface: {fv.interface.length} positions numbered
+                {unusualInterface.length > 0
+                    ? `, non-consensus at ${unusualInterface.map(r => `${r.chain === 'heavy' ? 'H' : 'L'}${r.position}${r.aa} (${r.consensus})`).join(', ')}`
+                    : ', all conserved positions match consensus'}.
+            </p>
+            {fv.notes.map((n, i) => <p key={i} className="text-xs text-slate-400 mt-1">{n}</p>)}
+        </div>
+    );
+};
@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, Wand2 } from 'lucide-react';
+import { annotateSequence, AnnotatedSequence } from '../../utils/annotation';
+import { calculateHumanness } from '../../utils/bioinformatics';
+import { ChainClass } from '../../utils/chainType';
+import {
+    backMutationCandidates, designGraft, formatBackMutation, graftSequence, isCdr, rankAcceptors, GraftZone
+} from '../../utils/humanization';
+import { scanLiabilities } from '../../utils/liabilities';
+import { NUMBERING_SCHEMES, NumberingScheme } from '../../utils/numbering';
+
+interface HumanizationPanelProps {
+    chains: { label: string; annotation: AnnotatedSequence }[];
+}
+
+interface VariantMetrics {
+    name: string;
+    sequence: string;
+    identity: number;
+    frameworkIdentity: number;
+    meanIdentity: number | null;
+    liabilities: number;
+    highLiabilities: number;
+}
+
+const ZONE_STYLES: Record<GraftZone, string> = {
+    Vernier: 'bg-amber-50 text-amber-700 border-amber-200',
+    Interface: 'bg-sky-50 text-sky-700 border-sky-200',
+};
+
+const variantMetrics = (name: string, sequence: string, chain: ChainClass): VariantMetrics => {
+    const humanness = calculateHumanness(sequence, chain);
+    const liabilities = scanLiabilities(annotateSequence(sequence));
+    return {
+        name,
+        sequence,
+        identity: humanness.identity,
+        frameworkIdentity: humanness.frameworkIdentity,
+        meanIdentity: humanness.meanIdentity?.score ?? null,
+        liabilities: liabilities.length,
+        highLiabilities: liabilities.filter(l => l.severity === 'high').length,
+    };
+};
+
+/**
+ * CDR-grafting designer: pick a human acceptor, graft the query CDRs by the
+ * chosen scheme and toggle framework back-mutations, with identity, mean germline identity and
+ * liabilities recomputed for each variant.
+ */
+export const HumanizationPanel: React.FC<HumanizationPanelProps> = ({ chains }) => {
+    const [chainIndex, setChainIndex] = useState(0);
+    const [scheme, setScheme] = useState<NumberingScheme>('Kabat');
+    const [acceptorIndex, setAcceptorIndex] = useState(0);
+    const [showAll, setShowAll] = useState(false);
+    const [backMutations, setBackMutations] = useState<Set<string>>(new Set());
+
+    const chain = chains[Math.min(chainIndex, chains.length - 1)];
+    const acceptors = useMemo(() => rankAcceptors(chain.annotation), [chain]);
+    const acceptor = acceptors[Math.min(acceptorIndex, acceptors.length - 1)];
+    const design = useMemo(() => (acceptor ? designGraft(chain.annotation, acceptor, scheme) : null), [chain, acceptor, scheme]);
+    const suggested = useMemo(() => (design ? backMutationCandidates(design) : []), [design]);
+    const candidates = useMemo(() => (design ? backMutationCandidates(design, showAll) : []), [design, showAll]);
+
+    useEffect(() => setAcceptorIndex(0), [chain]);
+    useEffect(() => setBackMutations(new Set()), [design]);
+
+    const chainClass = chain.annotation.chain?.type;
+    const baseVariants = useMemo(() => {
+        if (!design || !chainClass) return [];
+        return [
+            variantMetrics('Parent', chain.annotation.sequence, chainClass),
+            variantMetrics('CDR graft', graftSequence(design), chainClass),
+            variantMetrics('Graft + suggested back-mutations', graftSequence(design, new Set(suggested.map(p => p.imgt))), chainClass),
+        ];
+    }, [design, suggested]);
+    const custom = useMemo(
+        () => (design && chainClass && backMutations.size ? variantMetrics('Selected back-mutations', graftSequence(design, backMutations), chainClass) : null),
+        [design, backMutations],
+    );
+
+    if (!chainClass || !chain.annotation.imgt) {
+        return (
+            <div className="w-full bg-white p-6 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-400">
+                Humanization needs a numbered antibody V domain.
+            </div>
+        );
+    }
+
+    const toggle = (imgt: string) => setBackMutations(current => {
+        const next = new Set(current);
+        if (next.has(imgt)) next.delete(imgt);
+        else next.add(imgt);
+        return next;
+    });
+
+    const variants = custom ? [...baseVariants, custom] : baseVariants;
+    const current = custom ?? baseVariants[1];
+
+    return (
+        <div className="w-full bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <Wand2 size={18} className="text-violet-600" /> CDR Grafting
+                </h3>
+                {chains.length > 1 && (
+                    <div className="flex bg-slate-100 rounded-lg p-1 text-xs">
+                        {chains.map((c, i) => (
+                            <button
+                                key={c.label}
+                                onClick={() => setChainIndex(i)}
+                                className={`px-3 py-1 rounded-md transition-all ${i === chainIndex ? 'bg-white text-slate-800 shadow-sm font-medium' : 'text-slate-500'}`}
+                            >
+                                {c.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4 text-xs text-slate-600">
+                <label className="flex flex-col gap-1">
+                    Acceptor (human germline, by framework identity)
+                    <select
+                        value={acceptorIndex}
+                        onChange={(e) => setAcceptorIndex(Number(e.target.value))}
+                        className="border border-slate-200 rounded px-2 py-1.5 bg-white text-sm"
+                    >
+                        {acceptors.map((a, i) => (
+                            <option key={a.v.name} value={i}>
+                                {a.v.name}{a.j ? ` / ${a.j.name}` : ''} · FR {a.frameworkIdentity.toFixed(0)}%{a.cdrLengthsMatch ? ' · CDR1/2 lengths match' : ''}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    CDR definition
+                    <select
+                        value={scheme}
+                        onChange={(e) => setScheme(e.target.value as NumberingScheme)}
+                        className="border border-slate-200 rounded px-2 py-1.5 bg-white text-sm"
+                    >
+                        {NUMBERING_SCHEMES.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                </label>
+            </div>
+
+            {!design && <p className="text-sm text-slate-400">No acceptor could be aligned to this domain.</p>}
+
+            {design && (
+                <>
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                            Back-mutations ({backMutations.size} selected)
+                        </h4>
+                        <div className="flex items-center gap-3 text-xs">
+                            <label className="flex items-center gap-1.5 text-slate-500 cursor-pointer">
+                                <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+                                All framework differences
+                            </label>
+                            <button onClick={() => setBackMutations(new Set(suggested.map(p => p.imgt)))} className="text-indigo-600 hover:underline">Suggested</button>
+                            <button onClick={() => setBackMutations(new Set())} className="text-slate-500 hover:underline">None</button>
+                        </div>
+                    </div>
+                    {candidates.length === 0 ? (
+                        <p className="text-sm text-slate-400 mb-4">
+                            {showAll ? 'The acceptor framework matches the query.' : 'No Vernier or interface residues differ from the acceptor.'}
+                        </p>
+                    ) : (
+                        <div className="flex flex-wrap gap-2 mb-4">
+                            {candidates.map(p => (
+                                <label
+                                    key={p.imgt}
+                                    title={`IMGT ${p.imgt}${p.kabat ? `, Kabat ${p.kabat}` : ''} · ${p.region}`}
+                                    className={`flex items-center gap-1.5 px-2 py-1 rounded-lg border text-xs cursor-pointer transition-colors ${backMutations.has(p.imgt) ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300'}`}
+                                >
+                                    <input type="checkbox" checked={backMutations.has(p.imgt)} onChange={() => toggle(p.imgt)} />
+                                    <span className="font-mono font-semibold">{formatBackMutation(p)}</span>
+                                    <span className="text-slate-400">{p.region}</span>
+                                    {p.zones.map(zone => (
+                                        <span key={zone} className={`px-1.5 rounded border text-[10px] ${ZONE_STYLES[zone]}`}>{zone}</span>
+                                    ))}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    <table className="w-full text-sm mb-4">
+                        <thead>
+                            <tr className="text-xs text-slate-400 text-left">
+                                <th className="font-medium pb-1">Variant</th>
+                                <th className="font-medium pb-1 text-right">Human V %</th>
+                                <th className="font-medium pb-1 text-right">FR %</th>
+                                <th className="font-medium pb-1 text-right">Mean ID %</th>
+                                <th className="font-medium pb-1 text-right">Liabilities</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {variants.map(v => (
+                                <tr key={v.name} className={`border-t border-slate-100 ${v === current ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>
+                                    <td className="py-1.5">{v.name}</td>
+                                    <td className="py-1.5 text-right font-mono">{v.identity.toFixed(1)}</td>
+                                    <td className="py-1.5 text-right font-mono">{v.frameworkIdentity.toFixed(1)}</td>
+                                    <td className="py-1.5 text-right font-mono">{v.meanIdentity !== null ? v.meanIdentity.toFixed(1) : '—'}</td>
+                                    <td className="py-1.5 text-right font-mono">
+                                        {v.liabilities}{v.highLiabilities > 0 && <span className="text-red-600"> ({v.highLiabilities} high)</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {/* Current design: CDRs from the query, back-mutated positions highlighted */}
+                    <div className="flex justify-between items-center mb-1">
+                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{current.name}</h4>
+                        <button
+                            onClick={() => navigator.clipboard?.writeText(current.sequence)}
+                            className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-600"
+                        >
+                            <Copy size={12} /> Copy
+                        </button>
+                    </div>
+                    <div className="font-mono text-xs break-all leading-5 bg-slate-50 border border-slate-100 rounded-lg p-3">
+                        {design.positions.map(p => {
+                            const aa = isCdr(p) || backMutations.has(p.imgt) ? p.query : p.acceptor;
+                            if (aa === '-') return null;
+                            const style = isCdr(p)
+                                ? 'bg-pink-100 text-pink-700'
+                                : backMutations.has(p.imgt) ? 'bg-indigo-200 text-indigo-800 font-bold' : 'text-slate-600';
+                            return <span key={p.imgt} title={`${p.label} (${p.region})`} className={style}>{aa}</span>;
+                        })}
+                    </div>
+                    <p className="text-xs text-slate-400 mt-2">
+                        CDRs ({design.scheme}) from the query, frameworks from {design.acceptor.v.name}{design.acceptor.j ? ` and ${design.acceptor.j.name}` : ''}.
+                        Vernier (Foote &amp; Winter) and VH/VL interface positions use Kabat numbering.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,10 +1,12 @@
 import React from 'react';
 import { Sparkles, Zap, AlertTriangle, Activity, ShieldCheck, Loader2 } from 'lucide-react';
-import { HumannessAnalysis, RegionData } from '../../utils/bioinformatics';
+import { HumannessAnalysis } from '../../utils/bioinformatics';
+import { regionSequence, AnnotatedSequence } from '../../utils/annotation';
+import { formatGeneHit } from '../../utils/germlines';
 
 interface InsightsPanelProps {
     analysis: HumannessAnalysis;
-    regions: RegionData;
+    annotation: AnnotatedSequence;
     aiData: {
         analysis: string | null;
         suggestions: string[] | null;
@@ -17,7 +19,7 @@ interface InsightsPanelProps {
 
 export const InsightsPanel: React.FC<InsightsPanelProps> = ({
     analysis,
-    regions,
+    annotation,
     aiData,
     onRunAI,
     onRunOptimize,
@@ -25,12 +27,15 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
     aiOptLoading
 }) => {
     const staticSuggestions: { type: string; text: string }[] = [];
+    const cdr3Length = regionSequence(annotation, 'CDR3').length;
+    const { germlines } = analysis;
+    const family = germlines.family ? `${germlines.species} ${germlines.family} family derivative` : 'V domain with no close germline';
 
     // Static Logic (fallback/baseline)
-    if (analysis.identity < 85) {
+    if (analysis.frameworkIdentity < 85) {
         staticSuggestions.push({ type: 'critical', text: 'Low Framework Identity: Consider humanizing FR2 and FR3 regions.' });
     } else {
-        staticSuggestions.push({ type: 'success', text: 'High Framework Identity: Excellent homology to IGHV3-23.' });
+        staticSuggestions.push({ type: 'success', text: `High Framework Identity: ${analysis.frameworkIdentity.toFixed(1)}% to ${analysis.germline} (V region ${analysis.identity.toFixed(1)}%).` });
     }
 
     if (analysis.avgHydro > 0.5) {
@@ -68,10 +73,11 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
                         </div>
                     ) : (
                         <p>
-                            Analysis indicates this sequence is a <strong className="text-indigo-950">VH3 family derivative</strong>.
+                            Analysis indicates this sequence is a <strong className="text-indigo-950">{family}</strong>
+                            {germlines.v && <> (closest V {formatGeneHit(germlines.v)}, J {formatGeneHit(germlines.j)}{germlines.d && <>, D {formatGeneHit(germlines.d)}</>})</>}.
                             The Humanness Score of <strong className="text-indigo-950">{analysis.identity.toFixed(1)}%</strong> places it in the
                             {analysis.identity > 85 ? ' top tier of therapeutic candidates' : ' requires optimization range'}.
-                            The CDR3 length is typical, but charge profile ({analysis.charge > 0 ? 'Positive' : 'Negative'}) suggests scrutiny.
+                            The {annotation.scheme} CDR3 spans {cdr3Length} residues, and the charge profile ({analysis.charge > 0 ? 'Positive' : 'Negative'}) suggests scrutiny.
                             <br /><br />
                             <em className="text-xs opacity-70">Click 'Deep Scan' for a detailed Gemini-powered assessment.</em>
                         </p>
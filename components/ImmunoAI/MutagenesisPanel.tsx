@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Grid3x3, Send } from 'lucide-react';
+import { AnnotatedSequence } from '../../utils/annotation';
+import {
+    applyMutations, formatMutation, saturationMutagenesis, scanIndices, MutationScore, ScanSet, SCAN_SETS
+} from '../../utils/mutagenesis';
+import { LIABILITY_LABELS, Severity } from '../../utils/liabilities';
+import type { SeedVariant } from '../AffinityMaturation';
+
+interface MutagenesisPanelProps {
+    chains: { label: string; annotation: AnnotatedSequence }[];
+    onSend?: (variants: SeedVariant[]) => void;
+}
+
+type HeatmapMetric = 'meanIdentity' | 'identity' | 'charge' | 'pI' | 'hydropathy' | 'liabilities';
+
+// Rows grouped by side-chain class: acidic, basic, polar, nonpolar
+const ROW_ORDER = 'DEKRHNQSTYCGPAVILMFW';
+
+const SEVERITY_WEIGHT: Record<Severity, number> = { high: 3, medium: 2, low: 1 };
+
+// Positive values use the first colour; for humanness and liabilities positive is the favourable direction
+const METRICS: Record<HeatmapMetric, { label: string; value: (m: MutationScore) => number; colors: [string, string]; digits: number }> = {
+    meanIdentity: { label: 'Mean germline identity', value: m => m.meanIdentityDelta ?? 0, colors: ['22, 163, 74', '220, 38, 38'], digits: 2 },
+    identity: { label: 'Human V identity', value: m => m.identityDelta, colors: ['22, 163, 74', '220, 38, 38'], digits: 2 },
+    charge: { label: 'Net charge (pH 7.4)', value: m => m.chargeDelta, colors: ['37, 99, 235', '219, 39, 119'], digits: 2 },
+    pI: { label: 'pI', value: m => m.pIDelta, colors: ['37, 99, 235', '219, 39, 119'], digits: 2 },
+    hydropathy: { label: 'Hydropathy (KD)', value: m => m.hydropathyDelta, colors: ['217, 119, 6', '13, 148, 136'], digits: 1 },
+    liabilities: {
+        label: 'Liabilities removed − added',
+        value: m => m.removed.reduce((sum, l) => sum + SEVERITY_WEIGHT[l.severity], 0) - m.introduced.reduce((sum, l) => sum + SEVERITY_WEIGHT[l.severity], 0),
+        colors: ['22, 163, 74', '220, 38, 38'],
+        digits: 0,
+    },
+};
+
+const keyOf = (m: Pick<MutationScore, 'index' | 'mut'>) => `${m.index}${m.mut}`;
+
+const describe = (m: MutationScore) => [
+    formatMutation(m) + ` (${m.region})`,
+    `Mean germline identity ${m.meanIdentityDelta !== null ? (m.meanIdentityDelta >= 0 ? '+' : '') + m.meanIdentityDelta.toFixed(2) + '%' : 'n/a'}, human V identity ${m.identityDelta >= 0 ? '+' : ''}${m.identityDelta.toFixed(2)}%`,
+    `Charge ${m.chargeDelta >= 0 ? '+' : ''}${m.chargeDelta.toFixed(2)}, pI ${m.pIDelta >= 0 ? '+' : ''}${m.pIDelta.toFixed(2)}, hydropathy ${m.hydropathyDelta >= 0 ? '+' : ''}${m.hydropathyDelta.toFixed(1)}`,
+    ...m.introduced.map(l => `+ ${LIABILITY_LABELS[l.kind]} ${l.motif} (${l.severity})`),
+    ...m.removed.map(l => `− ${LIABILITY_LABELS[l.kind]} ${l.motif} (${l.severity})`),
+].join('\n');
+
+/**
+ * Saturation mutagenesis heatmap: positions × the 19 substitutions at each,
+ * coloured by the change in one local metric. Clicked cells are collected and
+ * can be sent to the Maturation tab as starting sequences.
+ */
+export const MutagenesisPanel: React.FC<MutagenesisPanelProps> = ({ chains, onSend }) => {
+    const [chainIndex, setChainIndex] = useState(0);
+    const [scanSet, setScanSet] = useState<ScanSet>('CDRs');
+    const [metric, setMetric] = useState<HeatmapMetric>('meanIdentity');
+    const [scores, setScores] = useState<MutationScore[] | null>(null);
+    const [scanning, setScanning] = useState(false);
+    const [selected, setSelected] = useState<MutationScore[]>([]);
+    const [combine, setCombine] = useState(false);
+    const runRef = useRef(0);
+
+    const chain = chains[Math.min(chainIndex, chains.length - 1)];
+
+    // Deferred so the spinner paints before a whole-domain scan
+    useEffect(() => {
+        const run = ++runRef.current;
+        setScanning(true);
+        setSelected([]);
+        const partners = chains.filter(c => c !== chain).map(c => c.annotation.sequence);
+        const timer = setTimeout(() => {
+            const result = saturationMutagenesis(chain.annotation, scanIndices(chain.annotation, scanSet), partners);
+            if (run !== runRef.current) return;
+            setScores(result);
+            setScanning(false);
+        }, 50);
+        return () => clearTimeout(timer);
+    }, [chains, chain, scanSet]);
+
+    const { positions, byCell, maxAbs } = useMemo(() => {
+        const byCell = new Map((scores ?? []).map(m => [keyOf(m), m]));
+        const positions = [...new Set((scores ?? []).map(m => m.index))];
+        const maxAbs = Math.max(1e-6, ...(scores ?? []).map(m => Math.abs(METRICS[metric].value(m))));
+        return { positions, byCell, maxAbs };
+    }, [scores, metric]);
+
+    const toggle = (m: MutationScore) => setSelected(current =>
+        current.some(s => keyOf(s) === keyOf(m)) ? current.filter(s => keyOf(s) !== keyOf(m)) : [...current, m]);
+
+    // Two substitutions at one position cannot share a variant
+    const canCombine = new Set(selected.map(m => m.index)).size === selected.length && selected.length > 1;
+
+    const send = () => {
+        if (!onSend || !selected.length) return;
+        const parent = chain.annotation.sequence;
+        const variants: SeedVariant[] = combine && canCombine
+            ? [{ name: selected.map(formatMutation).join('/'), sequence: applyMutations(parent, selected), source: `Saturation scan (${chain.label})` }]
+            : selected.map(m => ({ name: formatMutation(m), sequence: applyMutations(parent, [m]), source: `Saturation scan (${chain.label})` }));
+        onSend(variants);
+    };
+
+    const { value, colors, digits } = METRICS[metric];
+    const cellColor = (m: MutationScore) => {
+        const v = value(m);
+        const alpha = Math.min(1, Math.abs(v) / maxAbs);
+        return v === 0 ? undefined : `rgba(${v > 0 ? colors[0] : colors[1]}, ${(0.1 + 0.8 * alpha).toFixed(2)})`;
+    };
+
+    return (
+        <div className="w-full bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                    <Grid3x3 size={18} className="text-teal-600" /> Saturation Mutagenesis
+                </h3>
+                {chains.length > 1 && (
+                    <div className="flex bg-slate-100 rounded-lg p-1 text-xs">
+                        {chains.map((c, i) => (
+                            <button
+                                key={c.label}
+                                onClick={() => setChainIndex(i)}
+                                className={`px-3 py-1 rounded-md transition-all ${i === chainIndex ? 'bg-white text-slate-800 shadow-sm font-medium' : 'text-slate-500'}`}
+                            >
+                                {c.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mb-4 text-xs text-slate-600">
+                <label className="flex items-center gap-2">
+                    Positions
+                    <select value={scanSet} onChange={(e) => setScanSet(e.target.value as ScanSet)} className="border border-slate-200 rounded px-2 py-1 bg-white">
+                        {SCAN_SETS.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    Colour by Δ
+                    <select value={metric} onChange={(e) => setMetric(e.target.value as HeatmapMetric)} className="border border-slate-200 rounded px-2 py-1 bg-white">
+                        {(Object.keys(METRICS) as HeatmapMetric[]).map(k => <option key={k} value={k}>{METRICS[k].label}</option>)}
+                    </select>
+                </label>
+                <span className="flex items-center gap-1.5 text-slate-400">
+                    <span className="w-3 h-3 rounded-sm" style={{ background: `rgb(${colors[1]})` }} />
+                    −{maxAbs.toFixed(digits)}
+                    <span className="w-3 h-3 rounded-sm border border-slate-200" />
+                    0
+                    <span className="w-3 h-3 rounded-sm" style={{ background: `rgb(${colors[0]})` }} />
+                    +{maxAbs.toFixed(digits)}
+                </span>
+                {scanning && <span className="text-teal-600 animate-pulse">Scanning…</span>}
+            </div>
+
+            {scores && positions.length === 0 && !scanning && (
+                <p className="text-sm text-slate-400">No numbered positions in this set.</p>
+            )}
+
+            {positions.length > 0 && (
+                <div className={`overflow-x-auto pb-2 ${scanning ? 'opacity-50' : ''}`}>
+                    <table className="border-separate border-spacing-0 font-mono text-[10px]">
+                        <thead>
+                            <tr>
+                                <th />
+                                {positions.map(index => {
+                                    const r = chain.annotation.residues[index];
+                                    return (
+                                        <th key={index} title={`${r.region} ${r.position}`} className={`w-4 font-normal text-slate-400 align-bottom ${r.region.startsWith('CDR') ? 'bg-pink-50' : ''}`}>
+                                            <div className="[writing-mode:vertical-rl] rotate-180 h-8 leading-4">{r.position}</div>
+                                            <div className="font-bold text-slate-700">{r.aa}</div>
+                                        </th>
+                                    );
+                                })}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ROW_ORDER.split('').map(aa => (
+                                <tr key={aa}>
+                                    <th className="pr-1 text-slate-500 font-bold">{aa}</th>
+                                    {positions.map(index => {
+                                        const m = byCell.get(`${index}${aa}`);
+                                        if (!m) {
+                                            return <td key={index} className="w-4 h-4 bg-slate-700 border border-white" title="Wild type" />;
+                                        }
+                                        const isSelected = selected.some(s => keyOf(s) === keyOf(m));
+                                        return (
+                                            <td
+                                                key={index}
+                                                onClick={() => toggle(m)}
+                                                title={describe(m)}
+                                                className={`w-4 h-4 border cursor-pointer ${isSelected ? 'border-slate-900' : 'border-white hover:border-slate-400'}`}
+                                                style={{ background: cellColor(m) }}
+                                            />
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <div className="mt-4 pt-4 border-t border-slate-100 flex flex-wrap items-center gap-3">
+                <span className="text-xs text-slate-500">
+                    {selected.length ? `Selected: ${selected.map(formatMutation).join(', ')}` : 'Click cells to select variants.'}
+                </span>
+                {selected.length > 0 && (
+                    <button onClick={() => setSelected([])} className="text-xs text-slate-400 hover:underline">Clear</button>
+                )}
+                <div className="ml-auto flex items-center gap-3">
+                    <label className={`flex items-center gap-1.5 text-xs ${canCombine ? 'text-slate-600' : 'text-slate-300'}`}>
+                        <input type="checkbox" checked={combine && canCombine} disabled={!canCombine} onChange={(e) => setCombine(e.target.checked)} />
+                        Combine into one variant
+                    </label>
+                    <button
+                        onClick={send}
+                        disabled={!onSend || !selected.length}
+                        className="flex items-center gap-2 bg-teal-600 hover:bg-teal-700 text-white px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                    >
+                        <Send size={12} /> Send to Maturation
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
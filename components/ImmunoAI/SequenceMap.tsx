@@ -1,17 +1,26 @@
 import React, { useState } from 'react';
 import { Dna, Microscope } from 'lucide-react';
-import { RegionData } from '../../utils/bioinformatics';
+import { CHAIN_CLASS_NAMES } from '../../utils/chainType';
+import { AnnotatedRegion, AnnotatedSequence } from '../../utils/annotation';
+import { Liability, LIABILITY_LABELS, Severity } from '../../utils/liabilities';
 
 interface SequenceMapProps {
-    regions: RegionData;
-    sequence: string;
+    annotation: AnnotatedSequence;
+    liabilities: Liability[];
 }
 
-export const SequenceMap: React.FC<SequenceMapProps> = ({ regions, sequence }) => {
-    const [hoveredRegion, setHoveredRegion] = useState<{ name: string; seq: string } | null>(null);
+const MARKER_COLORS: Record<Severity, string> = {
+    high: 'bg-red-600',
+    medium: 'bg-amber-500',
+    low: 'bg-slate-400',
+};
+
+export const SequenceMap: React.FC<SequenceMapProps> = ({ annotation, liabilities }) => {
+    const { sequence, chain, regions, scheme } = annotation;
+    const [hoveredRegion, setHoveredRegion] = useState<AnnotatedRegion | null>(null);
 
     const getRegionColor = (name: string) => {
-        if (name.includes('cdr')) return 'bg-pink-500';
+        if (name.startsWith('CDR')) return 'bg-pink-500';
         return 'bg-blue-600';
     };
 
@@ -21,23 +30,43 @@ export const SequenceMap: React.FC<SequenceMapProps> = ({ regions, sequence }) =
                 <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
                     <Dna size={18} className="text-blue-600" /> Sequence Topology
                 </h3>
-                <span className="text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded border border-slate-200">Length: {sequence.length} AA</span>
+                <div className="flex gap-2">
+                    <span
+                        className="text-xs text-indigo-600 bg-indigo-50 px-2 py-1 rounded border border-indigo-100 font-medium"
+                        title={chain?.evidence.join('\n')}
+                    >
+                        {chain ? `${CHAIN_CLASS_NAMES[chain.type]} · ${(chain.confidence * 100).toFixed(0)}%` : 'Chain type unresolved'}
+                    </span>
+                    <span className="text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded border border-slate-200">Length: {sequence.length} AA</span>
+                </div>
+            </div>
+
+            {/* Liability markers, positioned by residue */}
+            <div className="relative w-full h-4 mb-1">
+                {liabilities.map((l, i) => (
+                    <div
+                        key={i}
+                        className={`absolute top-1 w-2 h-2 rounded-full -translate-x-1/2 ${MARKER_COLORS[l.severity]}`}
+                        style={{ left: `${((l.start + l.end) / 2 / sequence.length) * 100}%` }}
+                        title={`${LIABILITY_LABELS[l.kind]}: ${l.motif} · ${l.region}${l.position ? ` ${scheme} ${l.position}` : ''} · ${l.severity}`}
+                    />
+                ))}
             </div>
 
             <div className="flex w-full h-12 rounded-lg overflow-hidden relative mb-2 ring-1 ring-slate-900/5">
-                {Object.entries(regions).map(([key, seq], idx) => (
+                {regions.map((region, idx) => (
                     <div
-                        key={key}
-                        className={`h-full ${getRegionColor(key)} relative group cursor-pointer border-r border-white/20 transition-all duration-300`}
+                        key={region.type}
+                        className={`h-full ${getRegionColor(region.type)} relative group cursor-pointer border-r border-white/20 transition-all duration-300`}
                         style={{
-                            width: `${(seq.length / sequence.length) * 100}%`,
+                            width: `${(region.seq.length / sequence.length) * 100}%`,
                             transitionDelay: `${idx * 50}ms`
                         }}
-                        onMouseEnter={() => setHoveredRegion({ name: key, seq })}
+                        onMouseEnter={() => setHoveredRegion(region)}
                         onMouseLeave={() => setHoveredRegion(null)}
                     >
                         <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity bg-white/20">
-                            <span className="text-[10px] font-bold text-white uppercase">{key}</span>
+                            <span className="text-[10px] font-bold text-white uppercase">{region.type}</span>
                         </div>
                     </div>
                 ))}
@@ -46,11 +75,18 @@ export const SequenceMap: React.FC<SequenceMapProps> = ({ regions, sequence }) =
             <div className="h-24 bg-slate-50 rounded-lg p-3 overflow-x-auto border border-slate-200 font-mono text-sm shadow-inner">
                 {hoveredRegion ? (
                     <div className="animate-in fade-in duration-200">
-                        <span className="text-xs uppercase text-slate-500 block mb-1">{hoveredRegion.name} Region ({hoveredRegion.seq.length} AA)</span>
+                        <span className="text-xs uppercase text-slate-500 block mb-1">{hoveredRegion.type} Region ({hoveredRegion.seq.length} AA)</span>
                         <p className="text-blue-700 tracking-widest break-all font-medium">{hoveredRegion.seq}</p>
                         <div className="mt-2 text-xs flex gap-4 text-slate-500">
-                            <span>Start: {sequence.indexOf(hoveredRegion.seq) + 1}</span>
-                            <span>End: {sequence.indexOf(hoveredRegion.seq) + hoveredRegion.seq.length}</span>
+                            <span>Start: {hoveredRegion.start + 1}</span>
+                            <span>End: {hoveredRegion.end}</span>
+                            {hoveredRegion.startPos && <span>{scheme}: {hoveredRegion.startPos}–{hoveredRegion.endPos}</span>}
+                            <span>
+                                Liabilities: {liabilities
+                                    .filter(l => l.region === hoveredRegion.type)
+                                    .map(l => `${l.motif}${l.position ? ` (${l.position})` : ''}`)
+                                    .join(', ') || 'none'}
+                            </span>
                         </div>
                     </div>
                 ) : (
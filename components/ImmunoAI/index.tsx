@@ -1,77 +1,166 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
-    Dna, Zap, Search, Share2, ShieldCheck, Atom
+    Dna, Zap, Search, Share2, Atom, AlertTriangle, AlertCircle, Download, Printer
 } from 'lucide-react';
 
 import { AlignmentModal } from './AlignmentModal';
 import { ScoreGauge } from './ScoreGauge';
 import { SequenceMap } from './SequenceMap';
 import { InsightsPanel } from './InsightsPanel';
-import { RadarChartPanel, HydrophobicityChart } from './Charts';
-import { parseRegions, calculateHumanness, RegionData, HumannessAnalysis } from '../../utils/bioinformatics';
-import { callGemini } from '../../utils/geminiApi';
+import { FvPanel } from './FvPanel';
+import { DevelopabilityPanel } from './DevelopabilityPanel';
+import { HumanizationPanel } from './HumanizationPanel';
+import { MutagenesisPanel } from './MutagenesisPanel';
+import { BatchPanel } from '../Batch';
+import type { SeedVariant } from '../AffinityMaturation';
+import { RadarChartPanel, HydrophobicityChart, ChargeCurveChart } from './Charts';
+import {
+    calculateHumanness, netCharge, isoelectricPoint, chargeCurve, PKA_SET_NAMES, HumannessAnalysis, PkaSet
+} from '../../utils/bioinformatics';
+import { CHAIN_CLASS_NAMES } from '../../utils/chainType';
+import { annotateSequence, regionSequence, AnnotatedSequence } from '../../utils/annotation';
+import { analyzeFv, analyzeScfv, fvChains, FvAnalysis } from '../../utils/fv';
+import { formatGeneHit, GERMLINE_DB, GermlineGene } from '../../utils/germlines';
+import { scanLiabilities, Liability } from '../../utils/liabilities';
+import { profileDevelopability, DevelopabilityProfile } from '../../utils/developability';
+import { generateGemini, GeminiResponse } from '../../utils/geminiApi';
+import { validateSequence } from '../../utils/validation';
+import { formatFrame, Translation } from '../../utils/translation';
+import { airrRearrangement, toAirrTsv } from '../../utils/airr';
+import { downloadFile, printHtml } from '../../utils/download';
+import { buildReportHtml, AiRecord } from '../../utils/report';
+import { HydrophobicityScale } from '../../utils/aminoAcidProperties';
+import { BatchRecord, BatchRow } from '../../utils/batch';
+import { MsaEntry } from '../../utils/msa';
+import { searchTherapeutics, therapeuticName, TherapeuticHit } from '../../utils/therapeutics';
+import { HUMANNESS_TOP } from '../../utils/germlineHumanness';
 
 interface AnalysisResult {
     metrics: HumannessAnalysis;
-    regions: RegionData;
+    annotation: AnnotatedSequence;
+    fv: FvAnalysis | null;
+    lightMetrics: HumannessAnalysis | null;
     radarData: Array<{ subject: string; A: number; B: number; fullMark: number }>;
     cleanSeq: string;
+    chargeChains: string[]; // polypeptides counted in pI and charge (both chains of an Fv)
+    liabilities: Liability[];
+    developability: DevelopabilityProfile;
+    translations: Translation[]; // nucleotide inputs the chains were translated from
+    therapeuticHits: TherapeuticHit[]; // closest entries of the bundled therapeutic database
+}
+
+interface ImmunoAIProps {
+    onSendToMaturation?: (variants: SeedVariant[]) => void;
 }
 
-export const ImmunoAI: React.FC = () => {
+export const ImmunoAI: React.FC<ImmunoAIProps> = ({ onSendToMaturation }) => {
     const [sequence, setSequence] = useState('EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYAMSWVRQAPGKGLEWVSAISGSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCARDYYGSSWYFDVWGQGTLVTVSS');
+    const [pairedMode, setPairedMode] = useState(false);
+    const [lightSequence, setLightSequence] = useState('DIQMTQSPSSLSASVGDRVTITCRASQGIRNYLAWYQQKPGKAPKLLIYAASTLQSGVPSRFSGSGSGTDFTLTISSLQPEDVATYYCQRYNRAPYTFGQGTKVEIK');
     const [loading, setLoading] = useState(false);
     const [result, setResult] = useState<AnalysisResult | null>(null);
     const [showAlignment, setShowAlignment] = useState(false);
+    const [pkaSet, setPkaSet] = useState<PkaSet>('EMBOSS');
+    const [formulationPh, setFormulationPh] = useState(6.0);
+    const [batchMode, setBatchMode] = useState(false);
+    const [pendingAnalysis, setPendingAnalysis] = useState(false);
+    const [batchRows, setBatchRows] = useState<BatchRow[]>([]);
+    const [selectedHit, setSelectedHit] = useState(0);
 
     // AI States
     const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
     const [aiSuggestions, setAiSuggestions] = useState<string[] | null>(null);
     const [aiLoading, setAiLoading] = useState(false);
     const [aiOptLoading, setAiOptLoading] = useState(false);
+    const [aiRecords, setAiRecords] = useState<AiRecord[]>([]); // prompts and model versions behind the AI output, for the report
+    const [hydroSettings, setHydroSettings] = useState<{ scale: HydrophobicityScale; window: number }>({ scale: 'Kyte-Doolittle', window: 9 });
+
+    const heavyCheck = useMemo(() => validateSequence(sequence), [sequence]);
+    const lightCheck = useMemo(() => validateSequence(lightSequence), [lightSequence]);
+    const inputValid = heavyCheck.valid && (!pairedMode || lightCheck.valid);
+    const translations = [
+        { chain: pairedMode ? 'VH' : '', translation: heavyCheck.translation },
+        ...(pairedMode ? [{ chain: 'VL', translation: lightCheck.translation }] : []),
+    ];
+    const inputIssues = [
+        ...heavyCheck.issues.map(issue => ({ ...issue, chain: pairedMode ? 'VH' : '' })),
+        ...(pairedMode ? lightCheck.issues.map(issue => ({ ...issue, chain: 'VL' })) : []),
+    ];
 
     const handleAnalyze = () => {
+        if (!inputValid) return;
         setLoading(true);
         // Reset AI states on new analysis
         setAiAnalysis(null);
         setAiSuggestions(null);
+        setAiRecords([]);
 
         setTimeout(() => {
-            const cleanSeq = sequence.replace(/[\s\n\r]/g, '').toUpperCase();
-            const metrics = calculateHumanness(cleanSeq);
-            const regions = parseRegions(cleanSeq);
-
+            // Paired chains or an scFv: the dashboard shows the heavy chain, the Fv card the pair
+            const fv = pairedMode ? analyzeFv(heavyCheck.sequence, lightCheck.sequence) : analyzeScfv(heavyCheck.sequence);
+            const annotation = fv ? fv.heavy : annotateSequence(heavyCheck.sequence);
+            const cleanSeq = annotation.sequence;
+            const metrics = calculateHumanness(cleanSeq, annotation.chain?.type);
+            const lightMetrics = fv ? calculateHumanness(fv.light.sequence, fv.light.chain?.type) : null;
+
+            const developability = profileDevelopability(annotation, fv?.light ?? null);
             const radarData = [
                 { subject: 'Identity', A: metrics.identity, B: 75, fullMark: 100 },
-                { subject: 'T20 Score', A: Math.max(0, (parseFloat(metrics.t20) + 4) * 20), B: 60, fullMark: 100 },
-                { subject: 'Stability', A: 85, B: 70, fullMark: 100 },
-                { subject: 'Solubility', A: (1 - Math.abs(metrics.avgHydro)) * 100, B: 60, fullMark: 100 },
-                { subject: 'Developability', A: 90, B: 65, fullMark: 100 },
+                { subject: 'Germline Mean', A: metrics.meanIdentity?.score ?? 0, B: metrics.meanIdentity?.referenceMedian ?? 0, fullMark: 100 },
+                ...developability.metrics.map(m => ({ subject: m.label.replace(/^(CDR|VH\/VL) /, ''), A: m.score, B: m.baseline, fullMark: 100 })),
             ];
 
-            setResult({ metrics, regions, radarData, cleanSeq });
+            const chargeChains = fv ? fvChains(fv) : [cleanSeq];
+            // A lone light chain is searched against the database VLs
+            const isLight = !fv && (annotation.imgt?.chain === 'K' || annotation.imgt?.chain === 'L');
+            const therapeuticHits = searchTherapeutics(
+                fv ? fv.heavy.sequence : isLight ? null : cleanSeq,
+                fv ? fv.light.sequence : isLight ? cleanSeq : null,
+            );
+            setResult({
+                metrics, annotation, fv, lightMetrics, radarData, cleanSeq, chargeChains,
+                liabilities: scanLiabilities(annotation),
+                developability,
+                translations: [heavyCheck.translation, pairedMode ? lightCheck.translation : null].filter((t): t is Translation => t !== null),
+                therapeuticHits,
+            });
+            setSelectedHit(0);
             setLoading(false);
         }, 1200);
     };
 
+    // Keeps the latest run of each AI action
+    const recordAi = (label: string, prompt: string, response: GeminiResponse) => {
+        const record: AiRecord = {
+            label, prompt, response: response.text, model: response.model, modelVersion: response.modelVersion,
+            timestamp: new Date().toISOString(),
+        };
+        setAiRecords(records => [...records.filter(r => r.label !== label), record]);
+    };
+
     const handleDeepScan = async () => {
         if (!result) return;
         setAiLoading(true);
+        const closest = result.therapeuticHits[0];
 
         const prompt = `
-      Act as a senior computational immunologist. Analyze this antibody VH sequence:
+      Act as a senior computational immunologist. Analyze this ${result.annotation.chain ? CHAIN_CLASS_NAMES[result.annotation.chain.type] : 'antibody V-domain'} sequence:
       Sequence: ${result.cleanSeq}
       Metrics:
-      - Humanness (T20): ${result.metrics.t20}
-      - Identity: ${result.metrics.identity.toFixed(1)}%
-      - CDR3: ${result.regions.cdr3}
-      - Estimated Charge: ${result.metrics.charge.toFixed(2)}
+      - Closest Germline: ${result.metrics.germline}
+      - V/J Assignment: ${result.metrics.germlines.species} ${formatGeneHit(result.metrics.germlines.v)}, ${formatGeneHit(result.metrics.germlines.j)}
+      - Mean identity to the ${HUMANNESS_TOP} closest human germline V genes: ${result.metrics.meanIdentity ? `${result.metrics.meanIdentity.score.toFixed(1)}% (${result.metrics.meanIdentity.percentile.toFixed(0)}th percentile of the germline genes themselves; not the published T20)` : 'n/a'}
+      - Identity: ${result.metrics.identity.toFixed(1)}% (V region), ${result.metrics.frameworkIdentity.toFixed(1)}% (framework)
+      - CDR3 (IMGT): ${regionSequence(result.annotation, 'CDR3')}
+      - Net Charge (pH 7.4): ${result.metrics.charge.toFixed(2)}
+      - Closest Therapeutic: ${closest ? `${therapeuticName(closest.antibody)}, anti-${closest.antibody.target} (CDR ${closest.cdrIdentity.toFixed(0)}%, framework ${closest.frameworkIdentity.toFixed(0)}% identity)` : 'none found'}
       
       Provide a sophisticated, concise (max 3 sentences) assessment of its therapeutic potential, focusing on developability risks (aggregation, viscosity) and immunogenicity. Do not use markdown headers.
     `;
 
-        const text = await callGemini(prompt);
-        setAiAnalysis(text || "AI service is currently unavailable. Please try again later.");
+        const response = await generateGemini(prompt);
+        if (response) recordAi('Deep Scan', prompt, response);
+        setAiAnalysis(response?.text || "AI service is currently unavailable. Please try again later.");
         setAiLoading(false);
     };
 
@@ -85,8 +174,10 @@ export const ImmunoAI: React.FC = () => {
       Format: Return ONLY a raw bulleted list of mutations (e.g. "- A40T: Reason"). Do not include introductory text.
     `;
 
-        const text = await callGemini(prompt);
-        if (text) {
+        const response = await generateGemini(prompt);
+        const text = response?.text;
+        if (response && text) {
+            recordAi('AI Engineer', prompt, response);
             // Simple parsing to get list items
             const items = text.split('\n').filter(line => line.trim().startsWith('-')).map(line => line.replace('-', '').trim());
             setAiSuggestions(items);
@@ -98,12 +189,105 @@ export const ImmunoAI: React.FC = () => {
         handleAnalyze();
     }, []);
 
+    // A clone opened from the batch table is analyzed once its sequences are in state
+    useEffect(() => {
+        if (!pendingAnalysis) return;
+        setPendingAnalysis(false);
+        handleAnalyze();
+    }, [pendingAnalysis]);
+
+    const openBatchRecord = (record: BatchRecord) => {
+        setPairedMode(record.light !== '');
+        setSequence(record.heavy);
+        if (record.light) setLightSequence(record.light);
+        setBatchMode(false);
+        setPendingAnalysis(true);
+    };
+
+    // AIRR rearrangements: one row per V domain, pairs linked by cell_id
+    const handleExportAirr = () => {
+        if (!result) return;
+        const translationOf = (seq: string) => result.translations.find(t => t.protein.includes(seq));
+        const rows = result.fv && result.lightMetrics
+            ? [
+                airrRearrangement('query_VH', result.fv.heavy, { germlines: result.metrics.germlines, translation: translationOf(result.fv.heavy.sequence), cellId: 'query' }),
+                airrRearrangement('query_VL', result.fv.light, { germlines: result.lightMetrics.germlines, translation: translationOf(result.fv.light.sequence), cellId: 'query' }),
+            ]
+            : [airrRearrangement('query', result.annotation, { germlines: result.metrics.germlines, translation: translationOf(result.cleanSeq) })];
+        downloadFile('rearrangements.tsv', toAirrTsv(rows), 'text/tab-separated-values');
+    };
+
+    // Alignment view: the analyzed domain with its germlines, the reference antibody and any batch results
+    const alignmentEntries = useMemo<MsaEntry[]>(() => {
+        if (!result) return [];
+        const hit = result.therapeuticHits[selectedHit];
+        const g = result.metrics.germlines;
+        const humanV = GERMLINE_DB.find(gene => gene.name === result.metrics.germline && gene.species === 'human' && gene.locus === g.locus && gene.segment === 'V');
+        const vGenes = [humanV, g.v?.gene].filter((gene, i, all): gene is GermlineGene => !!gene && all.indexOf(gene) === i);
+        // V genes stop at the start of CDR3; joining the J gene gives a domain that numbers end to end
+        const germlines = vGenes.map(v => {
+            const j = g.j && g.j.gene.species === v.species
+                ? g.j.gene
+                : GERMLINE_DB.find(gene => gene.segment === 'J' && gene.locus === v.locus && gene.species === v.species);
+            return { name: `${v.name}${j ? ` / ${j.name}` : ''} (${v.species})`, sequence: v.seq + (j?.seq ?? ''), group: 'Germline' };
+        });
+        return [
+            { name: 'Query', sequence: result.cleanSeq, group: 'Query' },
+            ...germlines,
+            ...(hit ? [{ name: therapeuticName(hit.antibody), sequence: hit.chains.includes('VH') ? hit.antibody.vh : hit.antibody.vl, group: 'Therapeutic' }] : []),
+            ...batchRows.filter(row => row.ok).map(row => ({ name: row.record.name, sequence: row.record.heavy, group: 'Batch' })),
+        ];
+    }, [result, batchRows, selectedHit]);
+
+    // V domains offered to the grafting and mutagenesis panels; memoized so their per-chain state survives re-renders
+    const domainChains = useMemo(() => {
+        if (!result) return [];
+        return result.fv
+            ? [{ label: 'VH', annotation: result.fv.heavy }, { label: 'VL', annotation: result.fv.light }]
+            : [{ label: result.annotation.chain?.type ?? 'V domain', annotation: result.annotation }];
+    }, [result]);
+
+    const selectedTherapeutic = result?.therapeuticHits[selectedHit];
+    const pI = result ? isoelectricPoint(result.chargeChains, pkaSet) : 0;
+    const formulationCharge = result ? netCharge(result.chargeChains, formulationPh, pkaSet) : 0;
+
+    const reportHtml = () => {
+        if (!result) return '';
+        const chains = result.fv && result.lightMetrics
+            ? [
+                { label: 'VH', annotation: result.fv.heavy, metrics: result.metrics },
+                { label: 'VL', annotation: result.fv.light, metrics: result.lightMetrics },
+            ]
+            : [{ label: result.annotation.chain?.type ?? 'V domain', annotation: result.annotation, metrics: result.metrics }];
+        return buildReportHtml({
+            title: 'ig-gemini Antibody Analysis Report',
+            generatedAt: new Date(),
+            chains,
+            pI,
+            pkaSet,
+            formulationPh,
+            formulationCharge,
+            radar: result.radarData,
+            hydrophobicity: hydroSettings,
+            developability: result.developability,
+            ai: aiRecords,
+        });
+    };
+
+    const handleExportReport = () => {
+        if (result) downloadFile('antibody-report.html', reportHtml(), 'text/html');
+    };
+
+    const handlePrintReport = () => {
+        if (result) printHtml(reportHtml());
+    };
+
     return (
         <div className="min-h-screen bg-slate-50 text-slate-800 font-sans selection:bg-indigo-100">
             <AlignmentModal
                 isOpen={showAlignment}
                 onClose={() => setShowAlignment(false)}
-                querySeq={result?.cleanSeq || ''}
+                entries={alignmentEntries}
             />
 
             {/* Header */}
@@ -119,7 +303,28 @@ export const ImmunoAI: React.FC = () => {
                         </div>
                     </div>
                     <div className="flex gap-4">
-                        <button className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm transition-all border border-slate-200 shadow-sm">
+                        <button
+                            onClick={handleExportAirr}
+                            disabled={!result}
+                            title="AIRR Rearrangement TSV"
+                            className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm transition-all border border-slate-200 shadow-sm disabled:opacity-50"
+                        >
+                            <Download size={14} /> AIRR TSV
+                        </button>
+                        <button
+                            onClick={handlePrintReport}
+                            disabled={!result}
+                            title="Print the report or save it as PDF"
+                            className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm transition-all border border-slate-200 shadow-sm disabled:opacity-50"
+                        >
+                            <Printer size={14} /> Print / PDF
+                        </button>
+                        <button
+                            onClick={handleExportReport}
+                            disabled={!result}
+                            title="Self-contained HTML report"
+                            className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm transition-all border border-slate-200 shadow-sm disabled:opacity-50"
+                        >
                             <Share2 size={14} /> Export Report
                         </button>
                     </div>
@@ -134,9 +339,21 @@ export const ImmunoAI: React.FC = () => {
                         <div className="bg-white p-6 rounded-xl">
                             <div className="flex justify-between items-center mb-3">
                                 <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                                    <Search size={16} /> Input Sequence (VH or VL)
+                                    <Search size={16} /> {batchMode ? 'Batch Screen' : pairedMode ? 'Input Chains (VH + VL)' : 'Input Sequence (VH, VL or scFv)'}
                                 </label>
                                 <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setBatchMode(!batchMode)}
+                                        className={`text-xs px-3 py-1 rounded transition-colors font-medium ${batchMode ? 'bg-indigo-600 text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+                                    >
+                                        Batch
+                                    </button>
+                                    <button
+                                        onClick={() => setPairedMode(!pairedMode)}
+                                        className={`text-xs px-3 py-1 rounded transition-colors font-medium ${pairedMode ? 'bg-indigo-600 text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+                                    >
+                                        Paired VH/VL
+                                    </button>
                                     <button
                                         onClick={() => setSequence('EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYAMSWVRQAPGKGLEWVSAISGSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCARDYYGSSWYFDVWGQGTLVTVSS')}
                                         className="text-xs bg-slate-100 hover:bg-slate-200 px-3 py-1 rounded text-slate-600 transition-colors font-medium"
@@ -151,16 +368,46 @@ export const ImmunoAI: React.FC = () => {
                                     </button>
                                 </div>
                             </div>
-                            <textarea
-                                value={sequence}
-                                onChange={(e) => setSequence(e.target.value)}
-                                className="w-full h-32 bg-slate-50 border border-slate-200 rounded-lg p-4 font-mono text-sm text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all resize-none shadow-inner"
-                                placeholder="Paste amino acid sequence here..."
-                            />
+                            <div className={batchMode ? 'hidden' : ''}>
+                            <div className={pairedMode ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : ''}>
+                                <textarea
+                                    value={sequence}
+                                    onChange={(e) => setSequence(e.target.value)}
+                                    className="w-full h-32 bg-slate-50 border border-slate-200 rounded-lg p-4 font-mono text-sm text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all resize-none shadow-inner"
+                                    placeholder={pairedMode ? 'Heavy chain (VH)...' : 'Paste amino acid or nucleotide sequence here...'}
+                                />
+                                {pairedMode && (
+                                    <textarea
+                                        value={lightSequence}
+                                        onChange={(e) => setLightSequence(e.target.value)}
+                                        className="w-full h-32 bg-slate-50 border border-slate-200 rounded-lg p-4 font-mono text-sm text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all resize-none shadow-inner"
+                                        placeholder="Light chain (VL)..."
+                                    />
+                                )}
+                            </div>
+                            {(inputIssues.length > 0 || translations.some(t => t.translation)) && (
+                                <ul className="mt-3 space-y-1 text-xs">
+                                    {translations.map(({ chain, translation }) => translation && (
+                                        <li key={chain} className="flex items-start gap-1.5 text-indigo-600">
+                                            <Dna size={12} className="mt-0.5 shrink-0" />
+                                            <span>
+                                                {chain && <span className="font-bold">{chain}: </span>}
+                                                Nucleotides translated in frame {formatFrame(translation.frame)}, nt {translation.ntStart}–{translation.ntEnd} ({translation.protein.length} residues)
+                                            </span>
+                                        </li>
+                                    ))}
+                                    {inputIssues.map((issue, i) => (
+                                        <li key={i} className={`flex items-start gap-1.5 ${issue.level === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                                            {issue.level === 'error' ? <AlertCircle size={12} className="mt-0.5 shrink-0" /> : <AlertTriangle size={12} className="mt-0.5 shrink-0" />}
+                                            <span>{issue.chain && <span className="font-bold">{issue.chain}: </span>}{issue.message}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
                             <div className="mt-4 flex justify-end">
                                 <button
                                     onClick={handleAnalyze}
-                                    disabled={loading}
+                                    disabled={loading || !inputValid}
                                     className="flex items-center gap-2 bg-gradient-to-r from-indigo-600 to-violet-600 hover:from-indigo-500 hover:to-violet-500 text-white px-8 py-3 rounded-lg font-semibold shadow-lg shadow-indigo-500/25 transition-all transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
                                     {loading ? (
@@ -175,12 +422,18 @@ export const ImmunoAI: React.FC = () => {
                                     )}
                                 </button>
                             </div>
+                            </div>
                         </div>
                     </div>
                 </section>
 
+                {/* Batch results stay mounted while a clone is open in the dashboard */}
+                <section className={batchMode ? 'mb-8' : 'hidden'}>
+                    <BatchPanel onOpen={openBatchRecord} onRowsChange={setBatchRows} />
+                </section>
+
                 {/* Results Dashboard */}
-                {result && !loading && (
+                {result && !loading && !batchMode && (
                     <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
 
                         {/* Left Column: Visuals & Metrics */}
@@ -192,44 +445,87 @@ export const ImmunoAI: React.FC = () => {
                                     <div className="absolute inset-0 bg-gradient-to-t from-indigo-50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
                                     <h3 className="text-slate-500 text-sm font-medium mb-2">Overall Score</h3>
                                     <ScoreGauge score={result.metrics.identity} />
+                                    <p className="text-xs text-slate-400 mt-2">
+                                        V region {result.metrics.identity.toFixed(1)}% · Framework {result.metrics.frameworkIdentity.toFixed(1)}%
+                                    </p>
                                 </div>
 
                                 <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm flex flex-col justify-between group relative overflow-hidden">
                                     <div className="absolute top-0 right-0 w-24 h-24 bg-emerald-50 rounded-bl-full -mr-4 -mt-4 transition-transform group-hover:scale-110" />
                                     <div>
-                                        <h3 className="text-slate-500 text-sm font-medium">T20 Humanness Score</h3>
-                                        <p className="text-3xl font-bold text-slate-800 mt-1">{result.metrics.t20}</p>
+                                        <h3 className="text-slate-500 text-sm font-medium">Mean Germline Identity</h3>
+                                        <p className="text-3xl font-bold text-slate-800 mt-1">{result.metrics.meanIdentity ? `${result.metrics.meanIdentity.score.toFixed(1)}%` : 'N/A'}</p>
                                     </div>
-                                    <div className="mt-4">
-                                        <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
-                                            <div className="h-full bg-emerald-500 w-[85%]" />
+                                    {result.metrics.meanIdentity ? (
+                                        <div className="mt-4">
+                                            <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                                <div className="h-full bg-emerald-500" style={{ width: `${result.metrics.meanIdentity.percentile}%` }} />
+                                            </div>
+                                            <p className="text-xs text-slate-500 mt-2">
+                                                Top {result.metrics.meanIdentity.references} human germline V genes · {result.metrics.meanIdentity.percentile.toFixed(0)}th percentile of the germlines themselves
+                                            </p>
                                         </div>
-                                        <p className="text-xs text-emerald-600 mt-2 flex items-center gap-1">
-                                            <ShieldCheck size={12} /> High Tolerance Predicted
-                                        </p>
-                                    </div>
+                                    ) : (
+                                        <p className="text-xs text-slate-400 mt-4">Defined for antibody chains only</p>
+                                    )}
                                 </div>
 
                                 <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm flex flex-col justify-between group relative overflow-hidden">
                                     <div className="absolute top-0 right-0 w-24 h-24 bg-blue-50 rounded-bl-full -mr-4 -mt-4 transition-transform group-hover:scale-110" />
                                     <div>
-                                        <h3 className="text-slate-500 text-sm font-medium">Isoelectric Point (est)</h3>
-                                        <p className="text-3xl font-bold text-slate-800 mt-1">{result.metrics.charge > 0 ? '8.4' : '6.2'}</p>
+                                        <div className="flex justify-between items-center">
+                                            <h3 className="text-slate-500 text-sm font-medium">Isoelectric Point{result.fv ? ' (Fv)' : ''}</h3>
+                                            <select
+                                                value={pkaSet}
+                                                onChange={(e) => setPkaSet(e.target.value as PkaSet)}
+                                                className="relative text-xs bg-white border border-slate-200 rounded px-1 py-0.5 text-slate-600"
+                                            >
+                                                {PKA_SET_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+                                            </select>
+                                        </div>
+                                        <p className="text-3xl font-bold text-slate-800 mt-1">{pI.toFixed(2)}</p>
                                     </div>
                                     <div className="mt-4">
-                                        <p className="text-sm text-slate-600">Net Charge: <span className={result.metrics.charge > 0 ? 'text-blue-600 font-semibold' : 'text-pink-600 font-semibold'}>{result.metrics.charge.toFixed(1)}</span></p>
-                                        <p className="text-xs text-slate-400 mt-1">Based on sequence composition</p>
+                                        <p className="text-sm text-slate-600 flex items-center gap-1">
+                                            Net Charge at pH
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                max={14}
+                                                step={0.1}
+                                                value={formulationPh}
+                                                onChange={(e) => setFormulationPh(Math.min(14, Math.max(0, parseFloat(e.target.value) || 0)))}
+                                                className="relative w-14 text-xs border border-slate-200 rounded px-1 py-0.5"
+                                            />
+                                            : <span className={formulationCharge > 0 ? 'text-blue-600 font-semibold' : 'text-pink-600 font-semibold'}>{formulationCharge.toFixed(1)}</span>
+                                        </p>
+                                        <p className="text-xs text-slate-400 mt-1">Henderson–Hasselbalch, {pkaSet} pKa values</p>
                                     </div>
                                 </div>
                             </div>
 
+                            {/* Fv Pair */}
+                            {result.fv && result.lightMetrics && (
+                                <FvPanel fv={result.fv} heavyMetrics={result.metrics} lightMetrics={result.lightMetrics} />
+                            )}
+
+                            {/* Developability */}
+                            <DevelopabilityPanel profile={result.developability} />
+
+                            {/* Humanization */}
+                            <HumanizationPanel chains={domainChains} />
+
+                            {/* Saturation Mutagenesis */}
+                            <MutagenesisPanel chains={domainChains} onSend={onSendToMaturation} />
+
                             {/* Sequence Map */}
-                            <SequenceMap regions={result.regions} sequence={result.cleanSeq} />
+                            <SequenceMap annotation={result.annotation} liabilities={result.liabilities} />
 
                             {/* Charts Area */}
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <RadarChartPanel data={result.radarData} />
-                                <HydrophobicityChart sequence={result.cleanSeq} />
+                                <HydrophobicityChart annotation={result.annotation} onSettingsChange={setHydroSettings} />
+                                <ChargeCurveChart data={chargeCurve(result.chargeChains, pkaSet)} pI={pI} pH={formulationPh} />
                             </div>
 
                         </div>
@@ -238,7 +534,7 @@ export const ImmunoAI: React.FC = () => {
                         <div className="lg:col-span-4 space-y-6">
                             <InsightsPanel
                                 analysis={result.metrics}
-                                regions={result.regions}
+                                annotation={result.annotation}
                                 aiData={{ analysis: aiAnalysis, suggestions: aiSuggestions }}
                                 onRunAI={handleDeepScan}
                                 onRunOptimize={handleAiOptimize}
@@ -246,18 +542,45 @@ export const ImmunoAI: React.FC = () => {
                                 aiOptLoading={aiOptLoading}
                             />
 
-                            {/* Additional Info Card */}
+                            {/* Closest therapeutics from the bundled database */}
                             <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
                                 <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-3">Database Match</h4>
-                                <div className="flex items-center gap-3 mb-4">
-                                    <div className="w-10 h-10 rounded-full bg-slate-100 flex items-center justify-center text-lg font-bold text-slate-600">
-                                        98
+                                {result.therapeuticHits.length === 0 && (
+                                    <p className="text-sm text-slate-400 mb-4">No therapeutic antibody chain to compare against.</p>
+                                )}
+                                {selectedTherapeutic && (
+                                    <div className="flex items-center gap-3 mb-3">
+                                        <div
+                                            className="w-10 h-10 shrink-0 rounded-full bg-slate-100 flex items-center justify-center text-lg font-bold text-slate-600"
+                                            title="Mean of CDR and framework identity"
+                                        >
+                                            {selectedTherapeutic.score.toFixed(0)}
+                                        </div>
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-semibold text-slate-800 truncate">{therapeuticName(selectedTherapeutic.antibody)}</p>
+                                            <p className="text-xs text-slate-500">
+                                                {selectedTherapeutic.antibody.target} · {selectedTherapeutic.antibody.status} · {selectedTherapeutic.antibody.origin}
+                                            </p>
+                                            <p className="text-[11px] text-slate-400">
+                                                {selectedTherapeutic.chains.join('+')}: CDR {selectedTherapeutic.cdrIdentity.toFixed(0)}% · FR {selectedTherapeutic.frameworkIdentity.toFixed(0)}% identity
+                                            </p>
+                                        </div>
                                     </div>
-                                    <div>
-                                        <p className="text-sm font-semibold text-slate-800">Adalimumab (Humira)</p>
-                                        <p className="text-xs text-slate-500">Closest Therapeutic Match</p>
+                                )}
+                                {result.therapeuticHits.length > 1 && (
+                                    <div className="space-y-1 mb-4">
+                                        {result.therapeuticHits.map((hit, i) => (
+                                            <button
+                                                key={hit.antibody.inn}
+                                                onClick={() => setSelectedHit(i)}
+                                                className={`w-full flex justify-between items-center px-2 py-1 rounded text-xs transition-colors ${i === selectedHit ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-500 hover:bg-slate-50'}`}
+                                            >
+                                                <span className="truncate">{i + 1}. {hit.antibody.inn} <span className="font-normal text-slate-400">· {hit.antibody.target}</span></span>
+                                                <span className="font-mono">{hit.score.toFixed(0)}</span>
+                                            </button>
+                                        ))}
                                     </div>
-                                </div>
+                                )}
                                 <div className="w-full bg-slate-100 h-px mb-4" />
                                 <button
                                     onClick={() => setShowAlignment(true)}
@@ -271,7 +594,7 @@ export const ImmunoAI: React.FC = () => {
                     </div>
                 )}
 
-                {!result && !loading && (
+                {!result && !loading && !batchMode && (
                     <div className="text-center mt-20 text-slate-400">
                         <Dna size={48} className="mx-auto mb-4 opacity-20" />
                         <p>Enter a protein sequence above to begin analysis</p>
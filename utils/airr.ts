@@ -0,0 +1,107 @@
+import { annotateSequence, AnnotatedSequence } from './annotation';
+import { assignGermlines, GermlineAssignment, GeneHit } from './germlines';
+import { ImgtRegion } from './numbering';
+import { Translation } from './translation';
+
+/**
+ * AIRR Community Rearrangement schema (v1.4) columns written by the export,
+ * required fields first. Alignment and CIGAR fields are left empty: the
+ * assignment here is an amino-acid comparison, not a nucleotide alignment.
+ */
+export const AIRR_FIELDS = [
+    'sequence_id', 'sequence', 'rev_comp', 'productive', 'v_call', 'd_call', 'j_call',
+    'sequence_alignment', 'germline_alignment', 'junction', 'junction_aa', 'v_cigar', 'd_cigar', 'j_cigar',
+    'sequence_aa', 'locus', 'stop_codon', 'vj_in_frame', 'v_identity', 'j_identity',
+    'fwr1', 'fwr1_aa', 'cdr1', 'cdr1_aa', 'fwr2', 'fwr2_aa', 'cdr2', 'cdr2_aa',
+    'fwr3', 'fwr3_aa', 'cdr3', 'cdr3_aa', 'fwr4', 'fwr4_aa', 'junction_length', 'junction_aa_length',
+    'cell_id',
+] as const;
+
+export type AirrField = typeof AIRR_FIELDS[number];
+
+export type AirrRearrangement = Record<AirrField, string>;
+
+const AIRR_REGIONS: [ImgtRegion, AirrField, AirrField][] = [
+    ['FR1', 'fwr1', 'fwr1_aa'], ['CDR1', 'cdr1', 'cdr1_aa'], ['FR2', 'fwr2', 'fwr2_aa'], ['CDR2', 'cdr2', 'cdr2_aa'],
+    ['FR3', 'fwr3', 'fwr3_aa'], ['CDR3', 'cdr3', 'cdr3_aa'], ['FR4', 'fwr4', 'fwr4_aa'],
+];
+
+// AIRR booleans in TSV are T/F
+const flag = (value: boolean) => (value ? 'T' : 'F');
+
+// Bundled germlines are representative *01 alleles
+const geneCall = (hit: GeneHit | null) => (hit ? `${hit.gene.name}*01` : '');
+
+// Codons of a domain when it was translated from nucleotides, matched by position in the ORF
+const codonsFor = (translation: Translation | null | undefined, sequence: string) => {
+    if (!translation) return null;
+    const offset = translation.protein.indexOf(sequence);
+    return offset >= 0 ? translation.codons.slice(offset, offset + sequence.length) : null;
+};
+
+export interface AirrOptions {
+    germlines?: GermlineAssignment; // reuses an assignment already made for the domain
+    translation?: Translation | null; // the nucleotide input the domain was translated from
+    cellId?: string; // links the chains of a pair
+}
+
+/**
+ * One rearrangement row for a V domain, built from its IMGT numbering and
+ * germline assignment. Regions use the IMGT boundaries AIRR specifies
+ * (CDR3 = 105-117, junction = 104-118) and only numbered residues, so signal
+ * peptides or constant-region flanks are left out. Nucleotide columns are
+ * filled only for translated input.
+ */
+export const airrRearrangement = (sequenceId: string, domain: AnnotatedSequence, options: AirrOptions = {}): AirrRearrangement => {
+    const imgt = domain.scheme === 'IMGT' ? domain : annotateSequence(domain.sequence, 'IMGT');
+    const germlines = options.germlines ?? assignGermlines(imgt.sequence, imgt.chain?.type);
+    const codons = codonsFor(options.translation, imgt.sequence);
+    const numbered = imgt.residues.filter(r => r.position);
+    const nt = (indices: number[]) => (codons ? indices.map(i => codons[i]).join('') : '');
+    const aa = (indices: number[]) => indices.map(i => imgt.sequence[i]).join('');
+
+    const row = Object.fromEntries(AIRR_FIELDS.map(field => [field, ''])) as AirrRearrangement;
+    for (const [region, ntField, aaField] of AIRR_REGIONS) {
+        const indices = numbered.filter(r => r.region === region).map(r => r.index);
+        row[ntField] = nt(indices);
+        row[aaField] = aa(indices);
+    }
+
+    // Junction: the conserved Cys 104 through Trp/Phe 118
+    const at = (position: string) => numbered.find(r => r.position === position);
+    const [cys, anchor] = [at('104'), at('118')];
+    const junction = cys && anchor ? numbered.filter(r => r.index >= cys.index && r.index <= anchor.index).map(r => r.index) : [];
+    const junctionAa = aa(junction);
+    const conserved = cys?.aa === 'C' && (anchor?.aa === 'W' || anchor?.aa === 'F');
+
+    const domainIndices = numbered.map(r => r.index);
+    const frameshift = options.translation?.frameshift ?? false;
+
+    return {
+        ...row,
+        sequence_id: sequenceId,
+        sequence: nt(domainIndices),
+        rev_comp: codons && options.translation ? flag(options.translation.frame < 0) : '',
+        productive: flag(conserved && !frameshift),
+        v_call: geneCall(germlines.v),
+        d_call: geneCall(germlines.d),
+        j_call: geneCall(germlines.j),
+        junction: nt(junction),
+        junction_aa: junctionAa,
+        sequence_aa: aa(domainIndices),
+        locus: germlines.locus,
+        stop_codon: flag(false),
+        vj_in_frame: flag(!frameshift),
+        v_identity: germlines.v ? (germlines.v.identity / 100).toFixed(4) : '',
+        j_identity: germlines.j ? (germlines.j.identity / 100).toFixed(4) : '',
+        junction_length: codons && junction.length ? String(junction.length * 3) : '',
+        junction_aa_length: junction.length ? String(junction.length) : '',
+        cell_id: options.cellId ?? '',
+    };
+};
+
+// Tabs and line breaks would split a TSV cell
+const cell = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+
+export const toAirrTsv = (rows: AirrRearrangement[]) =>
+    [AIRR_FIELDS.join('\t'), ...rows.map(row => AIRR_FIELDS.map(field => cell(row[field])).join('\t'))].join('\n') + '\n';
@@ -1,30 +1,129 @@
+export interface AminoAcidProperties {
+    hydro: number; // Kyte-Doolittle hydropathy
+    charge: number; // approximate charge at pH 7
+    mass: number; // free amino acid, Da
+    category: string;
+    pKa: number | null; // ionisable side chain (EMBOSS), null if none
+    volume: number; // side-chain volume incl. backbone, Å³ (Zamyatnin)
+    flexibility: number; // normalised B-factor (Vihinen)
+    aromatic: boolean;
+    helix: number; // Chou-Fasman secondary-structure propensities
+    sheet: number;
+    turn: number;
+}
+
 // Amino acid properties for bioinformatics calculations
-export const AMINO_ACID_PROPERTIES: Record<string, { hydro: number; charge: number; mass: number; category: string }> = {
-    'A': { hydro: 1.8, charge: 0, mass: 89, category: 'Nonpolar' },
-    'R': { hydro: -4.5, charge: 1, mass: 174, category: 'Positive' },
-    'N': { hydro: -3.5, charge: 0, mass: 132, category: 'Polar' },
-    'D': { hydro: -3.5, charge: -1, mass: 133, category: 'Negative' },
-    'C': { hydro: 2.5, charge: 0, mass: 121, category: 'Polar' },
-    'Q': { hydro: -3.5, charge: 0, mass: 146, category: 'Polar' },
-    'E': { hydro: -3.5, charge: -1, mass: 147, category: 'Negative' },
-    'G': { hydro: -0.4, charge: 0, mass: 75, category: 'Nonpolar' },
-    'H': { hydro: -3.2, charge: 0.5, mass: 155, category: 'Positive' },
-    'I': { hydro: 4.5, charge: 0, mass: 131, category: 'Nonpolar' },
-    'L': { hydro: 3.8, charge: 0, mass: 131, category: 'Nonpolar' },
-    'K': { hydro: -3.9, charge: 1, mass: 146, category: 'Positive' },
-    'M': { hydro: 1.9, charge: 0, mass: 149, category: 'Nonpolar' },
-    'F': { hydro: 2.8, charge: 0, mass: 165, category: 'Nonpolar' },
-    'P': { hydro: -1.6, charge: 0, mass: 115, category: 'Nonpolar' },
-    'S': { hydro: -0.8, charge: 0, mass: 105, category: 'Polar' },
-    'T': { hydro: -0.7, charge: 0, mass: 119, category: 'Polar' },
-    'W': { hydro: -0.9, charge: 0, mass: 204, category: 'Nonpolar' },
-    'Y': { hydro: -1.3, charge: 0, mass: 181, category: 'Polar' },
-    'V': { hydro: 4.2, charge: 0, mass: 117, category: 'Nonpolar' },
+export const AMINO_ACID_PROPERTIES: Record<string, AminoAcidProperties> = {
+    'A': { hydro: 1.8, charge: 0, mass: 89, category: 'Nonpolar', pKa: null, volume: 88.6, flexibility: 0.984, aromatic: false, helix: 1.42, sheet: 0.83, turn: 0.66 },
+    'R': { hydro: -4.5, charge: 1, mass: 174, category: 'Positive', pKa: 12.5, volume: 173.4, flexibility: 1.008, aromatic: false, helix: 0.98, sheet: 0.93, turn: 0.95 },
+    'N': { hydro: -3.5, charge: 0, mass: 132, category: 'Polar', pKa: null, volume: 114.1, flexibility: 1.048, aromatic: false, helix: 0.67, sheet: 0.89, turn: 1.56 },
+    'D': { hydro: -3.5, charge: -1, mass: 133, category: 'Negative', pKa: 3.9, volume: 111.1, flexibility: 1.068, aromatic: false, helix: 1.01, sheet: 0.54, turn: 1.46 },
+    'C': { hydro: 2.5, charge: 0, mass: 121, category: 'Polar', pKa: 8.5, volume: 108.5, flexibility: 0.906, aromatic: false, helix: 0.70, sheet: 1.19, turn: 1.19 },
+    'Q': { hydro: -3.5, charge: 0, mass: 146, category: 'Polar', pKa: null, volume: 143.8, flexibility: 1.037, aromatic: false, helix: 1.11, sheet: 1.10, turn: 0.98 },
+    'E': { hydro: -3.5, charge: -1, mass: 147, category: 'Negative', pKa: 4.1, volume: 138.4, flexibility: 1.094, aromatic: false, helix: 1.51, sheet: 0.37, turn: 0.74 },
+    'G': { hydro: -0.4, charge: 0, mass: 75, category: 'Nonpolar', pKa: null, volume: 60.1, flexibility: 1.031, aromatic: false, helix: 0.57, sheet: 0.75, turn: 1.56 },
+    'H': { hydro: -3.2, charge: 0.5, mass: 155, category: 'Positive', pKa: 6.5, volume: 153.2, flexibility: 0.950, aromatic: false, helix: 1.00, sheet: 0.87, turn: 0.95 },
+    'I': { hydro: 4.5, charge: 0, mass: 131, category: 'Nonpolar', pKa: null, volume: 166.7, flexibility: 0.927, aromatic: false, helix: 1.08, sheet: 1.60, turn: 0.47 },
+    'L': { hydro: 3.8, charge: 0, mass: 131, category: 'Nonpolar', pKa: null, volume: 166.7, flexibility: 0.935, aromatic: false, helix: 1.21, sheet: 1.30, turn: 0.59 },
+    'K': { hydro: -3.9, charge: 1, mass: 146, category: 'Positive', pKa: 10.8, volume: 168.6, flexibility: 1.102, aromatic: false, helix: 1.16, sheet: 0.74, turn: 1.01 },
+    'M': { hydro: 1.9, charge: 0, mass: 149, category: 'Nonpolar', pKa: null, volume: 162.9, flexibility: 0.952, aromatic: false, helix: 1.45, sheet: 1.05, turn: 0.60 },
+    'F': { hydro: 2.8, charge: 0, mass: 165, category: 'Nonpolar', pKa: null, volume: 189.9, flexibility: 0.915, aromatic: true, helix: 1.13, sheet: 1.38, turn: 0.60 },
+    'P': { hydro: -1.6, charge: 0, mass: 115, category: 'Nonpolar', pKa: null, volume: 112.7, flexibility: 1.049, aromatic: false, helix: 0.57, sheet: 0.55, turn: 1.52 },
+    'S': { hydro: -0.8, charge: 0, mass: 105, category: 'Polar', pKa: null, volume: 89.0, flexibility: 1.046, aromatic: false, helix: 0.77, sheet: 0.75, turn: 1.43 },
+    'T': { hydro: -0.7, charge: 0, mass: 119, category: 'Polar', pKa: null, volume: 116.1, flexibility: 0.997, aromatic: false, helix: 0.83, sheet: 1.19, turn: 0.96 },
+    'W': { hydro: -0.9, charge: 0, mass: 204, category: 'Nonpolar', pKa: null, volume: 227.8, flexibility: 0.904, aromatic: true, helix: 1.08, sheet: 1.37, turn: 0.96 },
+    'Y': { hydro: -1.3, charge: 0, mass: 181, category: 'Polar', pKa: 10.1, volume: 193.6, flexibility: 0.929, aromatic: true, helix: 0.69, sheet: 1.47, turn: 1.14 },
+    'V': { hydro: 4.2, charge: 0, mass: 117, category: 'Nonpolar', pKa: null, volume: 140.0, flexibility: 0.931, aromatic: false, helix: 1.06, sheet: 1.70, turn: 0.50 },
+};
+
+export const CANONICAL_AMINO_ACIDS = 'ACDEFGHIKLMNPQRSTVWY';
+
+// IUPAC ambiguity codes and the residues each may stand for
+export const AMBIGUOUS_RESIDUES: Record<string, string> = {
+    B: 'DN',
+    Z: 'EQ',
+    J: 'IL',
+    X: CANONICAL_AMINO_ACIDS,
+};
+
+// Genetically encoded non-standard residues and the canonical residue they are scored as
+export const NONSTANDARD_RESIDUES: Record<string, { name: string; scoredAs: string }> = {
+    U: { name: 'Selenocysteine', scoredAs: 'C' },
+    O: { name: 'Pyrrolysine', scoredAs: 'K' },
+};
+
+// Residues a code is scored as: itself, the candidates of an ambiguity code, or the stand-in for a non-standard residue
+export const expandResidue = (code: string): string =>
+    AMBIGUOUS_RESIDUES[code] ?? NONSTANDARD_RESIDUES[code]?.scoredAs ?? code;
+
+// Ambiguity codes score as the mean of the residues they may stand for
+const averageProperties = (residues: string): AminoAcidProperties => {
+    const props = residues.split('').map(aa => AMINO_ACID_PROPERTIES[aa]);
+    const mean = (key: 'hydro' | 'charge' | 'mass' | 'volume' | 'flexibility' | 'helix' | 'sheet' | 'turn') =>
+        props.reduce((sum, p) => sum + p[key], 0) / props.length;
+    const pKas = props.map(p => p.pKa);
+    return {
+        hydro: mean('hydro'), charge: mean('charge'), mass: mean('mass'), category: 'Ambiguous',
+        pKa: pKas.every(p => p === pKas[0]) ? pKas[0] : null,
+        volume: mean('volume'), flexibility: mean('flexibility'), aromatic: props.every(p => p.aromatic),
+        helix: mean('helix'), sheet: mean('sheet'), turn: mean('turn'),
+    };
+};
+
+// The canonical table plus ambiguity codes and non-standard residues (scored as their stand-in, own mass)
+export const EXTENDED_AMINO_ACID_PROPERTIES: Record<string, AminoAcidProperties> = {
+    ...AMINO_ACID_PROPERTIES,
+    ...Object.fromEntries(Object.entries(AMBIGUOUS_RESIDUES).map(([code, residues]) => [code, averageProperties(residues)])),
+    U: { ...AMINO_ACID_PROPERTIES[NONSTANDARD_RESIDUES.U.scoredAs], mass: 168, category: 'Nonstandard' },
+    O: { ...AMINO_ACID_PROPERTIES[NONSTANDARD_RESIDUES.O.scoredAs], mass: 255, category: 'Nonstandard' },
 };
 
-// Simplified consensus sequences for common Human VH germlines
-export const HUMAN_GERMLINES: Record<string, string> = {
-    'IGHV1-69': 'QVQLVQSGAEVKKPGSSVKVSCKASGGTFSSYAISWVRQAPGQGLEWMGGIIPIFGTANYAQKFQGRVTITADESTSTAYMELSSLRSEDTAVYYCAR',
-    'IGHV3-23': 'EVQLLESGGGLVQPGGSLRLSCAASGFTFSSYAMSWVRQAPGKGLEWVSAISGSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCAK',
-    'IGHV4-34': 'QVQLQQWGAGLLKPSETLSLTCAVYGGSFSGYYWSWIRQPPGKGLEWIGEINHSGSTNYNPSLKSRVTISVDTSKNQFSLKLSSVTAADTAVYYCAR',
+export type HydrophobicityScale = 'Kyte-Doolittle' | 'Eisenberg' | 'Hopp-Woods' | 'Wimley-White' | 'Black-Mould';
+
+// Builds a residue -> value table from values listed in 'ARNDCQEGHILKMFPSTWYV' order
+const scale = (values: number[]) => Object.fromEntries('ARNDCQEGHILKMFPSTWYV'.split('').map((aa, i) => [aa, values[i]]));
+
+// Hydrophobicity scales, oriented so that higher is more hydrophobic. Hopp-Woods
+// (a hydrophilicity scale) and Wimley-White (octanol transfer free energy) are
+// negated from their published sign.
+export const HYDROPHOBICITY_SCALES: Record<HydrophobicityScale, Record<string, number>> = {
+    'Kyte-Doolittle': Object.fromEntries(CANONICAL_AMINO_ACIDS.split('').map(aa => [aa, AMINO_ACID_PROPERTIES[aa].hydro])),
+    'Eisenberg': scale([0.62, -2.53, -0.78, -0.90, 0.29, -0.85, -0.74, 0.48, -0.40, 1.38, 1.06, -1.50, 0.64, 1.19, 0.12, -0.18, -0.05, 0.81, 0.26, 1.08]),
+    'Hopp-Woods': scale([0.5, -3.0, -0.2, -3.0, 1.0, -0.2, -3.0, 0.0, 0.5, 1.8, 1.8, -3.0, 1.3, 2.5, 0.0, -0.3, 0.4, 3.4, 2.3, 1.5]),
+    'Wimley-White': scale([-0.50, -1.81, -0.85, -3.64, 0.02, -0.77, -3.63, -1.15, -2.33, 1.12, 1.25, -2.80, 0.67, 1.71, -0.14, -0.46, -0.25, 2.09, 0.71, 0.46]),
+    'Black-Mould': scale([0.616, 0.000, 0.236, 0.028, 0.680, 0.251, 0.043, 0.501, 0.165, 0.943, 0.943, 0.283, 0.738, 1.000, 0.711, 0.359, 0.450, 0.878, 0.880, 0.825]),
 };
+
+export const HYDROPHOBICITY_SCALE_NAMES = Object.keys(HYDROPHOBICITY_SCALES) as HydrophobicityScale[];
+
+// BLOSUM62 substitution matrix, rows/columns in BLOSUM62_ORDER
+const BLOSUM62_ORDER = 'ARNDCQEGHILKMFPSTWYV';
+const BLOSUM62_ROWS = [
+    ' 4 -1 -2 -2  0 -1 -1  0 -2 -1 -1 -1 -1 -2 -1  1  0 -3 -2  0',
+    '-1  5  0 -2 -3  1  0 -2  0 -3 -2  2 -1 -3 -2 -1 -1 -3 -2 -3',
+    '-2  0  6  1 -3  0  0  0  1 -3 -3  0 -2 -3 -2  1  0 -4 -2 -3',
+    '-2 -2  1  6 -3  0  2 -1 -1 -3 -4 -1 -3 -3 -1  0 -1 -4 -3 -3',
+    ' 0 -3 -3 -3  9 -3 -4 -3 -3 -1 -1 -3 -1 -2 -3 -1 -1 -2 -2 -1',
+    '-1  1  0  0 -3  5  2 -2  0 -3 -2  1  0 -3 -1  0 -1 -2 -1 -2',
+    '-1  0  0  2 -4  2  5 -2  0 -3 -3  1 -2 -3 -1  0 -1 -3 -2 -2',
+    ' 0 -2  0 -1 -3 -2 -2  6 -2 -4 -4 -2 -3 -3 -2  0 -2 -2 -3 -3',
+    '-2  0  1 -1 -3  0  0 -2  8 -3 -3 -1 -2 -1 -2 -1 -2 -2  2 -3',
+    '-1 -3 -3 -3 -1 -3 -3 -4 -3  4  2 -3  1  0 -3 -2 -1 -3 -1  3',
+    '-1 -2 -3 -4 -1 -2 -3 -4 -3  2  4 -2  2  0 -3 -2 -1 -2 -1  1',
+    '-1  2  0 -1 -3  1  1 -2 -1 -3 -2  5 -1 -3 -1  0 -1 -3 -2 -2',
+    '-1 -1 -2 -3 -1  0 -2 -3 -2  1  2 -1  5  0 -2 -1 -1 -1 -1  1',
+    '-2 -3 -3 -3 -2 -3 -3 -3 -1  0  0 -3  0  6 -4 -2 -2  1  3 -1',
+    '-1 -2 -2 -1 -3 -1 -1 -2 -2 -3 -3 -1 -2 -4  7 -1 -1 -4 -3 -2',
+    ' 1 -1  1  0 -1  0  0  0 -1 -2 -2  0 -1 -2 -1  4  1 -3 -2 -2',
+    ' 0 -1  0 -1 -1 -1 -1 -2 -2 -1 -1 -1 -1 -2 -1  1  5 -2 -2  0',
+    '-3 -3 -4 -4 -2 -2 -3 -2 -2 -3 -2 -3 -1  1 -4 -3 -2 11  2 -3',
+    '-2 -2 -2 -3 -2 -1 -2 -3  2 -1 -1 -2 -1  3 -3 -2 -2  2  7 -1',
+    ' 0 -3 -3 -3 -1 -2 -2 -3 -3  3  1 -2  1 -1 -2 -2  0 -3 -1  4',
+];
+
+export const BLOSUM62: Record<string, Record<string, number>> = {};
+BLOSUM62_ROWS.forEach((row, i) => {
+    const values = row.trim().split(/\s+/).map(Number);
+    BLOSUM62[BLOSUM62_ORDER[i]] = {};
+    values.forEach((v, j) => { BLOSUM62[BLOSUM62_ORDER[i]][BLOSUM62_ORDER[j]] = v; });
+});
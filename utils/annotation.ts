@@ -0,0 +1,131 @@
+import {
+    numberScheme, formatPosition, residueAt, schemeSupportsChain, IMGT_REGIONS,
+    ImgtNumbering, ImgtRegion, NumberingScheme
+} from './numbering';
+import { classifyChain, CHAIN_CLASS_NAMES, ChainClassification } from './chainType';
+
+export interface AnnotatedResidue {
+    index: number; // 0-based position in the sequence
+    aa: string;
+    position: string; // scheme number with insertion code, '' outside the V domain
+    region: ImgtRegion;
+}
+
+export interface AnnotatedRegion {
+    type: ImgtRegion;
+    start: number; // 0-based, inclusive
+    end: number; // exclusive
+    seq: string;
+    startPos: string; // scheme number of the first/last numbered residue ('' if none)
+    endPos: string;
+}
+
+/**
+ * Canonical annotation shared by every tab: one entry per residue, the seven
+ * FR/CDR regions covering the whole sequence (flanking residues join FR1/FR4)
+ * and a 0-1 confidence in the assignment.
+ */
+export interface AnnotatedSequence {
+    sequence: string;
+    scheme: NumberingScheme;
+    chain: ChainClassification | null;
+    imgt: ImgtNumbering | null;
+    residues: AnnotatedResidue[];
+    regions: AnnotatedRegion[];
+    confidence: number;
+    reasoning: string[];
+}
+
+export const REGION_ORDER: ImgtRegion[] = IMGT_REGIONS.map(r => r.region);
+
+export const cleanSequence = (seq: string) => seq.toUpperCase().replace(/[^A-Z]/g, '');
+
+// IMGT region starts used when no template aligns, for a nominal 120-residue domain
+const FALLBACK_STARTS: Record<ImgtRegion, number> = {
+    FR1: 0, CDR1: 26, FR2: 38, CDR2: 55, FR3: 65, CDR3: 104, FR4: 117,
+};
+
+/**
+ * Numbers and annotates a V-domain sequence in the requested scheme. The chain
+ * type comes from utils/chainType; region boundaries follow the scheme's own
+ * CDR definitions. TCRs fall back to IMGT for Kabat-derived schemes. Sequences
+ * that do not align are split by average region lengths at low confidence.
+ */
+export const annotateSequence = (seq: string, requestedScheme: NumberingScheme = 'IMGT'): AnnotatedSequence => {
+    const sequence = cleanSequence(seq);
+    const len = sequence.length;
+    const reasoning: string[] = [];
+
+    const chain = classifyChain(sequence);
+    const imgt = chain ? chain.numbering : null;
+    const scheme = imgt && !schemeSupportsChain(requestedScheme, imgt.chain) ? 'IMGT' : requestedScheme;
+    const schemeResidues = imgt ? numberScheme(imgt, scheme) : [];
+    const labels: string[] = new Array(len).fill('');
+    schemeResidues.forEach(r => { labels[r.seqIndex] = formatPosition(r); });
+
+    const anchorIndex = (label: string, residues: string) => {
+        const r = imgt ? residueAt(imgt, label) : undefined;
+        return r && residues.includes(r.aa) ? r.seqIndex : -1;
+    };
+    const c23Index = anchorIndex('23', 'C');
+    const w41Index = anchorIndex('41', 'W');
+    const c104Index = anchorIndex('104', 'C');
+    const fr4Index = anchorIndex('118', 'WF');
+    const hasAnchors = c23Index !== -1 && w41Index !== -1 && c104Index !== -1 && fr4Index !== -1;
+
+    let confidence: number;
+    let startOf: (region: ImgtRegion) => number;
+
+    if (chain && imgt) {
+        confidence = hasAnchors ? Math.min(0.99, 0.8 + 0.2 * imgt.score) : 0.5 + 0.3 * imgt.score;
+        reasoning.push(`Classified as ${CHAIN_CLASS_NAMES[chain.type]} (${(chain.confidence * 100).toFixed(0)}% confidence).`);
+        reasoning.push(...chain.evidence);
+        if (scheme !== requestedScheme) reasoning.push(`${requestedScheme} is not defined for T-cell receptors; numbered in IMGT instead.`);
+        if (c23Index !== -1) reasoning.push(`Identified conserved Cysteine (C23) at pos ${c23Index + 1}.`);
+        if (w41Index !== -1) reasoning.push(`Identified conserved Tryptophan (W41) at pos ${w41Index + 1}.`);
+        if (c104Index !== -1) reasoning.push(`Identified 2nd Cysteine (C104) at pos ${c104Index + 1} bounding FR3.`);
+        if (fr4Index !== -1) reasoning.push(`Identified J-region motif (${sequence.substring(fr4Index, fr4Index + 4)}) at pos ${fr4Index + 1}.`);
+        if (!hasAnchors) reasoning.push('One or more conserved anchors are mutated; numbering relies on framework homology.');
+
+        const insertions = schemeResidues.filter(r => r.insertion).map(formatPosition);
+        if (insertions.length) reasoning.push(`${scheme} insertions: ${insertions.join(', ')}.`);
+        if (imgt.start > 0 || imgt.end < len) {
+            reasoning.push(`V domain spans pos ${imgt.start + 1}-${imgt.end}; flanking residues are unnumbered.`);
+        }
+
+        startOf = region => {
+            const first = schemeResidues.find(r => REGION_ORDER.indexOf(r.region) >= REGION_ORDER.indexOf(region));
+            return region === 'FR1' ? 0 : first ? first.seqIndex : imgt.end;
+        };
+    } else {
+        confidence = 0.4;
+        reasoning.push('Structural anchors were ambiguous. Falling back to statistical length models.');
+        const scale = len / 120;
+        startOf = region => (region === 'FR4' ? Math.max(0, len - 11) : Math.floor(FALLBACK_STARTS[region] * scale));
+    }
+
+    const regions: AnnotatedRegion[] = [];
+    const residues: AnnotatedResidue[] = [];
+    let cursor = 0;
+    REGION_ORDER.forEach((type, k) => {
+        const start = Math.max(cursor, Math.min(startOf(type), len));
+        const next = REGION_ORDER[k + 1];
+        const end = Math.max(start, next ? Math.min(startOf(next), len) : len);
+        cursor = end;
+        const numbered = labels.slice(start, end).filter(Boolean);
+        regions.push({
+            type, start, end,
+            seq: sequence.substring(start, end),
+            startPos: numbered[0] || '',
+            endPos: numbered[numbered.length - 1] || '',
+        });
+        for (let i = start; i < end; i++) {
+            residues.push({ index: i, aa: sequence[i], position: labels[i], region: type });
+        }
+    });
+
+    return { sequence, scheme, chain, imgt, residues, regions, confidence, reasoning };
+};
+
+export const regionSequence = (annotation: AnnotatedSequence, type: ImgtRegion) =>
+    annotation.regions.find(r => r.type === type)?.seq ?? '';
@@ -0,0 +1,181 @@
+import { airrRearrangement, AirrRearrangement } from './airr';
+import { annotateSequence, regionSequence, AnnotatedSequence } from './annotation';
+import { calculateHumanness, isoelectricPoint } from './bioinformatics';
+import { ChainClass } from './chainType';
+import { analyzeFv, analyzeScfv, fvChains } from './fv';
+import { scanLiabilities } from './liabilities';
+import { validateSequence } from './validation';
+
+export interface BatchRecord {
+    name: string;
+    heavy: string; // VH, or the only sequence of a single-chain record
+    light: string; // '' when the record has one sequence
+}
+
+export interface BatchParseResult {
+    records: BatchRecord[];
+    errors: string[];
+}
+
+export type BatchFormat = 'VH/VL' | 'scFv' | 'Single';
+
+export interface BatchRow {
+    id: number; // input order
+    record: BatchRecord;
+    ok: boolean; // false when validation blocked the analysis
+    format: BatchFormat;
+    chains: ChainClass[];
+    vGene: string; // closest V gene of the first (heavy) domain, any species
+    identity: number | null; // V-region identity to the closest human germline
+    meanIdentity: number | null; // mean identity to the closest human germlines
+    pI: number | null;
+    liabilities: number;
+    highLiabilities: number;
+    cdr3Length: number | null; // heavy-chain (or single-domain) IMGT CDR3
+    issues: string[]; // validation errors and warnings, with the chain prefixed for pairs
+    airr: AirrRearrangement[]; // one rearrangement per V domain
+}
+
+// Chain suffix on a FASTA name: clone1_VH / clone1|VL / clone1 heavy ...
+const CHAIN_SUFFIX = /[\s_|.-]+(VH|VL|VK|HC|LC|H|L|K|HEAVY|LIGHT|KAPPA|LAMBDA)$/i;
+const HEAVY_SUFFIXES = ['VH', 'HC', 'H', 'HEAVY'];
+
+const NAME_COLUMNS = ['name', 'id', 'clone', 'sequence_id'];
+const HEAVY_COLUMNS = ['vh', 'heavy', 'heavy_chain', 'vh_sequence', 'sequence_vh', 'h', 'sequence'];
+const LIGHT_COLUMNS = ['vl', 'light', 'light_chain', 'vl_sequence', 'sequence_vl', 'l', 'vk'];
+
+const parseFasta = (text: string): BatchParseResult => {
+    const entries: { name: string; seq: string }[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (line.startsWith('>')) entries.push({ name: line.slice(1).trim() || `Record ${entries.length + 1}`, seq: '' });
+        else if (entries.length) entries[entries.length - 1].seq += line.trim();
+    }
+
+    // Records named <clone>_VH and <clone>_VL become one paired record
+    const records: BatchRecord[] = [];
+    const byClone = new Map<string, BatchRecord>();
+    for (const { name, seq } of entries) {
+        const suffix = name.match(CHAIN_SUFFIX);
+        if (!suffix) {
+            records.push({ name, heavy: seq, light: '' });
+            continue;
+        }
+        const clone = name.slice(0, suffix.index).trim();
+        const heavy = HEAVY_SUFFIXES.includes(suffix[1].toUpperCase());
+        let record = byClone.get(clone);
+        if (!record || (heavy ? record.heavy : record.light)) {
+            record = { name: clone, heavy: '', light: '' };
+            byClone.set(clone, record);
+            records.push(record);
+        }
+        if (heavy) record.heavy = seq;
+        else record.light = seq;
+    }
+    // A lone light chain is analyzed as a single-chain record
+    for (const record of records) {
+        if (!record.heavy) [record.heavy, record.light] = [record.light, ''];
+    }
+    return { records, errors: records.length ? [] : ['No FASTA records found'] };
+};
+
+// Splits one delimited line, honouring double-quoted fields
+const splitRow = (line: string, delimiter: string) => {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (const char of line) {
+        if (char === '"') quoted = !quoted;
+        else if (char === delimiter && !quoted) {
+            fields.push(field.trim());
+            field = '';
+        } else field += char;
+    }
+    fields.push(field.trim());
+    return fields;
+};
+
+const parseDelimited = (text: string): BatchParseResult => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    const delimiter = ['\t', ';', ','].find(d => lines[0].includes(d)) ?? ',';
+    const header = splitRow(lines[0], delimiter).map(h => h.toLowerCase());
+    const column = (names: string[]) => header.findIndex(h => names.includes(h));
+    const nameCol = column(NAME_COLUMNS);
+    const heavyCol = column(HEAVY_COLUMNS);
+    const lightCol = column(LIGHT_COLUMNS);
+    if (heavyCol < 0) return { records: [], errors: ['CSV header needs a VH (or heavy / sequence) column; name and VL are optional'] };
+
+    const records: BatchRecord[] = [];
+    const errors: string[] = [];
+    lines.slice(1).forEach((line, i) => {
+        const fields = splitRow(line, delimiter);
+        const heavy = fields[heavyCol] ?? '';
+        const light = lightCol >= 0 ? fields[lightCol] ?? '' : '';
+        if (!heavy && !light) {
+            errors.push(`Row ${i + 2}: no sequence`);
+            return;
+        }
+        records.push({ name: (nameCol >= 0 && fields[nameCol]) || `Row ${i + 2}`, heavy: heavy || light, light: heavy ? light : '' });
+    });
+    return { records, errors };
+};
+
+/**
+ * Parses a multi-record FASTA file or a CSV/TSV table with name, VH and VL
+ * columns. FASTA records whose names differ only by a chain suffix (_VH/_VL,
+ * _H/_L, heavy/light) are paired into one clone.
+ */
+export const parseBatch = (text: string): BatchParseResult => {
+    const trimmed = text.trim();
+    if (!trimmed) return { records: [], errors: [] };
+    return trimmed.startsWith('>') ? parseFasta(trimmed) : parseDelimited(trimmed);
+};
+
+const cdr3Length = (annotation: AnnotatedSequence) => regionSequence(annotation, 'CDR3').length;
+
+/**
+ * Numbering, humanness, pI and liability scan for one record, reduced to a
+ * table row. The heavy (or only) domain supplies the germline, identity, mean identity
+ * and CDR3 columns; pI and liabilities cover every chain.
+ */
+export const analyzeBatchRecord = (record: BatchRecord, id: number): BatchRow => {
+    const checks = [validateSequence(record.heavy), ...(record.light ? [validateSequence(record.light)] : [])];
+    const issues = checks.flatMap((check, i) =>
+        check.issues.map(issue => `${checks.length > 1 ? `${i ? 'VL' : 'VH'}: ` : ''}${issue.message}`));
+    const row: BatchRow = {
+        id, record, ok: false, format: record.light ? 'VH/VL' : 'Single', chains: [], vGene: '', identity: null,
+        meanIdentity: null, pI: null, liabilities: 0, highLiabilities: 0, cdr3Length: null, issues, airr: [],
+    };
+    if (checks.some(check => !check.valid)) return row;
+
+    const [heavySeq, lightSeq] = checks.map(check => check.sequence);
+    const fv = lightSeq ? analyzeFv(heavySeq, lightSeq) : analyzeScfv(heavySeq);
+    const domains = fv ? [fv.heavy, fv.light] : [annotateSequence(heavySeq)];
+    const lead = domains[0];
+    const humanness = calculateHumanness(lead.sequence, lead.chain?.type);
+    const liabilities = domains.flatMap(scanLiabilities);
+    const translations = checks.map(check => check.translation);
+    const airr = domains.map((domain, i) => airrRearrangement(
+        domains.length > 1 ? `${record.name}_${i ? 'VL' : 'VH'}` : record.name,
+        domain,
+        {
+            germlines: i === 0 ? humanness.germlines : undefined,
+            translation: translations.find(t => t?.protein.includes(domain.sequence)),
+            cellId: domains.length > 1 ? record.name : undefined,
+        },
+    ));
+
+    return {
+        ...row,
+        ok: true,
+        format: lightSeq ? 'VH/VL' : fv ? 'scFv' : 'Single',
+        chains: domains.flatMap(d => (d.chain ? [d.chain.type] : [])),
+        vGene: humanness.germlines.v ? `${humanness.germlines.v.gene.name} (${humanness.germlines.species})` : '',
+        identity: humanness.identity,
+        meanIdentity: humanness.meanIdentity?.score ?? null,
+        pI: isoelectricPoint(fv ? fvChains(fv) : [heavySeq]),
+        liabilities: liabilities.length,
+        highLiabilities: liabilities.filter(l => l.severity === 'high').length,
+        cdr3Length: cdr3Length(lead),
+        airr,
+    };
+};
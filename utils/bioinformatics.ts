@@ -1,79 +1,135 @@
-import { AMINO_ACID_PROPERTIES, HUMAN_GERMLINES } from './aminoAcidProperties';
-
-export interface RegionData {
-    fr1: string;
-    cdr1: string;
-    fr2: string;
-    cdr2: string;
-    fr3: string;
-    cdr3: string;
-    fr4: string;
-}
+import { expandResidue, EXTENDED_AMINO_ACID_PROPERTIES, HYDROPHOBICITY_SCALES, HydrophobicityScale } from './aminoAcidProperties';
+import { ChainClass } from './chainType';
+import { assignGermlines, GermlineAssignment } from './germlines';
+import { calculateGermlineHumanness, GermlineHumanness } from './germlineHumanness';
 
 export interface HumannessAnalysis {
-    identity: number;
-    t20: string;
+    identity: number; // V-region identity to the closest human germline
+    frameworkIdentity: number; // FR1-FR3 only
+    meanIdentity: GermlineHumanness | null; // mean identity to the closest human germlines, null for TCR chains
     avgHydro: number;
-    charge: number;
+    charge: number; // net charge at pH 7.4 (EMBOSS pKa)
     isHuman: boolean;
+    germline: string; // closest human V gene
+    germlines: GermlineAssignment; // closest V/D/J genes over all species
 }
 
-// Heuristic Region Parsing (Simplified Kabat/Chothia for demo)
-export const parseRegions = (seq: string): RegionData => {
-    const cys1Index = seq.indexOf('C');
-    const cys3Index = seq.lastIndexOf('C');
-    const wgIndex = seq.lastIndexOf('WG');
+export const calculateHumanness = (seq: string, chain: ChainClass = 'VH'): HumannessAnalysis => {
+    const germlines = assignGermlines(seq, chain);
+    const human = germlines.species === 'human' ? germlines : assignGermlines(seq, chain, 'human');
+    const identity = human.v?.identity ?? 0;
+    const frameworkIdentity = human.v?.frameworkIdentity ?? 0;
+    const germline = human.v?.gene.name ?? 'Unassigned';
+
+    const meanIdentity = calculateGermlineHumanness(seq, chain);
 
-    if (cys1Index === -1 || cys3Index === -1 || cys3Index <= cys1Index) {
-        const len = seq.length;
-        return {
-            fr1: seq.substring(0, 25),
-            cdr1: seq.substring(25, 33),
-            fr2: seq.substring(33, 50),
-            cdr2: seq.substring(50, 58),
-            fr3: seq.substring(58, 95),
-            cdr3: seq.substring(95, 105),
-            fr4: seq.substring(105, len)
-        };
+    // Averaged over the residues that have a value, so stray symbols do not dilute it
+    let totalHydro = 0;
+    let scored = 0;
+    for (const char of seq) {
+        if (EXTENDED_AMINO_ACID_PROPERTIES[char]) {
+            totalHydro += EXTENDED_AMINO_ACID_PROPERTIES[char].hydro;
+            scored++;
+        }
     }
+    const avgHydro = scored ? totalHydro / scored : 0;
+    const charge = netCharge(seq);
 
     return {
-        fr1: seq.substring(0, cys1Index + 4),
-        cdr1: seq.substring(cys1Index + 4, cys1Index + 12),
-        fr2: seq.substring(cys1Index + 12, cys1Index + 29),
-        cdr2: seq.substring(cys1Index + 29, cys3Index - 32),
-        fr3: seq.substring(cys3Index - 32, cys3Index + 3),
-        cdr3: seq.substring(cys3Index + 3, wgIndex !== -1 ? wgIndex : seq.length - 10),
-        fr4: seq.substring(wgIndex !== -1 ? wgIndex : seq.length - 10)
+        identity,
+        frameworkIdentity,
+        meanIdentity,
+        avgHydro,
+        charge,
+        isHuman: identity > 85,
+        germline,
+        germlines
     };
 };
 
-export const calculateHumanness = (seq: string): HumannessAnalysis => {
-    let matchScore = 0;
-    const totalLen = Math.min(seq.length, HUMAN_GERMLINES['IGHV3-23'].length);
+export type PkaSet = 'EMBOSS' | 'Bjellqvist' | 'Lehninger';
 
-    for (let i = 0; i < totalLen; i++) {
-        if (seq[i] === HUMAN_GERMLINES['IGHV3-23'][i]) matchScore++;
-    }
+interface PkaValues {
+    nTerm: number;
+    cTerm: number;
+    K: number;
+    R: number;
+    H: number;
+    D: number;
+    E: number;
+    C: number;
+    Y: number;
+}
+
+// pKa values for ionisable groups. Bjellqvist uses its average terminal values
+// (the published set varies them with the terminal residue).
+export const PKA_SETS: Record<PkaSet, PkaValues> = {
+    EMBOSS: { nTerm: 8.6, cTerm: 3.6, K: 10.8, R: 12.5, H: 6.5, D: 3.9, E: 4.1, C: 8.5, Y: 10.1 },
+    Bjellqvist: { nTerm: 7.5, cTerm: 3.55, K: 10.0, R: 12.0, H: 5.98, D: 4.05, E: 4.45, C: 9.0, Y: 10.0 },
+    Lehninger: { nTerm: 9.69, cTerm: 2.34, K: 10.5, R: 12.4, H: 6.0, D: 3.86, E: 4.25, C: 8.33, Y: 10.0 },
+};
 
-    const identity = (matchScore / totalLen) * 100;
-    const t20 = ((identity - 85) / 10).toFixed(2);
+export const PKA_SET_NAMES = Object.keys(PKA_SETS) as PkaSet[];
 
-    let totalHydro = 0;
+/**
+ * Henderson–Hasselbalch net charge at a given pH. Several chains (e.g. VH and
+ * VL of an Fv) each contribute their own termini. Ambiguity codes (B, Z, X)
+ * contribute the mean charge of the residues they may stand for; U and O are
+ * charged as C and K.
+ */
+export const netCharge = (chains: string | string[], pH = 7.4, pkaSet: PkaSet = 'EMBOSS'): number => {
+    const pka = PKA_SETS[pkaSet];
+    const positive = (pKa: number) => 1 / (1 + Math.pow(10, pH - pKa));
+    const negative = (pKa: number) => -1 / (1 + Math.pow(10, pKa - pH));
     let charge = 0;
-    for (const char of seq) {
-        if (AMINO_ACID_PROPERTIES[char]) {
-            totalHydro += AMINO_ACID_PROPERTIES[char].hydro;
-            charge += AMINO_ACID_PROPERTIES[char].charge;
+    for (const seq of typeof chains === 'string' ? [chains] : chains) {
+        if (!seq) continue;
+        charge += positive(pka.nTerm) + negative(pka.cTerm);
+        for (const code of seq) {
+            const residues = expandResidue(code);
+            for (const aa of residues) {
+                const weight = 1 / residues.length;
+                if (aa === 'K' || aa === 'R' || aa === 'H') charge += weight * positive(pka[aa]);
+                else if (aa === 'D' || aa === 'E' || aa === 'C' || aa === 'Y') charge += weight * negative(pka[aa]);
+            }
         }
     }
-    const avgHydro = totalHydro / seq.length;
+    return charge;
+};
 
-    return {
-        identity,
-        t20,
-        avgHydro,
-        charge,
-        isHuman: identity > 85
+// pH at which the net charge crosses zero, by bisection over 0-14
+export const isoelectricPoint = (chains: string | string[], pkaSet: PkaSet = 'EMBOSS'): number => {
+    let low = 0;
+    let high = 14;
+    while (high - low > 0.001) {
+        const mid = (low + high) / 2;
+        if (netCharge(chains, mid, pkaSet) > 0) low = mid;
+        else high = mid;
+    }
+    return (low + high) / 2;
+};
+
+// Net charge sampled across pH 0-14 for plotting
+export const chargeCurve = (chains: string | string[], pkaSet: PkaSet = 'EMBOSS', step = 0.25) =>
+    Array.from({ length: Math.round(14 / step) + 1 }, (_, i) => {
+        const pH = i * step;
+        return { pH, charge: netCharge(chains, pH, pkaSet) };
+    });
+
+/**
+ * Sliding-window hydrophobicity: each residue gets the mean scale value over
+ * a window centred on it, truncated at the termini. Ambiguity codes take the
+ * mean of their candidates, U and O their stand-ins; unknown residues count 0.
+ */
+export const hydrophobicityProfile = (seq: string, scale: HydrophobicityScale = 'Kyte-Doolittle', window = 1) => {
+    const valueOf = (code: string) => {
+        const residues = expandResidue(code).split('');
+        return residues.reduce((sum, aa) => sum + (HYDROPHOBICITY_SCALES[scale][aa] ?? 0), 0) / residues.length;
     };
+    const values = seq.split('').map(valueOf);
+    const half = Math.floor(window / 2);
+    return values.map((_, i) => {
+        const slice = values.slice(Math.max(0, i - half), i + half + 1);
+        return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+    });
 };
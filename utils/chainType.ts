@@ -0,0 +1,69 @@
+import { numberAllChains, residueAt, MIN_ALIGNMENT_SCORE, ChainType, ImgtNumbering } from './numbering';
+
+// V-domain classes distinguished downstream (region definitions, germline references)
+export type ChainClass = 'VH' | 'VHH' | 'VK' | 'VL' | 'TRA' | 'TRB';
+
+export const CHAIN_CLASS_NAMES: Record<ChainClass, string> = {
+    VH: 'Heavy chain (VH)',
+    VHH: 'Single-domain antibody (VHH)',
+    VK: 'Kappa light chain (Vκ)',
+    VL: 'Lambda light chain (Vλ)',
+    TRA: 'TCR alpha chain (Vα)',
+    TRB: 'TCR beta chain (Vβ)',
+};
+
+const TEMPLATE_CLASS: Record<ChainType, ChainClass> = { H: 'VH', K: 'VK', L: 'VL', A: 'TRA', B: 'TRB' };
+
+// FR2 hallmark residues of camelid VHH domains (conventional VH: V42, G49, L50, W52)
+const VHH_HALLMARKS: { position: number; residues: string }[] = [
+    { position: 42, residues: 'FY' },
+    { position: 49, residues: 'EQ' },
+    { position: 50, residues: 'RC' },
+    { position: 52, residues: 'GFL' },
+];
+const MIN_VHH_HALLMARKS = 2;
+
+export interface ChainClassification {
+    type: ChainClass;
+    confidence: number; // 0-1
+    numbering: ImgtNumbering;
+    evidence: string[];
+}
+
+/**
+ * Classifies a V domain as VH, VHH, Vκ, Vλ, TCRα or TCRβ. The chain is taken
+ * from the best-scoring IMGT template; confidence grows with the margin over
+ * the runner-up template and with the absolute framework score. Heavy chains
+ * carrying at least two FR2 hallmarks are reported as VHH.
+ * Returns null if no template aligns above MIN_ALIGNMENT_SCORE.
+ */
+export const classifyChain = (seq: string): ChainClassification | null => {
+    const [best, runnerUp] = numberAllChains(seq);
+    if (!best || best.score < MIN_ALIGNMENT_SCORE) return null;
+
+    const margin = best.score - (runnerUp?.score ?? 0);
+    let confidence = (1 - Math.exp(-margin / 0.1)) * Math.min(1, best.score / 0.6);
+    let type = TEMPLATE_CLASS[best.chain];
+
+    const evidence = [
+        `Framework score ${(best.score * 100).toFixed(0)}% vs ${(runnerUp ? runnerUp.score * 100 : 0).toFixed(0)}% for the next template${runnerUp ? ` (${CHAIN_CLASS_NAMES[TEMPLATE_CLASS[runnerUp.chain]]})` : ''}.`,
+    ];
+
+    if (best.chain === 'H') {
+        const hallmarks = VHH_HALLMARKS
+            .map(h => ({ ...h, aa: residueAt(best, String(h.position))?.aa }))
+            .filter(h => h.aa && h.residues.includes(h.aa));
+        if (hallmarks.length >= MIN_VHH_HALLMARKS) {
+            type = 'VHH';
+            confidence *= 0.5 + hallmarks.length / 8;
+            evidence.push(`VHH hallmarks in FR2: ${hallmarks.map(h => `${h.aa}${h.position}`).join(', ')}.`);
+        } else if (hallmarks.length > 0) {
+            evidence.push(`Isolated VHH-like FR2 residue ${hallmarks[0].aa}${hallmarks[0].position}; treated as conventional VH.`);
+        }
+    }
+
+    const j118 = residueAt(best, '118')?.aa;
+    if (j118) evidence.push(`J-region motif starts with ${j118}118 (${j118 === 'W' ? 'heavy/VHH' : 'light/TCR'}-type).`);
+
+    return { type, confidence, numbering: best, evidence };
+};
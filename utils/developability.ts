@@ -0,0 +1,146 @@
+import { NONSTANDARD_RESIDUES } from './aminoAcidProperties';
+import { annotateSequence, AnnotatedSequence } from './annotation';
+import { netCharge } from './bioinformatics';
+
+export type FlagLevel = 'green' | 'amber' | 'red';
+
+export type DevelopabilityKey = 'cdrLength' | 'hydrophobicPatch' | 'positivePatch' | 'negativePatch' | 'chargeSymmetry';
+
+interface Guideline {
+    label: string;
+    median: number; // typical value among approved therapeutics
+    amber: number;
+    red: number;
+    heavyShare: number; // typical share of the Fv value carried by VH, for single-chain thresholds
+    lowerIsWorse?: boolean; // flagged when the value falls below the thresholds
+    pairOnly?: boolean; // needs both VH and VL
+}
+
+/**
+ * Guideline values in the spirit of the Therapeutic Antibody Profiler
+ * (Raybould et al., PNAS 2019): each metric is flagged amber or red when it
+ * falls outside the range seen in approved antibody therapeutics. TAP works on
+ * modelled structures; these are sequence-level proxies over the IMGT CDRs,
+ * so the thresholds are set on the same proxies and stated per Fv (VH + VL).
+ */
+export const TAP_GUIDELINES: Record<DevelopabilityKey, Guideline> = {
+    cdrLength: { label: 'Total CDR Length', median: 48, amber: 56, red: 61, heavyShare: 0.6 },
+    hydrophobicPatch: { label: 'CDR Hydrophobic Patch', median: 12, amber: 17, red: 21, heavyShare: 0.8 },
+    positivePatch: { label: 'CDR Positive Patch', median: 1, amber: 3, red: 5, heavyShare: 0.6 },
+    negativePatch: { label: 'CDR Negative Patch', median: 2, amber: 4, red: 6, heavyShare: 0.6 },
+    chargeSymmetry: { label: 'VH/VL Charge Symmetry', median: 4, amber: -6.3, red: -20.4, heavyShare: 1, lowerIsWorse: true, pairOnly: true },
+};
+
+export interface DevelopabilityMetric {
+    key: DevelopabilityKey;
+    label: string;
+    value: number;
+    level: FlagLevel;
+    score: number; // 0-100 for charts: 100 best, 60 at the amber threshold, 30 at red
+    baseline: number; // score of the therapeutic median on the same scale
+    guideline: string;
+}
+
+export interface DevelopabilityProfile {
+    metrics: DevelopabilityMetric[];
+    paired: boolean;
+    notes: string[];
+}
+
+// Aromatic and aliphatic side chains that form surface hydrophobic patches
+const PATCH_RESIDUES = 'AILMFVWYC';
+const PATCH_WEIGHT: Record<string, number> = { W: 1.5, F: 1.25, Y: 1, I: 1, L: 1, M: 1, V: 0.75, C: 0.75, A: 0.5 };
+const POSITIVE = 'KR';
+const NEGATIVE = 'DE';
+
+// Residues of the IMGT CDRs, one string per loop, with U and O read as their stand-ins (C, K)
+const cdrLoops = (annotation: AnnotatedSequence) => {
+    const imgt = annotation.scheme === 'IMGT' ? annotation : annotateSequence(annotation.sequence, 'IMGT');
+    return imgt.regions
+        .filter(r => r.type.startsWith('CDR'))
+        .map(r => r.seq.split('').map(aa => NONSTANDARD_RESIDUES[aa]?.scoredAs ?? aa).join(''));
+};
+
+/**
+ * Residues of a class that have another member of the class within `reach`
+ * positions in the same loop, summed with the given weight. Isolated residues
+ * do not form a patch.
+ */
+const patchScore = (loops: string[], members: string, reach: number, weight: (aa: string) => number) =>
+    loops.reduce((sum, loop) => {
+        let score = 0;
+        for (let i = 0; i < loop.length; i++) {
+            if (!members.includes(loop[i])) continue;
+            let partner = false;
+            for (let j = Math.max(0, i - reach); j <= Math.min(loop.length - 1, i + reach); j++) {
+                if (j !== i && members.includes(loop[j])) partner = true;
+            }
+            if (partner) score += weight(loop[i]);
+        }
+        return sum + score;
+    }, 0);
+
+const levelOf = (value: number, g: Guideline): FlagLevel => {
+    const beyond = (threshold: number) => (g.lowerIsWorse ? value <= threshold : value >= threshold);
+    return beyond(g.red) ? 'red' : beyond(g.amber) ? 'amber' : 'green';
+};
+
+// Piecewise-linear 0-100 score: the median scores 90, amber 60, red 30
+const scoreOf = (value: number, g: Guideline) => {
+    const sign = g.lowerIsWorse ? -1 : 1;
+    const v = sign * value;
+    const [median, amber, red] = [sign * g.median, sign * g.amber, sign * g.red];
+    let score: number;
+    if (v <= median) score = 90 + 10 * Math.min(1, (median - v) / Math.max(1, Math.abs(median)));
+    else if (v <= amber) score = 90 - 30 * (v - median) / (amber - median);
+    else if (v <= red) score = 60 - 30 * (v - amber) / (red - amber);
+    else score = 30 - 30 * Math.min(1, (v - red) / (red - amber));
+    return Math.max(0, Math.min(100, score));
+};
+
+const isHeavy = (a: AnnotatedSequence) => a.imgt?.chain !== 'K' && a.imgt?.chain !== 'L' && a.imgt?.chain !== 'A';
+
+/**
+ * Sequence-based developability profile of a V domain or VH/VL pair. Additive
+ * thresholds (lengths and patches) are scaled to the chain's share of an Fv
+ * when only one chain is given.
+ */
+export const profileDevelopability = (heavy: AnnotatedSequence, light: AnnotatedSequence | null = null): DevelopabilityProfile => {
+    const paired = light !== null;
+    const chains = paired ? [heavy, light] : [heavy];
+    const loops = chains.flatMap(cdrLoops);
+    const notes: string[] = [];
+    const heavyChain = isHeavy(heavy);
+    if (!paired) notes.push(`Single ${heavyChain ? 'heavy' : 'light'} chain: length and patch thresholds scaled to its typical share of an Fv; charge symmetry needs VH and VL.`);
+    if (chains.some(c => !c.chain)) notes.push('A chain could not be numbered; CDRs come from the length fallback.');
+
+    const values: Partial<Record<DevelopabilityKey, number>> = {
+        cdrLength: loops.reduce((sum, loop) => sum + loop.length, 0),
+        hydrophobicPatch: patchScore(loops, PATCH_RESIDUES, 2, aa => PATCH_WEIGHT[aa] ?? 0),
+        positivePatch: patchScore(loops, POSITIVE, 3, () => 1),
+        negativePatch: patchScore(loops, NEGATIVE, 3, () => 1),
+    };
+    // Sharma et al. 2014: product of VH and VL net charges at formulation pH 5.5
+    if (paired) values.chargeSymmetry = netCharge(heavy.sequence, 5.5) * netCharge(light.sequence, 5.5);
+
+    const metrics = (Object.keys(TAP_GUIDELINES) as DevelopabilityKey[]).flatMap(key => {
+        const value = values[key];
+        if (value === undefined) return [];
+        const base = TAP_GUIDELINES[key];
+        const scale = paired || base.pairOnly ? 1 : heavyChain ? base.heavyShare : 1 - base.heavyShare;
+        const g = { ...base, median: base.median * scale, amber: base.amber * scale, red: base.red * scale };
+        const comparison = g.lowerIsWorse ? '≤' : '≥';
+        return [{
+            key,
+            label: g.label,
+            value,
+            level: levelOf(value, g),
+            score: scoreOf(value, g),
+            baseline: scoreOf(g.median, g),
+            guideline: `amber ${comparison} ${+g.amber.toFixed(1)}, red ${comparison} ${+g.red.toFixed(1)}`,
+        }];
+    });
+
+    return { metrics, paired, notes };
+};
+
@@ -0,0 +1,22 @@
+// Saves generated text (TSV, HTML) through a temporary object URL
+export const downloadFile = (filename: string, content: string, type = 'text/plain') => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Opens a report in a new window and hands it to the browser's print dialog (Save as PDF)
+export const printHtml = (html: string) => {
+    const popup = window.open('', '_blank');
+    if (!popup) return false;
+    popup.document.open();
+    popup.document.write(html);
+    popup.document.close();
+    popup.focus();
+    // Give the written document a moment to lay out before the dialog opens
+    setTimeout(() => popup.print(), 250);
+    return true;
+};
@@ -0,0 +1,105 @@
+import { applyMutations, formatMutation } from './mutagenesis';
+
+export interface PointMutation {
+    index: number; // 0-based residue index
+    position: string; // scheme label, '' outside the numbered domain
+    wt: string;
+    mut: string;
+}
+
+export type VariantOrigin = 'seed' | 'mutation' | 'recombination';
+
+/** One member of the maturation population, with the links the lineage tree is drawn from. */
+export interface Variant {
+    id: string;
+    generation: number; // generation it was created in
+    parents: string[]; // one for a point mutant, two for a recombinant
+    origin: VariantOrigin;
+    sequence: string;
+    score: number;
+    mutations: PointMutation[]; // relative to the starting sequence, in position order
+    step: string; // what this variant added to its parent(s)
+    reason: string;
+}
+
+export interface SearchSettings {
+    beamWidth: number; // variants kept per generation
+    elitism: number; // best parents carried into the next generation unchanged
+    recombination: boolean;
+}
+
+export const describeMutations = (mutations: PointMutation[]) =>
+    mutations.length ? mutations.map(formatMutation).join('/') : 'Wild type';
+
+// Parent mutations with one substitution added; a reversion to the starting residue drops the entry
+export const addMutation = (mutations: PointMutation[], added: PointMutation, root: string): PointMutation[] => {
+    const rest = mutations.filter(m => m.index !== added.index);
+    const next = added.mut === root[added.index] ? rest : [...rest, { ...added, wt: root[added.index] }];
+    return next.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * The union of two variants' mutations applied to the starting sequence, or
+ * null when they disagree at a position or the union is just one of them.
+ */
+export const recombine = (a: Variant, b: Variant, root: string): { mutations: PointMutation[]; sequence: string } | null => {
+    const byIndex = new Map(a.mutations.map(m => [m.index, m]));
+    for (const m of b.mutations) {
+        const existing = byIndex.get(m.index);
+        if (existing && existing.mut !== m.mut) return null;
+        byIndex.set(m.index, m);
+    }
+    if (byIndex.size === a.mutations.length || byIndex.size === b.mutations.length) return null;
+    const mutations = [...byIndex.values()].sort((x, y) => x.index - y.index);
+    return { mutations, sequence: applyMutations(root, mutations) };
+};
+
+/**
+ * Pairs of beneficial variants to recombine, best-scoring pairs first, at most
+ * `limit` and never a sequence already in `seen`.
+ */
+export const recombinationPairs = (beneficial: Variant[], root: string, limit: number, seen: Set<string>) => {
+    const ranked = [...beneficial].sort((a, b) => b.score - a.score);
+    const pairs: { a: Variant; b: Variant; mutations: PointMutation[]; sequence: string }[] = [];
+    for (let i = 0; i < ranked.length && pairs.length < limit; i++) {
+        for (let j = i + 1; j < ranked.length && pairs.length < limit; j++) {
+            const child = recombine(ranked[i], ranked[j], root);
+            if (!child || seen.has(child.sequence)) continue;
+            seen.add(child.sequence);
+            pairs.push({ a: ranked[i], b: ranked[j], ...child });
+        }
+    }
+    return pairs;
+};
+
+/**
+ * The next beam: the best `elitism` parents are kept unconditionally and the
+ * remaining slots go to the best children whose sequences are not already in
+ * the beam. Returned best first.
+ */
+export const selectSurvivors = (parents: Variant[], children: Variant[], beamWidth: number, elitism = 0): Variant[] => {
+    const byScore = (list: Variant[]) => [...list].sort((a, b) => b.score - a.score);
+    const survivors = byScore(parents).slice(0, Math.min(elitism, beamWidth));
+    const seen = new Set(survivors.map(v => v.sequence));
+    for (const child of byScore(children)) {
+        if (survivors.length >= beamWidth) break;
+        if (seen.has(child.sequence)) continue;
+        seen.add(child.sequence);
+        survivors.push(child);
+    }
+    return byScore(survivors);
+};
+
+// The variant and its ancestors back to the seed, following every parent of a recombinant
+export const lineageOf = (id: string, variants: Variant[]): Set<string> => {
+    const byId = new Map(variants.map(v => [v.id, v]));
+    const lineage = new Set<string>();
+    const stack = [id];
+    while (stack.length) {
+        const current = byId.get(stack.pop()!);
+        if (!current || lineage.has(current.id)) continue;
+        lineage.add(current.id);
+        stack.push(...current.parents);
+    }
+    return lineage;
+};
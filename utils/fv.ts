@@ -0,0 +1,118 @@
+import { numberScheme, formatPosition, schemeSupportsChain, NumberingScheme } from './numbering';
+import { annotateSequence, AnnotatedSequence } from './annotation';
+import { segmentConstruct, describeLinker, Segment } from './segmentation';
+import { netCharge, isoelectricPoint } from './bioinformatics';
+
+export interface ScfvSplit {
+    domains: [string, string]; // N- and C-terminal V domains, in sequence order
+    linker: string;
+    linkerStart: number; // 0-based
+    linkerMotif: string | null; // e.g. '(G4S)3'
+}
+
+/**
+ * Detects a single-chain Fv: exactly two V domains in the segmented
+ * construct, joined by whatever lies between them. Returns null otherwise.
+ */
+export const scfvFromSegments = (segments: Segment[]): ScfvSplit | null => {
+    const domains = segments.filter(s => s.kind === 'vdomain');
+    if (domains.length !== 2) return null;
+    const linker = segments
+        .filter(s => s.start >= domains[0].end && s.end <= domains[1].start)
+        .map(s => s.seq)
+        .join('');
+    return {
+        domains: [domains[0].seq, domains[1].seq],
+        linker,
+        linkerStart: domains[0].end,
+        linkerMotif: describeLinker(linker),
+    };
+};
+
+export const splitScfv = (seq: string) => scfvFromSegments(segmentConstruct(seq));
+
+// VH/VL interface positions (Kabat) with the consensus residue, '' where the position is variable
+const INTERFACE_POSITIONS: { heavy: [string, string][]; light: [string, string][] } = {
+    heavy: [['35', ''], ['37', 'V'], ['39', 'Q'], ['44', 'G'], ['45', 'L'], ['47', 'W'], ['91', 'Y'], ['93', 'A'], ['95', ''], ['103', 'W']],
+    light: [['34', ''], ['36', 'Y'], ['38', 'Q'], ['43', ''], ['44', 'P'], ['46', 'L'], ['87', 'Y'], ['89', ''], ['91', ''], ['96', ''], ['98', 'F']],
+};
+
+export interface InterfaceResidue {
+    chain: 'heavy' | 'light';
+    position: string; // Kabat
+    aa: string;
+    consensus: string;
+}
+
+export interface FvAnalysis {
+    heavy: AnnotatedSequence;
+    light: AnnotatedSequence;
+    scfv: ScfvSplit | null;
+    totalCdrLength: number;
+    netCharge: number; // pH 7.4
+    pI: number;
+    interface: InterfaceResidue[];
+    notes: string[];
+}
+
+const interfaceResidues = (annotation: AnnotatedSequence, chain: 'heavy' | 'light'): InterfaceResidue[] => {
+    const imgt = annotation.imgt;
+    if (!imgt || !schemeSupportsChain('Kabat', imgt.chain)) return [];
+    const kabat = numberScheme(imgt, 'Kabat');
+    return INTERFACE_POSITIONS[chain].flatMap(([position, consensus]) => {
+        const r = kabat.find(k => formatPosition(k) === position);
+        return r ? [{ chain, position, aa: r.aa, consensus }] : [];
+    });
+};
+
+// Polypeptides of the Fv for charge calculations: an scFv is one chain with a single pair of termini
+export const fvChains = (fv: Pick<FvAnalysis, 'heavy' | 'light' | 'scfv'>) =>
+    fv.scfv ? [fv.scfv.domains[0] + fv.scfv.linker + fv.scfv.domains[1]] : [fv.heavy.sequence, fv.light.sequence];
+
+const isHeavy = (a: AnnotatedSequence) => a.imgt?.chain === 'H' || a.imgt?.chain === 'B';
+
+/**
+ * Numbers both chains of an Fv and reports pair-level metrics. The chains are
+ * reordered by detected type if they were entered the wrong way round.
+ */
+export const analyzeFv = (
+    first: string,
+    second: string,
+    scheme: NumberingScheme = 'IMGT',
+    scfv: ScfvSplit | null = null
+): FvAnalysis => {
+    const notes: string[] = [];
+    let heavy = annotateSequence(first, scheme);
+    let light = annotateSequence(second, scheme);
+    if (!isHeavy(heavy) && isHeavy(light)) {
+        [heavy, light] = [light, heavy];
+        if (!scfv) notes.push('Chains were entered light-first; swapped to VH/VL order.');
+    }
+    if (scfv) {
+        notes.push(`scFv in ${heavy.sequence === scfv.domains[0] ? 'VH-linker-VL' : 'VL-linker-VH'} orientation.`);
+    }
+    if (!heavy.chain || !light.chain) notes.push('One chain could not be numbered; Fv metrics are approximate.');
+    else if (isHeavy(heavy) === isHeavy(light)) notes.push('Both chains were classified as the same chain class.');
+
+    const chains = fvChains({ heavy, light, scfv });
+    const totalCdrLength = [heavy, light]
+        .flatMap(a => a.regions.filter(r => r.type.startsWith('CDR')))
+        .reduce((sum, r) => sum + r.seq.length, 0);
+
+    return {
+        heavy,
+        light,
+        scfv,
+        totalCdrLength,
+        netCharge: netCharge(chains),
+        pI: isoelectricPoint(chains),
+        interface: [...interfaceResidues(heavy, 'heavy'), ...interfaceResidues(light, 'light')],
+        notes,
+    };
+};
+
+// Fv analysis of a single scFv sequence, or null if it holds one V domain
+export const analyzeScfv = (seq: string, scheme: NumberingScheme = 'IMGT'): FvAnalysis | null => {
+    const split = splitScfv(seq);
+    return split ? analyzeFv(split.domains[0], split.domains[1], scheme, split) : null;
+};
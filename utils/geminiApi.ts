@@ -1,11 +1,19 @@
 // Gemini API utilities
 
-export const callGemini = async (prompt: string): Promise<string | null> => {
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export interface GeminiResponse {
+    text: string;
+    model: string; // model requested
+    modelVersion: string; // version reported by the API, for provenance
+}
+
+export const generateGemini = async (prompt: string): Promise<GeminiResponse | null> => {
     const apiKey = (process.env as any).API_KEY || "";
 
     try {
         const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`,
+            `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`,
             {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
@@ -21,9 +29,13 @@ export const callGemini = async (prompt: string): Promise<string | null> => {
         }
 
         const data = await response.json();
-        return data.candidates?.[0]?.content?.parts?.[0]?.text || null;
+        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+        return text ? { text, model: GEMINI_MODEL, modelVersion: data.modelVersion || GEMINI_MODEL } : null;
     } catch (error) {
         console.error("Gemini API Error:", error);
         return null;
     }
 };
+
+export const callGemini = async (prompt: string): Promise<string | null> =>
+    (await generateGemini(prompt))?.text ?? null;
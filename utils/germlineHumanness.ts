@@ -0,0 +1,135 @@
+import { ChainClass } from './chainType';
+import { GERMLINE_DB, GermlineGene, LOCUS_OF_CHAIN, Locus, NumberedV, numberV, numberedGermline, vIdentity } from './germlines';
+
+// Number of closest references averaged into the score; well below the smallest set (20 light-chain genes)
+export const HUMANNESS_TOP = 5;
+
+type ReferenceLocus = 'IGH' | 'IGK' | 'IGL';
+
+// Human V genes used alongside the germline database to fill out the reference set
+const EXTRA_REFERENCES: Record<ReferenceLocus, Record<string, string>> = {
+    IGH: {
+        'IGHV1-8': 'QVQLVQSGAEVKKPGASVKVSCKASGYTFTSYDINWVRQATGQGLEWMGWMNPNSGNTGYAQKFQGRVTMTRNTSISTAYMELSSLRSEDTAVYYCAR',
+        'IGHV1-24': 'QVQLVQSGAEVKKPGASVKVSCKVSGYTLTELSMHWVRQAPGKGLEWMGGFDPEDGETIYAQKFQGRVTMTEDTSTDTAYMELSSLRSEDTAVYYCAT',
+        'IGHV1-58': 'QMQLVQSGPEVKKPGTSVKVSCKASGFTFTSSAVQWVRQARGQRLEWIGWIVVGSGNTNYAQKFQERVTITRDMSTSTAYMELSSLRSEDTAVYYCAA',
+        'IGHV2-26': 'QVTLKESGPVLVKPTETLTLTCTVSGFSLSNARMGVSWIRQPPGKALEWLAHIFSNDEKSYSTSLKSRLTISKDTSKSQVVLTMTNMDPVDTATYYCARI',
+        'IGHV2-70': 'QVTLRESGPALVKPTQTLTLTCTFSGFSLSTSGMCVSWIRQPPGKALEWLALIDWDDDKYYSTSLKTRLTISKDTSKNQVVLTMTNMDPVDTATYYCARI',
+        'IGHV3-11': 'QVQLVESGGGLVKPGGSLRLSCAASGFTFSDYYMSWIRQAPGKGLEWVSYISSSGSTIYYADSVKGRFTISRDNAKNSLYLQMNSLRAEDTAVYYCAR',
+        'IGHV3-13': 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYDMHWVRQATGKGLEWVSAIGTAGDTYYPGSVKGRFTISRENAKNSLYLQMNSLRAGDTAVYYCAR',
+        'IGHV3-15': 'EVQLVESGGGLVKPGGSLRLSCAASGFTFSNAWMSWVRQAPGKGLEWVGRIKSKTDGGTTDYAAPVKGRFTISRDDSKNTLYLQMNSLKTEDTAVYYCTT',
+        'IGHV3-20': 'EVQLVESGGGVVRPGGSLRLSCAASGFTFDDYGMSWVRQAPGKGLEWVSGINWNGGSTGYADSVKGRFTISRDNAKNSLYLQMNSLRAEDTALYHCAR',
+        'IGHV3-43': 'EVQLVESGGVVVQPGGSLRLSCAASGFTFDDYTMHWVRQAPGKGLEWVSLISWDGGSTYYADSVKGRFTISRDNSKNSLYLQMNSLRTEDTALYYCAKD',
+        'IGHV3-49': 'EVQLVESGGGLVQPGRSLRLSCTASGFTFGDYAMSWFRQAPGKGLEWVGFIRSKAYGGTTEYAASVKGRFTISRDDSKSIAYLQMNSLKTEDTAVYYCTR',
+        'IGHV3-64': 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYAMHWVRQAPGKGLEYVSAISSNGGSTYYANSVKGRFTISRDNSKNTLYLQMGSLRAEDMAVYYCAR',
+        'IGHV3-66': 'EVQLVESGGGLVQPGGSLRLSCAASGFTVSSNYMSWVRQAPGKGLEWVSVIYSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCAR',
+        'IGHV3-72': 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSDHYMDWVRQAPGKGLEWVGRTRNKANSYTTEYAASVKGRFTISRDDSKNSLYLQMNSLKTEDTAVYYCAR',
+        'IGHV3-73': 'EVQLVESGGGLVQPGGSLKLSCAASGFTFSGSAMHWVRQASGKGLEWVGRIRSKANSYATAYAASVKGRFTISRDDSKNTAYLQMNSLKTEDTAVYYCTR',
+        'IGHV3-74': 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYWMHWVRQAPGKGLVWVSRINSDGSSTSYADSVKGRFTISRDNAKNTLYLQMNSLRAEDTAVYYCAR',
+        'IGHV4-4': 'QVQLQESGPGLVKPSGTLSLTCAVSGGSISSSNWWSWVRQPPGKGLEWIGEIYHSGSTNYNPSLKSRVTISVDKSKNQFSLKLSSVTAADTAVYYCAR',
+        'IGHV4-31': 'QVQLQESGPGLVKPSQTLSLTCTVSGGSISSGGYYWSWIRQHPGKGLEWIGYIYYSGSTYYNPSLKSRVTISVDTSKNQFSLKLSSVTAADTAVYYCAR',
+        'IGHV4-61': 'QVQLQESGPGLVKPSETLSLTCTVSGGSVSSGSYYWSWIRQPPGKGLEWIGYIYYSGSTNYNPSLKSRVTISVDTSKNQFSLKLSSVTAADTAVYYCAR',
+        'IGHV5-10-1': 'EVQLVQSGAEVKKPGESLRISCKGSGYSFTSYWISWVRQMPGKGLEWMGRIDPSDSYTNYSPSFQGHVTISADKSISTAYLQWSSLKASDTAMYYCAR',
+    },
+    IGK: {
+        'IGKV1-6': 'AIQMTQSPSSLSASVGDRVTITCRASQGIRNDLGWYQQKPGKAPKLLIYAASSLQSGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCLQDYNYP',
+        'IGKV1-8': 'AIRMTQSPSSFSASTGDRVTITCRASQGISSYLAWYQQKPGKAPKLLIYAASTLQSGVPSRFSGSGSGTDFTLTISCLQSEDFATYYCQQYYSYP',
+        'IGKV1-9': 'DIQLTQSPSFLSASVGDRVTITCRASQGISSYLAWYQQKPGKAPKLLIYAASTLQSGVPSRFSGSGSGTEFTLTISSLQPEDFATYYCQQLNSYP',
+        'IGKV1-12': 'DIQMTQSPSSVSASVGDRVTITCRASQGISSWLAWYQQKPGKAPKLLIYAASSLQSGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQANSFP',
+        'IGKV1-13': 'AIQLTQSPSSLSASVGDRVTITCRASQGISSALAWYQQKPGKAPKLLIYDASSLESGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQFNSYP',
+        'IGKV1-16': 'DIQMTQSPSSLSASVGDRVTITCRASQGISNYLAWFQQKPGKAPKSLIYAASSLQSGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQYNSYP',
+        'IGKV1-17': 'DIQMTQSPSSLSASVGDRVTITCRASQGIRNDLGWYQQKPGKAPKRLIYAASSLQSGVPSRFSGSGSGTEFTLTISSLQPEDFATYYCLQHNSYP',
+        'IGKV2-30': 'DVVMTQSPLSLPVTLGQPASISCRSSQSLVYSDGNTYLNWFQQRPGQSPRRLIYKVSNRDSGVPDRFSGSGSGTDFTLKISRVEAEDVGVYYCMQGTHWP',
+        'IGKV2-40': 'DIVMTQTPLSLPVTPGEPASISCRSSQSLLDSDDGNTYLDWYLQKPGQSPQLLIYTLSYRASGVPDRFSGSGSGTDFTLKISRVEAEDVGVYYCMQRIEFP',
+        'IGKV5-2': 'ETTLTQSPAFMSATPGDKVNISCKASQDIDDDMNWYQQKPGEAAIFIIQEATTLVPGIPPRFSGSGYGTDFTLTINNIESEDAAYYFCLQHDNFP',
+        'IGKV6-21': 'EIVLTQSPDFQSVTPKEKVTITCRASQSIGSSLHWYQQKPDQSPKLLIKYASQSFSGVPSRFSGSGSGTDFTLTINSLEAEDAATYYCHQSSSLP',
+    },
+    IGL: {
+        'IGLV1-36': 'QSVLTQPPSVSEAPRQRVTISCSGSSSNIGNNAVNWYQQLPGKAPKLLIYYDDLLPSGVSDRFSGSKSGTSASLAISGLQSEDEADYYCAAWDDSLNG',
+        'IGLV1-51': 'QSVLTQPPSVSAAPGQKVTISCSGSSSNIGNNYVSWYQQLPGTAPKLLIYDNNKRPSGIPDRFSGSKSGTSATLGITGLQTGDEADYYCGTWDSSLSA',
+        'IGLV2-8': 'QSALTQPPSASGSPGQSVTISCTGTSSDVGGYNYVSWYQQHPGKAPKLMIYEVSKRPSGVPDRFSGSKSGNTASLTVSGLQAEDEADYYCSSYAGSNNF',
+        'IGLV2-11': 'QSALTQPRSVSGSPGQSVTISCTGTSSDVGGYNYVSWYQQHPGKAPKLMIYDVSKRPSGVPDRFSGSKSGNTASLTISGLQAEDEADYYCCSYAGSYTF',
+        'IGLV2-18': 'QSALTQPPSVSGSPGQSVTISCTGTSSDVGSYNRVSWYQQPPGTAPKLMIYEVSNRPSGVPDRFSGSKSGNTASLTISGLQAEDEADYYCSLYTSSSTF',
+        'IGLV3-10': 'SYELTQPPSVSVSPGQTARITCSGDALPKKYAYWYQQKSGQAPVLVIYEDSKRPSGIPERFSGSSSGTMATLTISGAQVEDEADYYCYSTDSSGNH',
+        'IGLV3-19': 'SSELTQDPAVSVALGQTVRITCQGDSLRSYYASWYQQKPGQAPVLVIYGKNNRPSGIPDRFSGSSSGNTASLTITGAQAEDEADYYCNSRDSSGNH',
+        'IGLV3-25': 'SYELTQPPSVSVSPGQTARITCSGDALPKQYAYWYQQKPGQAPVLVIYKDSERPSGIPERFSGSSSGTTVTLTISGVQAEDEADYYCQSADSSGTY',
+        'IGLV4-69': 'QLVLTQSPSASASLGASVKLTCTLSSGHSSYAIAWHQQQPEKGPRYLMKLNSDGSHSKGDGIPDRFSGSSSGAERYLTISSLQSEDEADYYCQTWGTGI',
+        'IGLV5-45': 'QAVLTQPSSLSASPGASASLTCTLRSGINVGTYRIYWYQQKPGSPPQYLLRYKSDSDKQQGSGVPSRFSGSKDASANAGILLISGLQSEDEADYYCMIWHSSAS',
+        'IGLV7-43': 'QTVVTQEPSLTVSPGGTVTLTCASSTGAVTSGYYPNWFQQKPGQAPRALIYSTSNKHSWTPARFSGSLLGGKAALTLSGVQPEDEAEYYCLLYYGGAQ',
+        'IGLV8-61': 'QTVVTQEPSFSVSPGGTVTLTCGLSSGSVSTSYYPSWYQQTPGQAPRTLIYSTNTRSSGVPDRFSGSILGNKAALTITGAQADDESDYYCVLYMGSGI',
+    },
+};
+
+const REFERENCE_LOCI: ReferenceLocus[] = ['IGH', 'IGK', 'IGL'];
+
+// Human reference V regions per locus: the human germline V genes plus the extras above
+export const HUMANNESS_REFERENCES: Record<ReferenceLocus, GermlineGene[]> = Object.fromEntries(
+    REFERENCE_LOCI.map(locus => [locus, [
+        ...GERMLINE_DB.filter(g => g.species === 'human' && g.locus === locus && g.segment === 'V'),
+        ...Object.entries(EXTRA_REFERENCES[locus]).map(([name, seq]): GermlineGene => ({ name, species: 'human', locus, segment: 'V', seq })),
+    ]])
+) as Record<ReferenceLocus, GermlineGene[]>;
+
+export interface GermlineHumanness {
+    score: number; // mean V-region identity (%) to the closest references
+    percentile: number; // 0-100, share of the reference genes scoring at or below this
+    referenceMedian: number; // median score of the reference genes
+    references: number; // number of references averaged (HUMANNESS_TOP unless the set is smaller)
+    hits: { name: string; identity: number }[]; // closest references, best first
+}
+
+const topMean = (identities: number[]) => {
+    const top = [...identities].sort((a, b) => b - a).slice(0, HUMANNESS_TOP);
+    return top.reduce((sum, x) => sum + x, 0) / top.length;
+};
+
+const scoreAgainst = (query: NumberedV, locus: ReferenceLocus) =>
+    topMean(HUMANNESS_REFERENCES[locus].map(ref => vIdentity(query, numberedGermline(ref)).identity));
+
+// Every reference gene scored exactly as a query is, against the full set, computed once per locus
+const referenceScores = new Map<ReferenceLocus, number[]>();
+const referenceDistribution = (locus: ReferenceLocus) => {
+    if (!referenceScores.has(locus)) {
+        referenceScores.set(locus, HUMANNESS_REFERENCES[locus].map(ref => scoreAgainst(numberedGermline(ref), locus)));
+    }
+    return referenceScores.get(locus)!;
+};
+
+const isReferenceLocus = (locus: Locus): locus is ReferenceLocus => (REFERENCE_LOCI as Locus[]).includes(locus);
+
+/**
+ * Mean germline identity: the mean identity of the query to its closest
+ * HUMANNESS_TOP human germline V genes, compared on IMGT-numbered V-region
+ * positions. It follows the top-N averaging of T20 (Gao et al. 2013) but the
+ * references are germline genes, not a human repertoire, so it is not the
+ * published T20 and its values are not comparable to it. The percentile places
+ * the score among the reference genes themselves, each scored the same way.
+ * Returns null for TCR chains, which have no antibody reference set.
+ */
+export const calculateGermlineHumanness = (seq: string, chain: ChainClass = 'VH'): GermlineHumanness | null => {
+    const locus = LOCUS_OF_CHAIN[chain];
+    if (!isReferenceLocus(locus)) return null;
+    const query = numberV(seq, locus);
+    if (!query.size) return null;
+
+    const hits = HUMANNESS_REFERENCES[locus]
+        .map(ref => ({ name: ref.name, identity: vIdentity(query, numberedGermline(ref)).identity }))
+        .sort((a, b) => b.identity - a.identity);
+    const score = topMean(hits.map(h => h.identity));
+    const distribution = referenceDistribution(locus);
+    const percentile = (distribution.filter(x => x <= score).length / distribution.length) * 100;
+    const sorted = [...distribution].sort((a, b) => a - b);
+
+    return {
+        score,
+        percentile,
+        referenceMedian: sorted[Math.floor(sorted.length / 2)],
+        references: Math.min(HUMANNESS_TOP, hits.length),
+        hits: hits.slice(0, HUMANNESS_TOP),
+    };
+};
+
+// Score alone for an already-numbered V region, e.g. point mutants that share their parent's numbering
+export const germlineHumannessScore = (query: NumberedV, locus: Locus): number | null => {
+    if (!isReferenceLocus(locus) || !query.size) return null;
+    return scoreAgainst(query, locus);
+};
@@ -0,0 +1,352 @@
+import { ChainClass } from './chainType';
+import { numberImgt, formatPosition, ChainType, ImgtRegion, NumberedResidue } from './numbering';
+
+export type Species = 'human' | 'mouse';
+export type Locus = 'IGH' | 'IGK' | 'IGL' | 'TRA' | 'TRB';
+export type GeneSegment = 'V' | 'D' | 'J';
+
+export interface GermlineGene {
+    name: string;
+    species: Species;
+    locus: Locus;
+    segment: GeneSegment;
+    seq: string; // amino acids; V genes run to the start of CDR3, D genes in their usual reading frame
+}
+
+// Representative *01 alleles (amino-acid translations)
+const GENES: Record<Species, Partial<Record<Locus, Record<GeneSegment, Record<string, string>>>>> = {
+    human: {
+        IGH: {
+            V: {
+                'IGHV1-2': 'QVQLVQSGAEVKKPGASVKVSCKASGYTFTGYYMHWVRQAPGQGLEWMGWINPNSGGTNYAQKFQGRVTMTRDTSISTAYMELSRLRSDDTAVYYCAR',
+                'IGHV1-3': 'QVQLVQSGAEVKKPGASVKVSCKASGYTFTSYAMHWVRQAPGQRLEWMGWINAGNGNTKYSQKFQGRVTITRDTSASTAYMELSSLRSEDTAVYYCAR',
+                'IGHV1-18': 'QVQLVQSGAEVKKPGASVKVSCKASGYTFTSYGISWVRQAPGQGLEWMGWISAYNGNTNYAQKLQGRVTMTTDTSTSTAYMELRSLRSDDTAVYYCAR',
+                'IGHV1-46': 'QVQLVQSGAEVKKPGASVKVSCKASGYTFTSYYMHWVRQAPGQGLEWMGIINPSGGSTSYAQKFQGRVTMTRDTSTSTVYMELSSLRSEDTAVYYCAR',
+                'IGHV1-69': 'QVQLVQSGAEVKKPGSSVKVSCKASGGTFSSYAISWVRQAPGQGLEWMGGIIPIFGTANYAQKFQGRVTITADESTSTAYMELSSLRSEDTAVYYCAR',
+                'IGHV2-5': 'QITLKESGPTLVKPTQTLTLTCTFSGFSLSTSGVGVGWIRQPPGKALEWLALIYWDDDKRYSPSLKSRLTITKDTSKNQVVLTMTNMDPVDTATYYCAHR',
+                'IGHV3-7': 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYWMSWVRQAPGKGLEWVANIKQDGSEKYYVDSVKGRFTISRDNAKNSLYLQMNSLRAEDTAVYYCAR',
+                'IGHV3-9': 'EVQLVESGGGLVQPGRSLRLSCAASGFTFDDYAMHWVRQAPGKGLEWVSGISWNSGSIGYADSVKGRFTISRDNAKNSLYLQMNSLRAEDTALYYCAKD',
+                'IGHV3-21': 'EVQLVESGGGLVKPGGSLRLSCAASGFTFSSYSMNWVRQAPGKGLEWVSSISSSSSYIYYADSVKGRFTISRDNAKNSLYLQMNSLRAEDTAVYYCAR',
+                'IGHV3-23': 'EVQLLESGGGLVQPGGSLRLSCAASGFTFSSYAMSWVRQAPGKGLEWVSAISGSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCAK',
+                'IGHV3-30': 'QVQLVESGGGVVQPGRSLRLSCAASGFTFSSYAMHWVRQAPGKGLEWVAVISYDGSNKYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCAR',
+                'IGHV3-33': 'QVQLVESGGGVVQPGRSLRLSCAASGFTFSSYGMHWVRQAPGKGLEWVAVIWYDGSNKYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCAR',
+                'IGHV3-48': 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYSMNWVRQAPGKGLEWVSYISSSSSTIYYADSVKGRFTISRDNAKNSLYLQMNSLRAEDTAVYYCAR',
+                'IGHV3-53': 'EVQLVESGGGLIQPGGSLRLSCAASGFTVSSNYMSWVRQAPGKGLEWVSVIYSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCAR',
+                'IGHV4-34': 'QVQLQQWGAGLLKPSETLSLTCAVYGGSFSGYYWSWIRQPPGKGLEWIGEINHSGSTNYNPSLKSRVTISVDTSKNQFSLKLSSVTAADTAVYYCAR',
+                'IGHV4-39': 'QLQLQESGPGLVKPSETLSLTCTVSGGSISSSSYYWGWIRQPPGKGLEWIGSIYYSGSTYYNPSLKSRVTISVDTSKNQFSLKLSSVTAADTAVYYCAR',
+                'IGHV4-59': 'QVQLQESGPGLVKPSETLSLTCTVSGGSISSYYWSWIRQPPGKGLEWIGYIYYSGSTNYNPSLKSRVTISVDTSKNQFSLKLSSVTAADTAVYYCAR',
+                'IGHV5-51': 'EVQLVQSGAEVKKPGESLKISCKGSGYSFTSYWIGWVRQMPGKGLEWMGIIYPGDSDTRYSPSFQGQVTISADKSISTAYLQWSSLKASDTAMYYCAR',
+                'IGHV6-1': 'QVQLQQSGPGLVKPSQTLSLTCAISGDSVSSNSAAWNWIRQSPSRGLEWLGRTYYRSKWYNDYAVSVKSRITINPDTSKNQFSLQLNSVTPEDTAVYYCAR',
+                'IGHV7-4-1': 'QVQLVQSGSELKKPGASVKVSCKASGYTFTSYAMNWVRQAPGQGLEWMGWINTNTGNPTYAQGFTGRFVFSLDTSVSTAYLQISSLKAEDTAVYYCAR',
+            },
+            D: {
+                'IGHD2-2': 'GYCSSTSCYT',
+                'IGHD2-15': 'GYCSGGSCYS',
+                'IGHD3-3': 'YYDFWSGYYT',
+                'IGHD3-10': 'YYYGSGSYYN',
+                'IGHD3-22': 'YYYDSSGYYY',
+                'IGHD4-17': 'DYGDY',
+                'IGHD5-12': 'GYSGYDY',
+                'IGHD6-13': 'GYSSSWY',
+                'IGHD6-19': 'GYSSGWY',
+            },
+            J: {
+                'IGHJ1': 'AEYFQHWGQGTLVTVSS',
+                'IGHJ2': 'YWYFDLWGRGTLVTVSS',
+                'IGHJ3': 'DAFDIWGQGTMVTVSS',
+                'IGHJ4': 'YFDYWGQGTLVTVSS',
+                'IGHJ5': 'NWFDPWGQGTLVTVSS',
+                'IGHJ6': 'YYYYYGMDVWGQGTTVTVSS',
+            },
+        },
+        IGK: {
+            V: {
+                'IGKV1-5': 'DIQMTQSPSTLSASVGDRVTITCRASQSISSWLAWYQQKPGKAPKLLIYKASSLESGVPSRFSGSGSGTEFTLTISSLQPDDFATYYCQQYNSY',
+                'IGKV1-27': 'DIQMTQSPSSLSASVGDRVTITCRASQGISNYLAWYQQKPGKVPKLLIYAASTLQSGVPSRFSGSGSGTDFTLTISSLQPEDVATYYCQKYNSAP',
+                'IGKV1-33': 'DIQMTQSPSSLSASVGDRVTITCQASQDISNYLNWYQQKPGKAPKLLIYDASNLETGVPSRFSGSGSGTDFTFTISSLQPEDIATYYCQQYDNLP',
+                'IGKV1-39': 'DIQMTQSPSSLSASVGDRVTITCRASQSISSYLNWYQQKPGKAPKLLIYAASSLQSGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQSYSTP',
+                'IGKV2-28': 'DIVMTQSPLSLPVTPGEPASISCRSSQSLLHSNGYNYLDWYLQKPGQSPQLLIYLGSNRASGVPDRFSGSGSGTDFTLKISRVEAEDVGVYYCMQALQTP',
+                'IGKV3-11': 'EIVLTQSPATLSLSPGERATLSCRASQSVSSYLAWYQQKPGQAPRLLIYDASNRATGIPARFSGSGSGTDFTLTISSLEPEDFAVYYCQQRSNWP',
+                'IGKV3-15': 'EIVMTQSPATLSVSPGERATLSCRASQSVSSNLAWYQQKPGQAPRLLIYGASTRATGIPARFSGSGSGTEFTLTISSLQSEDFAVYYCQQYNNWP',
+                'IGKV3-20': 'EIVLTQSPGTLSLSPGERATLSCRASQSVSSSYLAWYQQKPGQAPRLLIYGASSRATGIPDRFSGSGSGTDFTLTISRLEPEDFAVYYCQQYGSSP',
+                'IGKV4-1': 'DIVMTQSPDSLAVSLGERATINCKSSQSVLYSSNNKNYLAWYQQKPGQPPKLLIYWASTRESGVPDRFSGSGSGTDFTLTISSLQAEDVAVYYCQQYYSTP',
+            },
+            D: {},
+            J: {
+                'IGKJ1': 'WTFGQGTKVEIK',
+                'IGKJ2': 'YTFGQGTKLEIK',
+                'IGKJ3': 'FTFGPGTKVDIK',
+                'IGKJ4': 'LTFGGGTKVEIK',
+                'IGKJ5': 'ITFGQGTRLEIK',
+            },
+        },
+        IGL: {
+            V: {
+                'IGLV1-40': 'QSVLTQPPSVSGAPGQRVTISCTGSSSNIGAGYDVHWYQQLPGTAPKLLIYGNSNRPSGVPDRFSGSKSGTSASLAITGLQAEDEADYYCQSYDSSLSG',
+                'IGLV1-44': 'QSVLTQPPSASGTPGQRVTISCSGSSSNIGSNTVNWYQQLPGTAPKLLIYSNNQRPSGVPDRFSGSKSGTSASLAISGLQSEDEADYYCAAWDDSLNG',
+                'IGLV1-47': 'QSVLTQPPSASGTPGQRVTISCSGSSSNIGSNYVYWYQQLPGTAPKLLIYRNNQRPSGVPDRFSGSKSGTSASLAISGLRSEDEADYYCAAWDDSLSG',
+                'IGLV2-14': 'QSALTQPASVSGSPGQSITISCTGTSSDVGGYNYVSWYQQHPGKAPKLMIYEVSNRPSGVSNRFSGSKSGNTASLTISGLQAEDEADYYCSSYTSSSTL',
+                'IGLV2-23': 'QSALTQPASVSGSPGQSITISCTGTSSDVGSYNLVSWYQQHPGKAPKLMIYEGSKRPSGVSNRFSGSKSGNTASLTISGLQAEDEADYYCCSYAGSSTF',
+                'IGLV3-1': 'SYELTQPPSVSVSPGQTASITCSGDKLGDKYACWYQQKPGQSPVLVIYQDSKRPSGIPERFSGSNSGNTATLTISGTQAMDEADYYCQAWDSSTA',
+                'IGLV3-21': 'SYVLTQPPSVSVAPGKTARITCGGNNIGSKSVHWYQQKPGQAPVLVIYYDSDRPSGIPERFSGSNSGNTATLTISRVEAGDEADYYCQVWDSSSDH',
+                'IGLV6-57': 'NFMLTQPHSVSESPGKTVTISCTRSSGSIASNYVQWYQQRPGSSPTTVIYEDNQRPSGVPDRFSGSIDSSSNSASLTISGLKTEDEADYYCQSYDSSN',
+            },
+            D: {},
+            J: {
+                'IGLJ1': 'YVFGTGTKVTVL',
+                'IGLJ2': 'VVFGGGTKLTVL',
+                'IGLJ3': 'WVFGGGTKLTVL',
+                'IGLJ7': 'AVFGGGTQLTVL',
+            },
+        },
+        TRA: {
+            V: { 'TRAV12-2': 'KEVEQNSGPLSVPEGAIASLNCTYSDRGSQSFFWYRQYSGKSPELIMSIYSNGDKEDGRFTAQLNKASQYVSLLIRDSQPSDSATYLCAV' },
+            D: {},
+            J: {
+                'TRAJ33': 'DSNYQLIWGAGTKLIIKP',
+                'TRAJ53': 'NSGGSNYKLTFGKGTLLTVNP',
+            },
+        },
+        TRB: {
+            V: { 'TRBV6-5': 'NAGVTQTPKFQVLKTGQSMTLQCAQDMNHEYMSWYRQDPGMGLRLIHYSVGAGITDQGEVPNGYNVSRSTTEDFPLRLLSAAPSQTSVYFCASS' },
+            D: {},
+            J: {
+                'TRBJ1-1': 'NTEAFFGQGTRLTVV',
+                'TRBJ2-1': 'SYNEQFFGPGTRLTVL',
+                'TRBJ2-7': 'SYEQYFGPGTRLTVT',
+            },
+        },
+    },
+    mouse: {
+        IGH: {
+            V: {
+                'IGHV1-18': 'EVQLQQSGPELVKPGASVKIPCKASGYTFTDYNMDWVKQSHGKSLEWIGDINPNNGGTIYNQKFKGKATLTVDKSSSTAYMELRSLTSEDTAVYYCAR',
+                'IGHV1-72': 'QVQLQQPGAELVKPGASVKLSCKASGYTFTSYWMHWVKQRPGRGLEWIGRIDPNSGGTKYNEKFKSKATLTVDKPSSTAYMQLSSLTSEDSAVYYCAR',
+                'IGHV2-2': 'QVQLKESGPGLVAPSQSLSITCTVSGFSLTSYGVHWVRQPPGKGLEWLGVIWAGGSTNYNSALMSRLSISKDNSKSQVFLKMNSLQTDDTAMYYCAR',
+                'IGHV3-6': 'DVQLQESGPGLVKPSQSLSLTCTVTGYSITSDYAWNWIRQFPGNKLEWMGYISYSGSTSYNPSLKSRISITRDTSKNQFFLQLNSVTTEDTATYYCAR',
+                'IGHV5-17': 'EVKLVESGGGLVKPGGSLKLSCAASGFTFSSYAMSWVRQTPEKRLEWVATISSGGSYTYYPDSVKGRFTISRDNAKNTLYLQMSSLRSEDTAMYYCAR',
+                'IGHV9-3': 'QIQLVQSGPELKKPGETVKISCKASGYTFTNYGMNWVKQAPGKGLKWMGWINTYTGEPTYADDFKGRFAFSLETSASTAYLQINNLKNEDTATYFCAR',
+            },
+            D: {
+                'IGHD1-1': 'YYYGSSY',
+                'IGHD2-4': 'YDYDG',
+            },
+            J: {
+                'IGHJ1': 'YWYFDVWGAGTTVTVSS',
+                'IGHJ2': 'YFDYWGQGTTLTVSS',
+                'IGHJ3': 'WFAYWGQGTLVTVSA',
+                'IGHJ4': 'YAMDYWGQGTSVTVSS',
+            },
+        },
+        IGK: {
+            V: {
+                'IGKV1-117': 'DVLMTQTPLSLPVSLGDQASISCRSSQSIVHSNGNTYLEWYLQKPGQSPKLLIYKVSNRFSGVPDRFSGSGSGTDFTLKISRVEAEDLGVYYCFQGSHVP',
+                'IGKV3-2': 'DIVLTQSPASLAVSLGQRATISCRASESVDNYGISFMNWFQQKPGQPPKLLIYAASNQGSGVPARFSGSGSGTDFSLNIHPMEEDDTAMYFCQQSKEVP',
+                'IGKV8-30': 'DIVMSQSPSSLAVSAGEKVTMSCKSSQSLLNSRTRKNYLAWYQQKPGQSPKLLIYWASTRESGVPDRFTGSGSGTDFTLTISSVQAEDLAVYYCKQSYNL',
+                'IGKV10-96': 'DIQMTQTTSSLSASLGDRVTISCRASQDISNYLNWYQQKPDGTVKLLIYYTSRLHSGVPSRFSGSGSGTDYSLTISNLEQEDIATYFCQQGNTLP',
+            },
+            D: {},
+            J: {
+                'IGKJ1': 'WTFGGGTKLEIK',
+                'IGKJ2': 'YTFGGGTKLEIK',
+                'IGKJ4': 'FTFGSGTKLEIK',
+                'IGKJ5': 'LTFGAGTKLELK',
+            },
+        },
+        IGL: {
+            V: { 'IGLV1': 'QAVVTQESALTTSPGETVTLTCRSSTGAVTTSNYANWVQEKPDHLFTGLIGGTNNRAPGVPARFSGSLIGDKAALTITGAQTEDEAIYFCALWYSNH' },
+            D: {},
+            J: {
+                'IGLJ1': 'WVFGGGTKLTVL',
+                'IGLJ2': 'YVFGGGTKVTVL',
+            },
+        },
+    },
+};
+
+export const GERMLINE_DB: GermlineGene[] = (Object.keys(GENES) as Species[]).flatMap(species =>
+    (Object.keys(GENES[species]) as Locus[]).flatMap(locus =>
+        (['V', 'D', 'J'] as GeneSegment[]).flatMap(segment =>
+            Object.entries(GENES[species][locus]?.[segment] ?? {}).map(([name, seq]) => ({ name, species, locus, segment, seq }))
+        )
+    )
+);
+
+export const LOCUS_OF_CHAIN: Record<ChainClass, Locus> = {
+    VH: 'IGH', VHH: 'IGH', VK: 'IGK', VL: 'IGL', TRA: 'TRA', TRB: 'TRB',
+};
+
+export interface GeneHit {
+    gene: GermlineGene;
+    identity: number; // percent; for V genes over the whole V region (FR1-FR3)
+    frameworkIdentity?: number; // V genes only, FR1-FR3 excluding CDRs
+}
+
+export interface GermlineAssignment {
+    species: Species;
+    locus: Locus;
+    v: GeneHit | null;
+    d: GeneHit | null;
+    j: GeneHit | null;
+    family: string | null; // e.g. 'IGHV3'
+}
+
+export const genesFor = (locus: Locus, segment: GeneSegment, species?: Species) =>
+    GERMLINE_DB.filter(g => g.locus === locus && g.segment === segment && (!species || g.species === species));
+
+const CHAIN_OF_LOCUS: Record<Locus, ChainType> = { IGH: 'H', IGK: 'K', IGL: 'L', TRA: 'A', TRB: 'B' };
+const V_REGIONS: ImgtRegion[] = ['FR1', 'CDR1', 'FR2', 'CDR2', 'FR3'];
+
+export type NumberedV = Map<string, NumberedResidue>; // IMGT label -> residue, V region only
+
+const numberResidues = (seq: string, locus: Locus) => numberImgt(seq, [CHAIN_OF_LOCUS[locus]])?.residues ?? [];
+
+const vRegion = (residues: NumberedResidue[]): NumberedV =>
+    new Map(residues.filter(r => V_REGIONS.includes(r.region)).map(r => [formatPosition(r), r]));
+
+export const numberV = (seq: string, locus: Locus): NumberedV => vRegion(numberResidues(seq, locus));
+
+// Germline V genes are numbered once, on first use
+const germlineNumbering = new Map<GermlineGene, NumberedV>();
+export const numberedGermline = (gene: GermlineGene) => {
+    if (!germlineNumbering.has(gene)) germlineNumbering.set(gene, numberV(gene.seq, gene.locus));
+    return germlineNumbering.get(gene)!;
+};
+
+/**
+ * V-region identity on IMGT-numbered positions, so a CDR insertion costs one
+ * position instead of shifting everything downstream. Positions occupied in
+ * either sequence count (a gap opposite a residue is a mismatch), except those
+ * outside the query's numbered span, which are truncation rather than mutation.
+ */
+export const vIdentity = (query: NumberedV, germline: NumberedV) => {
+    const numbered = [...query.values()];
+    if (!numbered.length) return { identity: 0, frameworkIdentity: 0 };
+    const first = numbered[0].position;
+    const last = numbered[numbered.length - 1].position;
+    const labels = [...new Set([...query.keys(), ...germline.keys()])];
+    const inSpan = (label: string) => {
+        const position = (query.get(label) ?? germline.get(label))!.position;
+        return position >= first && position <= last;
+    };
+
+    let matches = 0, total = 0, frMatches = 0, frTotal = 0;
+    for (const label of labels.filter(inSpan)) {
+        const q = query.get(label);
+        const g = germline.get(label);
+        const match = q !== undefined && g !== undefined && q.aa === g.aa;
+        const region = (q ?? g)!.region;
+        total++;
+        if (match) matches++;
+        if (region.startsWith('FR')) {
+            frTotal++;
+            if (match) frMatches++;
+        }
+    }
+    return {
+        identity: total ? (matches / total) * 100 : 0,
+        frameworkIdentity: frTotal ? (frMatches / frTotal) * 100 : 0,
+    };
+};
+
+export interface AlignedPosition {
+    label: string; // IMGT position with insertion code
+    region: ImgtRegion;
+    query: string; // '-' where only the other sequence is numbered
+    germline: string;
+}
+
+// Two label lists merged so each keeps its own order (IMGT CDR3 insertions are not sortable by label)
+export const mergeLabels = (a: string[], b: string[]) => {
+    const [inA, inB] = [new Set(a), new Set(b)];
+    const merged: string[] = [];
+    const seen = new Set<string>();
+    const take = (label: string) => {
+        merged.push(label);
+        seen.add(label);
+    };
+    let i = 0, j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && seen.has(a[i])) i++;
+        else if (j < b.length && seen.has(b[j])) j++;
+        else if (i < a.length && j < b.length && a[i] === b[j]) {
+            take(a[i++]);
+            j++;
+        } else if (j < b.length && !inA.has(b[j])) take(b[j++]);
+        else if (i < a.length && (!inB.has(a[i]) || j >= b.length)) take(a[i++]);
+        else if (i < a.length) take(a[i++]); // shared label met out of order
+        else take(b[j++]);
+    }
+    return merged;
+};
+
+// Query V region against a germline V gene, position by IMGT position
+export const germlineAlignment = (seq: string, gene: GermlineGene): AlignedPosition[] => {
+    const query = numberV(seq, gene.locus);
+    const germline = numberedGermline(gene);
+    return mergeLabels([...query.keys()], [...germline.keys()]).map(label => {
+        const q = query.get(label);
+        const g = germline.get(label);
+        return { label, region: (q ?? g)!.region, query: q?.aa ?? '-', germline: g?.aa ?? '-' };
+    });
+};
+
+// Best ungapped placement of a J gene within the C-terminal stretch of the query
+const jIdentity = (seq: string, j: string) => {
+    let best = 0;
+    for (let offset = Math.max(0, seq.length - 40); offset + j.length <= seq.length; offset++) {
+        let matches = 0;
+        for (let i = 0; i < j.length; i++) {
+            if (seq[offset + i] === j[i]) matches++;
+        }
+        best = Math.max(best, (matches / j.length) * 100);
+    }
+    return best;
+};
+
+// Shorter exact matches turn up by chance too often to call a D gene
+const D_MIN_MATCH = 5;
+
+// Longest exact D-gene fragment found in the CDR3, as a share of the D length
+const dIdentity = (cdr3: string, d: string) => {
+    for (let len = d.length; len >= D_MIN_MATCH; len--) {
+        for (let i = 0; i + len <= d.length; i++) {
+            if (cdr3.includes(d.slice(i, i + len))) return (len / d.length) * 100;
+        }
+    }
+    return 0;
+};
+
+const bestHit = (genes: GermlineGene[], score: (g: GermlineGene) => number | Omit<GeneHit, 'gene'>): GeneHit | null =>
+    genes.reduce<GeneHit | null>((best, gene) => {
+        const result = score(gene);
+        const hit = typeof result === 'number' ? { gene, identity: result } : { gene, ...result };
+        return !best || hit.identity > best.identity ? hit : best;
+    }, null);
+
+/**
+ * Assigns the closest V, J and (heavy chains only) D genes. Without a species
+ * the one whose best V gene scores highest is reported. D genes are searched
+ * in the CDR3 only, and no D is called without a match of D_MIN_MATCH residues.
+ */
+export const assignGermlines = (seq: string, chain: ChainClass = 'VH', species?: Species): GermlineAssignment => {
+    const locus = LOCUS_OF_CHAIN[chain];
+    const residues = numberResidues(seq, locus);
+    const query = vRegion(residues);
+    const cdr3 = residues.filter(r => r.region === 'CDR3').map(r => r.aa).join('');
+    const v = bestHit(genesFor(locus, 'V', species), g => vIdentity(query, numberedGermline(g)));
+    const assigned = v?.gene.species ?? species ?? 'human';
+    const j = bestHit(genesFor(locus, 'J', assigned), g => jIdentity(seq, g.seq));
+    const dHit = locus === 'IGH' ? bestHit(genesFor(locus, 'D', assigned), g => dIdentity(cdr3, g.seq)) : null;
+
+    return {
+        species: assigned,
+        locus,
+        v,
+        d: dHit && dHit.identity > 0 ? dHit : null,
+        j,
+        family: v ? v.gene.name.split('-')[0] : null,
+    };
+};
+
+export const formatGeneHit = (hit: GeneHit | null) => (hit ? `${hit.gene.name} (${hit.identity.toFixed(1)}%)` : '—');
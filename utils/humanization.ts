@@ -0,0 +1,151 @@
+import { AnnotatedSequence } from './annotation';
+import { ChainClass } from './chainType';
+import {
+    assignGermlines, genesFor, mergeLabels, numberedGermline, numberV, vIdentity, GermlineGene, LOCUS_OF_CHAIN
+} from './germlines';
+import { formatPosition, numberImgt, numberScheme, ChainType, ImgtRegion, NumberingScheme } from './numbering';
+
+export type GraftZone = 'Vernier' | 'Interface';
+
+// Framework residues that support CDR conformation (Foote & Winter 1992), Kabat numbering
+const VERNIER: Record<'heavy' | 'light', string[]> = {
+    heavy: ['2', '27', '28', '29', '30', '47', '48', '49', '67', '69', '71', '73', '78', '93', '94', '103'],
+    light: ['2', '4', '35', '36', '46', '47', '48', '49', '64', '66', '68', '69', '71', '98'],
+};
+
+// VH/VL packing residues (Chothia et al. 1985), Kabat numbering
+const INTERFACE: Record<'heavy' | 'light', string[]> = {
+    heavy: ['35', '37', '39', '44', '45', '47', '91', '93', '95', '103'],
+    light: ['34', '36', '38', '44', '46', '87', '89', '91', '96', '98'],
+};
+
+export interface AcceptorCandidate {
+    v: GermlineGene;
+    j: GermlineGene | null;
+    frameworkIdentity: number; // query FR1-FR3 against the V gene, percent
+    cdrLengthsMatch: boolean; // CDR1 and CDR2 as long as the query's (same canonical loop lengths likely)
+}
+
+export interface GraftPosition {
+    imgt: string; // IMGT label, the alignment key
+    kabat: string; // Kabat label of the query (or acceptor) residue, '' if none
+    label: string; // label in the graft scheme, for display
+    region: ImgtRegion; // region in the graft scheme
+    query: string; // '-' where the residue is absent
+    acceptor: string;
+    zones: GraftZone[];
+}
+
+export interface GraftDesign {
+    scheme: NumberingScheme;
+    chain: ChainClass;
+    acceptor: AcceptorCandidate;
+    positions: GraftPosition[];
+}
+
+const isLightChain = (chain: ChainType) => chain === 'K' || chain === 'L';
+
+interface NumberedSite {
+    aa: string;
+    kabat: string;
+    label: string;
+    region: ImgtRegion;
+}
+
+// IMGT label -> residue, with its Kabat label and its label and region in the graft scheme
+const numberSites = (seq: string, chain: ChainType, scheme: NumberingScheme) => {
+    const imgt = numberImgt(seq, [chain]);
+    const sites = new Map<string, NumberedSite>();
+    if (!imgt) return sites;
+    const kabat = new Map(numberScheme(imgt, 'Kabat').map(r => [r.seqIndex, formatPosition(r)]));
+    const inScheme = new Map(numberScheme(imgt, scheme).map(r => [r.seqIndex, r]));
+    for (const r of imgt.residues) {
+        const s = inScheme.get(r.seqIndex);
+        sites.set(formatPosition(r), {
+            aa: r.aa,
+            kabat: kabat.get(r.seqIndex) ?? '',
+            label: s ? formatPosition(s) : formatPosition(r),
+            region: s?.region ?? r.region,
+        });
+    }
+    return sites;
+};
+
+const cdrLength = (sites: Map<string, NumberedSite>, region: ImgtRegion) =>
+    [...sites.values()].filter(s => s.region === region).length;
+
+/**
+ * Human V genes of the query's locus ranked as graft acceptors by framework
+ * identity, each paired with the best human J gene for FR4.
+ */
+export const rankAcceptors = (query: AnnotatedSequence, limit = 8): AcceptorCandidate[] => {
+    if (!query.chain || !query.imgt) return [];
+    const chain = query.chain.type;
+    const locus = LOCUS_OF_CHAIN[chain];
+    const numbered = numberV(query.sequence, locus);
+    const j = assignGermlines(query.sequence, chain, 'human').j?.gene ?? null;
+    const queryLengths = ['CDR1', 'CDR2'].map(region => [...numbered.values()].filter(r => r.region === region).length);
+
+    return genesFor(locus, 'V', 'human')
+        .map(v => {
+            const germline = numberedGermline(v);
+            const lengths = ['CDR1', 'CDR2'].map(region => [...germline.values()].filter(r => r.region === region).length);
+            return {
+                v,
+                j,
+                frameworkIdentity: vIdentity(numbered, germline).frameworkIdentity,
+                cdrLengthsMatch: lengths.every((n, i) => n === queryLengths[i]),
+            };
+        })
+        .sort((a, b) => b.frameworkIdentity - a.frameworkIdentity)
+        .slice(0, limit);
+};
+
+/**
+ * CDR grafting onto a human acceptor: the query and acceptor (V + J) are
+ * aligned by IMGT position, CDRs are taken from the query and frameworks from
+ * the acceptor, with CDR boundaries following the chosen scheme (Kabat's
+ * longer CDRs are the classic choice). Framework positions are tagged when
+ * they fall in the Vernier zone or the VH/VL interface.
+ */
+export const designGraft = (query: AnnotatedSequence, acceptor: AcceptorCandidate, scheme: NumberingScheme = 'Kabat'): GraftDesign | null => {
+    if (!query.chain || !query.imgt) return null;
+    const chainType = query.imgt.chain;
+    const side = isLightChain(chainType) ? 'light' : 'heavy';
+    const querySites = numberSites(query.sequence, chainType, scheme);
+    const acceptorSites = numberSites(acceptor.v.seq + (acceptor.j?.seq ?? ''), chainType, scheme);
+    if (!acceptorSites.size) return null;
+
+    const positions = mergeLabels([...querySites.keys()], [...acceptorSites.keys()]).map(imgt => {
+        const q = querySites.get(imgt);
+        const a = acceptorSites.get(imgt);
+        const site = (q ?? a)!;
+        const kabat = q?.kabat || a?.kabat || '';
+        const zones: GraftZone[] = [];
+        if (kabat && VERNIER[side].includes(kabat)) zones.push('Vernier');
+        if (kabat && INTERFACE[side].includes(kabat)) zones.push('Interface');
+        return { imgt, kabat, label: site.label, region: site.region, query: q?.aa ?? '-', acceptor: a?.aa ?? '-', zones };
+    });
+    return { scheme, chain: query.chain.type, acceptor, positions };
+};
+
+export const isCdr = (p: GraftPosition) => p.region.startsWith('CDR');
+
+// Framework positions where the query differs from the acceptor; Vernier and interface first
+export const backMutationCandidates = (design: GraftDesign, includeAll = false) =>
+    design.positions
+        .filter(p => !isCdr(p) && p.query !== p.acceptor && p.query !== '-' && (includeAll || p.zones.length > 0))
+        .sort((a, b) => b.zones.length - a.zones.length);
+
+// Acceptor residue, position, donor residue: the usual notation for a back-mutation (e.g. R71A)
+export const formatBackMutation = (p: GraftPosition) => `${p.acceptor}${p.kabat || p.label}${p.query}`;
+
+/**
+ * Grafted sequence with the given back-mutations (IMGT labels) restoring the
+ * query residue. Positions absent from the chosen source are left out.
+ */
+export const graftSequence = (design: GraftDesign, backMutations: Set<string> = new Set()) =>
+    design.positions
+        .map(p => (isCdr(p) || backMutations.has(p.imgt) ? p.query : p.acceptor))
+        .filter(aa => aa !== '-')
+        .join('');
@@ -0,0 +1,124 @@
+import { ImgtRegion } from './numbering';
+import { AnnotatedSequence } from './annotation';
+
+export type LiabilityKind =
+    | 'deamidation'
+    | 'isomerization'
+    | 'oxidation'
+    | 'glycosylation'
+    | 'unpaired-cysteine'
+    | 'fragmentation'
+    | 'integrin-binding';
+
+export type Severity = 'high' | 'medium' | 'low';
+
+export interface Liability {
+    kind: LiabilityKind;
+    motif: string;
+    start: number; // 0-based, inclusive
+    end: number; // exclusive
+    region: ImgtRegion;
+    position: string; // scheme number of the first residue, '' outside the V domain
+    severity: Severity;
+    description: string;
+}
+
+export const LIABILITY_LABELS: Record<LiabilityKind, string> = {
+    'deamidation': 'Deamidation',
+    'isomerization': 'Asp isomerization',
+    'oxidation': 'Oxidation',
+    'glycosylation': 'N-glycosylation',
+    'unpaired-cysteine': 'Unpaired cysteine',
+    'fragmentation': 'Fragmentation',
+    'integrin-binding': 'Integrin binding',
+};
+
+export const SEVERITY_ORDER: Severity[] = ['high', 'medium', 'low'];
+
+// Motif table: CDR severity per matched motif. Patterns use a lookahead so
+// overlapping hits (e.g. NNG) are all reported.
+const MOTIFS: { kind: LiabilityKind; pattern: RegExp; severity: Record<string, Severity> | Severity; cdrOnly?: boolean }[] = [
+    { kind: 'deamidation', pattern: /(?=(N[GSTN]))/g, severity: { NG: 'high', NS: 'medium', NT: 'low', NN: 'low' } },
+    { kind: 'isomerization', pattern: /(?=(D[GSD]))/g, severity: { DG: 'high', DS: 'medium', DD: 'low' } },
+    // Met/Trp are scored only in the CDRs, the solvent-exposed part of the domain
+    { kind: 'oxidation', pattern: /(?=([MW]))/g, severity: { M: 'high', W: 'medium' }, cdrOnly: true },
+    { kind: 'glycosylation', pattern: /(?=(N[^P][ST]))/g, severity: 'high' },
+    { kind: 'fragmentation', pattern: /(?=(DP))/g, severity: 'medium' },
+    { kind: 'integrin-binding', pattern: /(?=(RGD|KGD|LDV))/g, severity: { RGD: 'high', KGD: 'medium', LDV: 'low' } },
+];
+
+const DESCRIPTIONS: Record<LiabilityKind, (motif: string) => string> = {
+    'deamidation': motif => `Asn deamidation hotspot (${motif})`,
+    'isomerization': motif => `Asp isomerization hotspot (${motif})`,
+    'oxidation': motif => `${motif === 'M' ? 'Met' : 'Trp'} oxidation in an exposed CDR`,
+    'glycosylation': motif => `N-linked glycosylation sequon (${motif})`,
+    'unpaired-cysteine': () => 'Cysteine without a disulfide partner',
+    'fragmentation': () => 'Acid-labile Asp-Pro bond',
+    'integrin-binding': motif => `Integrin-binding motif (${motif})`,
+};
+
+// Framework hits are mostly buried or germline-conserved, so they rank one level lower
+const downgrade = (severity: Severity): Severity => (severity === 'high' ? 'medium' : 'low');
+
+// IMGT positions of the conserved intradomain disulfide
+const CANONICAL_CYSTEINES = ['23', '104'];
+
+/**
+ * Cysteines outside the canonical C23-C104 pair. An odd total leaves at least
+ * one cysteine unpaired, so every non-canonical one (or the orphaned canonical
+ * one) is flagged high; an even number of extra cysteines may form their own
+ * bond (as in some CDR3s) and is flagged low.
+ */
+const cysteineLiabilities = (annotation: AnnotatedSequence): Omit<Liability, 'region' | 'position' | 'description'>[] => {
+    const imgtLabels = new Map(annotation.imgt?.residues.map(r => [r.seqIndex, `${r.position}${r.insertion}`]) ?? []);
+    const cysteines = annotation.residues.filter(r => r.aa === 'C');
+    const canonical = cysteines.filter(r => CANONICAL_CYSTEINES.includes(imgtLabels.get(r.index) ?? ''));
+    const extra = cysteines.filter(r => !canonical.includes(r));
+    const flagged = cysteines.length % 2 === 1
+        ? (extra.length ? extra : canonical).map(r => ({ r, severity: 'high' as Severity }))
+        : extra.map(r => ({ r, severity: 'low' as Severity }));
+    return flagged.map(({ r, severity }) => ({ kind: 'unpaired-cysteine', motif: 'C', start: r.index, end: r.index + 1, severity }));
+};
+
+/**
+ * Deterministic sequence-liability scan over an annotated V domain. Each hit
+ * is tagged with its region, scheme position and a severity that reflects the
+ * motif's intrinsic rate and whether it sits in a CDR.
+ */
+export const scanLiabilities = (annotation: AnnotatedSequence): Liability[] => {
+    const { sequence, residues } = annotation;
+    const hits: Omit<Liability, 'region' | 'position' | 'description'>[] = [];
+
+    for (const { kind, pattern, severity, cdrOnly } of MOTIFS) {
+        for (const match of sequence.matchAll(pattern)) {
+            const motif = match[1];
+            const start = match.index ?? 0;
+            const inCdr = residues[start]?.region.startsWith('CDR') ?? false;
+            if (cdrOnly && !inCdr) continue;
+            const base = typeof severity === 'string' ? severity : severity[motif];
+            hits.push({ kind, motif, start, end: start + motif.length, severity: inCdr ? base : downgrade(base) });
+        }
+    }
+    hits.push(...cysteineLiabilities(annotation));
+
+    return hits
+        .map(hit => ({
+            ...hit,
+            region: residues[hit.start]?.region ?? 'FR1',
+            position: residues[hit.start]?.position ?? '',
+            description: DESCRIPTIONS[hit.kind](hit.motif),
+        }))
+        .sort((a, b) => a.start - b.start || SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+};
+
+// Worst severity covering each residue index, for per-residue markers
+export const liabilityAt = (liabilities: Liability[]) => {
+    const worst = new Map<number, Liability>();
+    for (const l of liabilities) {
+        for (let i = l.start; i < l.end; i++) {
+            const current = worst.get(i);
+            if (!current || SEVERITY_ORDER.indexOf(l.severity) < SEVERITY_ORDER.indexOf(current.severity)) worst.set(i, l);
+        }
+    }
+    return worst;
+};
@@ -0,0 +1,105 @@
+import { BLOSUM62, CANONICAL_AMINO_ACIDS } from './aminoAcidProperties';
+import { annotateSequence } from './annotation';
+import { mergeLabels } from './germlines';
+import { ImgtRegion, NumberingScheme } from './numbering';
+
+export interface MsaEntry {
+    name: string;
+    sequence: string;
+    group: string; // source shown in the viewer: 'Query', 'Germline', 'Batch', 'Generation' ...
+}
+
+export interface MsaRow {
+    entry: MsaEntry;
+    residues: string[]; // one per column, '-' where the sequence has no residue at that position
+}
+
+export interface MsaColumn {
+    label: string; // scheme position with insertion code
+    region: ImgtRegion;
+    consensus: string; // most frequent residue, '-' when the column is mostly gaps
+    occupancy: number; // fraction of rows with a residue
+    conservation: number; // 0-1: information content over log2(20), scaled by occupancy
+    logo: { aa: string; bits: number }[]; // letter heights, smallest first
+}
+
+export interface MultipleAlignment {
+    scheme: NumberingScheme;
+    rows: MsaRow[];
+    columns: MsaColumn[];
+    unaligned: MsaEntry[]; // sequences with no V domain to number
+}
+
+const MAX_BITS = Math.log2(20);
+
+// Shannon information of the residues in a column (gaps excluded)
+const columnStats = (residues: string[]) => {
+    const counts = new Map<string, number>();
+    for (const aa of residues) {
+        if (aa !== '-') counts.set(aa, (counts.get(aa) ?? 0) + 1);
+    }
+    const filled = [...counts.values()].reduce((a, b) => a + b, 0);
+    const occupancy = residues.length ? filled / residues.length : 0;
+    let entropy = 0;
+    counts.forEach(n => {
+        const p = n / filled;
+        entropy -= p * Math.log2(p);
+    });
+    const information = filled ? MAX_BITS - entropy : 0;
+    const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    return {
+        occupancy,
+        consensus: ranked.length && occupancy >= 0.5 ? ranked[0][0] : '-',
+        conservation: (information / MAX_BITS) * occupancy,
+        logo: ranked.map(([aa, n]) => ({ aa, bits: (n / filled) * information * occupancy })).reverse(),
+    };
+};
+
+/**
+ * Multiple alignment of V domains by scheme numbering: each sequence is
+ * numbered on its own and residues sharing a position label share a column,
+ * so no pairwise alignment is needed and CDR insertions line up by their
+ * insertion codes. Residues outside the numbered domain are dropped.
+ */
+export const alignByNumbering = (entries: MsaEntry[], scheme: NumberingScheme = 'IMGT'): MultipleAlignment => {
+    const numbered: { entry: MsaEntry; byLabel: Map<string, { aa: string; region: ImgtRegion }> }[] = [];
+    const unaligned: MsaEntry[] = [];
+    for (const entry of entries) {
+        const annotation = annotateSequence(entry.sequence, scheme);
+        const residues = annotation.residues.filter(r => r.position);
+        if (!annotation.imgt || !residues.length) {
+            unaligned.push(entry);
+            continue;
+        }
+        numbered.push({ entry, byLabel: new Map(residues.map(r => [r.position, { aa: r.aa, region: r.region }])) });
+    }
+
+    const labels = numbered.reduce<string[]>((merged, n) => mergeLabels(merged, [...n.byLabel.keys()]), []);
+    const rows: MsaRow[] = numbered.map(n => ({ entry: n.entry, residues: labels.map(label => n.byLabel.get(label)?.aa ?? '-') }));
+    const columns: MsaColumn[] = labels.map((label, k) => ({
+        label,
+        region: numbered.find(n => n.byLabel.has(label))!.byLabel.get(label)!.region,
+        ...columnStats(rows.map(row => row.residues[k])),
+    }));
+    return { scheme, rows, columns, unaligned };
+};
+
+// Conservative substitution: positive BLOSUM62 score
+export const isSimilar = (a: string, b: string) =>
+    a === b || (CANONICAL_AMINO_ACIDS.includes(a) && CANONICAL_AMINO_ACIDS.includes(b) && BLOSUM62[a][b] > 0);
+
+// Percent identity and similarity of a row to a reference row over columns where both have a residue
+export const rowIdentity = (row: MsaRow, reference: MsaRow) => {
+    let shared = 0, identical = 0, similar = 0;
+    row.residues.forEach((aa, k) => {
+        const ref = reference.residues[k];
+        if (aa === '-' || ref === '-') return;
+        shared++;
+        if (aa === ref) identical++;
+        if (isSimilar(aa, ref)) similar++;
+    });
+    return {
+        identity: shared ? (identical / shared) * 100 : 0,
+        similarity: shared ? (similar / shared) * 100 : 0,
+    };
+};
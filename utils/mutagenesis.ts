@@ -0,0 +1,175 @@
+import { CANONICAL_AMINO_ACIDS, EXTENDED_AMINO_ACID_PROPERTIES } from './aminoAcidProperties';
+import { AnnotatedSequence } from './annotation';
+import { isoelectricPoint, netCharge } from './bioinformatics';
+import { genesFor, LOCUS_OF_CHAIN, numberedGermline, numberV, vIdentity, NumberedV } from './germlines';
+import { scanLiabilities, Liability } from './liabilities';
+import { ImgtRegion } from './numbering';
+import { germlineHumannessScore } from './germlineHumanness';
+
+export type ScanSet = 'CDRs' | 'CDR1' | 'CDR2' | 'CDR3' | 'Liability sites' | 'Whole domain';
+
+export const SCAN_SETS: ScanSet[] = ['CDRs', 'CDR1', 'CDR2', 'CDR3', 'Liability sites', 'Whole domain'];
+
+export interface MutationScore {
+    index: number; // 0-based residue index in the parent
+    position: string; // scheme label
+    region: ImgtRegion;
+    wt: string;
+    mut: string;
+    identityDelta: number; // closest human V identity, percentage points
+    meanIdentityDelta: number | null; // mean identity to the closest human germlines, percentage points
+    chargeDelta: number; // at pH 7.4, over all chains passed in
+    pIDelta: number;
+    hydropathyDelta: number; // Kyte-Doolittle, mutant minus wild-type residue
+    introduced: Liability[];
+    removed: Liability[];
+}
+
+export const formatMutation = (m: Pick<MutationScore, 'wt' | 'position' | 'index' | 'mut'>) => `${m.wt}${m.position || m.index + 1}${m.mut}`;
+
+// Numbered residues in the chosen set
+export const scanIndices = (annotation: AnnotatedSequence, set: ScanSet): number[] => {
+    const numbered = annotation.residues.filter(r => r.position);
+    switch (set) {
+        case 'CDRs': return numbered.filter(r => r.region.startsWith('CDR')).map(r => r.index);
+        case 'Whole domain': return numbered.map(r => r.index);
+        case 'Liability sites': {
+            const sites = new Set(scanLiabilities(annotation).flatMap(l => Array.from({ length: l.end - l.start }, (_, k) => l.start + k)));
+            return numbered.filter(r => sites.has(r.index)).map(r => r.index);
+        }
+        default: return numbered.filter(r => r.region === set).map(r => r.index);
+    }
+};
+
+// The parent annotation with one residue replaced; numbering is unchanged by a substitution
+const substitute = (annotation: AnnotatedSequence, index: number, aa: string): AnnotatedSequence => ({
+    ...annotation,
+    sequence: annotation.sequence.slice(0, index) + aa + annotation.sequence.slice(index + 1),
+    residues: annotation.residues.map(r => (r.index === index ? { ...r, aa } : r)),
+    regions: annotation.regions.map(r => (index >= r.start && index < r.end
+        ? { ...r, seq: r.seq.slice(0, index - r.start) + aa + r.seq.slice(index - r.start + 1) }
+        : r)),
+    imgt: annotation.imgt && {
+        ...annotation.imgt,
+        residues: annotation.imgt.residues.map(r => (r.seqIndex === index ? { ...r, aa } : r)),
+    },
+});
+
+const liabilityKey = (l: Liability) => `${l.kind}:${l.start}:${l.motif}`;
+
+/**
+ * In-silico saturation mutagenesis: every position in `indices` is mutated to
+ * each of the other 19 residues and scored with the local metrics as deltas
+ * from the parent. The parent is numbered once and each mutant reuses that
+ * numbering, which keeps a whole-domain scan (~2,000 variants) interactive.
+ * `partners` are other chains of the molecule, included in charge and pI.
+ */
+export const saturationMutagenesis = (annotation: AnnotatedSequence, indices: number[], partners: string[] = []): MutationScore[] => {
+    const chain = annotation.chain?.type ?? 'VH';
+    const locus = LOCUS_OF_CHAIN[chain];
+    const humanV = genesFor(locus, 'V', 'human').map(numberedGermline);
+    const parentNumbered = numberV(annotation.sequence, locus);
+    const labelOf = new Map([...parentNumbered.entries()].map(([label, r]) => [r.seqIndex, label]));
+
+    const humanIdentity = (numbered: NumberedV) =>
+        humanV.reduce((best, germline) => Math.max(best, vIdentity(numbered, germline).identity), 0);
+    const chargeOf = (seq: string) => netCharge([seq, ...partners]);
+    const pIOf = (seq: string) => isoelectricPoint([seq, ...partners]);
+
+    const parent = {
+        identity: humanIdentity(parentNumbered),
+        meanIdentity: germlineHumannessScore(parentNumbered, locus),
+        charge: chargeOf(annotation.sequence),
+        pI: pIOf(annotation.sequence),
+        liabilities: new Map(scanLiabilities(annotation).map(l => [liabilityKey(l), l])),
+    };
+
+    // Charge and pI depend only on composition, so each wt -> mut swap is computed once
+    const compositionDeltas = new Map<string, { chargeDelta: number; pIDelta: number }>();
+    const composition = (wt: string, mut: string, sequence: string) => {
+        const key = wt + mut;
+        if (!compositionDeltas.has(key)) {
+            compositionDeltas.set(key, { chargeDelta: chargeOf(sequence) - parent.charge, pIDelta: pIOf(sequence) - parent.pI });
+        }
+        return compositionDeltas.get(key)!;
+    };
+
+    const scores: MutationScore[] = [];
+    for (const index of indices) {
+        const residue = annotation.residues[index];
+        const label = labelOf.get(index);
+        for (const mut of CANONICAL_AMINO_ACIDS) {
+            if (mut === residue.aa) continue;
+            const variant = substitute(annotation, index, mut);
+            let identity = parent.identity;
+            let meanIdentity = parent.meanIdentity;
+            // Only V-region (FR1-FR3) substitutions move identity and mean identity
+            if (label) {
+                const numbered = new Map(parentNumbered);
+                numbered.set(label, { ...parentNumbered.get(label)!, aa: mut });
+                identity = humanIdentity(numbered);
+                meanIdentity = germlineHumannessScore(numbered, locus);
+            }
+            const liabilities = new Map(scanLiabilities(variant).map(l => [liabilityKey(l), l]));
+            scores.push({
+                index,
+                position: residue.position,
+                region: residue.region,
+                wt: residue.aa,
+                mut,
+                identityDelta: identity - parent.identity,
+                meanIdentityDelta: meanIdentity !== null && parent.meanIdentity !== null ? meanIdentity - parent.meanIdentity : null,
+                ...composition(residue.aa, mut, variant.sequence),
+                hydropathyDelta: (EXTENDED_AMINO_ACID_PROPERTIES[mut]?.hydro ?? 0) - (EXTENDED_AMINO_ACID_PROPERTIES[residue.aa]?.hydro ?? 0),
+                introduced: [...liabilities.entries()].filter(([key]) => !parent.liabilities.has(key)).map(([, l]) => l),
+                removed: [...parent.liabilities.entries()].filter(([key]) => !liabilities.has(key)).map(([, l]) => l),
+            });
+        }
+    }
+    return scores;
+};
+
+// The parent sequence carrying a set of substitutions
+export const applyMutations = (sequence: string, mutations: Pick<MutationScore, 'index' | 'mut'>[]) => {
+    const residues = sequence.split('');
+    for (const m of mutations) residues[m.index] = m.mut;
+    return residues.join('');
+};
+
+export interface SequenceChange {
+    index: number;
+    from: string; // '-' past the end of the shorter sequence
+    to: string;
+}
+
+// Position-by-position differences; a length change shows up as changes to or from '-'
+export const diffSequences = (before: string, after: string): SequenceChange[] => {
+    const changes: SequenceChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+        const from = before[i] ?? '-';
+        const to = after[i] ?? '-';
+        if (from !== to) changes.push({ index: i, from, to });
+    }
+    return changes;
+};
+
+export const formatChanges = (changes: SequenceChange[]) =>
+    changes.map(c => `${c.from}${c.index + 1}${c.to}`).join(', ');
+
+/**
+ * Why a proposed point mutation cannot be applied to `sequence`, or null if it
+ * can: the position must be in range, the wild-type residue must be the one
+ * actually there and the mutant a different canonical residue.
+ */
+export const checkPointMutation = (sequence: string, pos: unknown, wt: unknown, mut: unknown): string | null => {
+    if (typeof pos !== 'number' || !Number.isInteger(pos)) return `position ${JSON.stringify(pos)} is not an integer index`;
+    if (pos < 0 || pos >= sequence.length) return `position ${pos} is outside the ${sequence.length}-residue sequence`;
+    if (typeof mut !== 'string' || mut.length !== 1 || !CANONICAL_AMINO_ACIDS.includes(mut)) {
+        return `${mut} is not a canonical amino acid`;
+    }
+    if (wt !== sequence[pos]) {
+        return `wild type ${wt} does not match ${sequence[pos]} at index ${pos}`;
+    }
+    if (mut === wt) return `${wt}${pos + 1}${mut} is not a substitution`;
+    return null;
+};
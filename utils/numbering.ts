@@ -0,0 +1,549 @@
+import { BLOSUM62 } from './aminoAcidProperties';
+
+// IMGT V-domain numbering
+//
+// The query is aligned onto IMGT-gapped germline framework templates with a
+// profile-style dynamic programme: framework positions are scored against the
+// template residue (BLOSUM62 plus a bonus on the conserved anchors C23, W41,
+// C104, F/W118-G119-x-G121), while each CDR is a free-length segment. CDR
+// residues are then laid out on the IMGT positions with the standard gap and
+// insertion rules, so every residue receives a true IMGT number.
+
+// IMGT chain codes: Ig heavy, kappa, lambda; TCR alpha, beta
+export type ChainType = 'H' | 'K' | 'L' | 'A' | 'B';
+
+export const CHAIN_TYPES: ChainType[] = ['H', 'K', 'L', 'A', 'B'];
+
+export type ImgtRegion = 'FR1' | 'CDR1' | 'FR2' | 'CDR2' | 'FR3' | 'CDR3' | 'FR4';
+
+export interface NumberedResidue {
+    seqIndex: number;   // 0-based index into the query
+    aa: string;
+    position: number;   // IMGT position, 1-128
+    insertion: string;  // '' or insertion code (A, B, ...)
+    region: ImgtRegion;
+}
+
+export interface ImgtNumbering {
+    chain: ChainType;
+    residues: NumberedResidue[];
+    gaps: number[];     // IMGT positions 1-128 left unoccupied
+    start: number;      // seqIndex of the first numbered residue
+    end: number;        // seqIndex after the last numbered residue
+    score: number;      // alignment score normalised to the template self-score (0-1)
+}
+
+export const IMGT_REGIONS: { region: ImgtRegion; start: number; end: number }[] = [
+    { region: 'FR1', start: 1, end: 26 },
+    { region: 'CDR1', start: 27, end: 38 },
+    { region: 'FR2', start: 39, end: 55 },
+    { region: 'CDR2', start: 56, end: 65 },
+    { region: 'FR3', start: 66, end: 104 },
+    { region: 'CDR3', start: 105, end: 117 },
+    { region: 'FR4', start: 118, end: 128 },
+];
+
+export const imgtRegionOf = (position: number): ImgtRegion => {
+    const match = IMGT_REGIONS.find(r => position >= r.start && position <= r.end);
+    return match ? match.region : position < 1 ? 'FR1' : 'FR4';
+};
+
+export const formatPosition = (r: { position: number; insertion: string }) => `${r.position}${r.insertion}`;
+
+// IMGT-gapped framework templates (human IGHV3-23/IGHJ4, IGKV1-39/IGKJ1, IGLV1-44/IGLJ2,
+// TRAV12-2/TRAJ, TRBV6-5/TRBJ2-7)
+const IMGT_TEMPLATES: Record<ChainType, { fr1: string; fr2: string; fr3: string; fr4: string }> = {
+    H: {
+        fr1: 'EVQLLESGG.GLVQPGGSLRLSCAAS',
+        fr2: 'MSWVRQAPGKGLEWVSA',
+        fr3: 'YYADSVK.GRFTISRDNSKNTLYLQMNSLRAEDTAVYYC',
+        fr4: 'WGQGTLVTVSS',
+    },
+    K: {
+        fr1: 'DIQMTQSPSSLSASVGDRVTITCRAS',
+        fr2: 'LNWYQQKPGKAPKLLIY',
+        fr3: 'SLQSGVP.SRFSGSG..SGTDFTLTISSLQPEDFATYYC',
+        fr4: 'FGQGTKVEIK.',
+    },
+    L: {
+        fr1: 'QSVLTQPPS.ASGTPGQRVTISCSGS',
+        fr2: 'VNWYQQLPGTAPKLLIY',
+        fr3: 'QRPSGVP.DRFSGSK..SGTSASLAISGLQSEDEADYYC',
+        fr4: 'FGGGTKLTVL.',
+    },
+    A: {
+        fr1: 'KEVEQNS.GPLSVPEGAIASLNCTYS',
+        fr2: 'FFWYRQYSGKSPELIMS',
+        fr3: 'KEDGRFTA.QLNKAS....QYVSLLIRDSQPSDSATYLC',
+        fr4: 'FGKGTSLIVHP',
+    },
+    B: {
+        fr1: 'NAGVTQTPKFQVLKTGQSMTLQCAQD',
+        fr2: 'MSWYRQDPGMGLRLIHY',
+        fr3: 'TDQGEVPNGYNVSRS..TTEDFPLRLLSAAPSQTSVYFC',
+        fr4: 'FGPGTRLTVT.',
+    },
+};
+
+// Conserved structural anchors and the residues accepted at each
+const ANCHORS: Record<number, string> = { 23: 'C', 41: 'W', 104: 'C', 118: 'WF', 119: 'G', 121: 'G' };
+const ANCHOR_BONUS = 6;
+
+const FR_INSERTION = -10;
+const FR_DELETION = -7;
+const TERMINAL_DELETION = -1;   // truncated N-/C-termini are common in NGS reads
+const GAPPED_MATCH = -2;        // residue placed on a position the germline leaves empty
+
+interface CdrLayout {
+    slots: number[];
+    deletionOrder: number[];
+    insertAfter: number;
+    insertBefore?: number;
+}
+
+// IMGT loop layouts: gaps open at the tip of the loop, insertions grow symmetrically around it
+const IMGT_CDR_LAYOUTS: Record<'CDR1' | 'CDR2' | 'CDR3', CdrLayout & { typical: number; max: number }> = {
+    CDR1: {
+        slots: range(27, 38),
+        deletionOrder: [32, 33, 31, 34, 30, 35, 29, 36, 28, 37, 27, 38],
+        insertAfter: 32, insertBefore: 33,
+        typical: 8, max: 20,
+    },
+    CDR2: {
+        slots: range(56, 65),
+        deletionOrder: [61, 60, 62, 59, 63, 58, 64, 57, 65, 56],
+        insertAfter: 60, insertBefore: 61,
+        typical: 7, max: 20,
+    },
+    CDR3: {
+        slots: range(105, 117),
+        deletionOrder: [111, 112, 110, 113, 109, 114, 108, 115, 107, 116, 106, 117, 105],
+        insertAfter: 111, insertBefore: 112,
+        typical: 13, max: 45,
+    },
+};
+
+function range(from: number, to: number): number[] {
+    const out: number[] = [];
+    for (let i = from; i <= to; i++) out.push(i);
+    return out;
+}
+
+export const insertionCode = (n: number) =>
+    n < 26 ? String.fromCharCode(65 + n) : `${String.fromCharCode(65 + Math.floor(n / 26) - 1)}${String.fromCharCode(65 + (n % 26))}`;
+
+/**
+ * Places `count` loop residues onto numbered slots. Short loops lose slots in
+ * `deletionOrder`; long loops gain insertion codes after `insertAfter` (and,
+ * when given, before `insertBefore`, numbered in reverse so they read ...B, A, N).
+ */
+export const layoutLoop = (count: number, layout: CdrLayout): { position: number; insertion: string }[] => {
+    const { slots, deletionOrder, insertAfter, insertBefore } = layout;
+    if (count <= slots.length) {
+        const removed = new Set(deletionOrder.slice(0, slots.length - count));
+        // A deletion order shorter than the shortfall must not leave slots with no residue
+        return slots.filter(p => !removed.has(p)).slice(0, count).map(position => ({ position, insertion: '' }));
+    }
+
+    const extra = count - slots.length;
+    const leftCount = insertBefore === undefined ? extra : Math.ceil(extra / 2);
+    const rightCount = extra - leftCount;
+    const out: { position: number; insertion: string }[] = [];
+    for (const position of slots) {
+        if (position === insertBefore) {
+            for (let k = rightCount - 1; k >= 0; k--) out.push({ position, insertion: insertionCode(k) });
+        }
+        out.push({ position, insertion: '' });
+        if (position === insertAfter) {
+            for (let k = 0; k < leftCount; k++) out.push({ position, insertion: insertionCode(k) });
+        }
+    }
+    return out;
+};
+
+// --- Profile alignment ---
+
+type Token =
+    | { kind: 'fr'; position: number; residue: string }
+    | { kind: 'cdr'; region: 'CDR1' | 'CDR2' | 'CDR3'; typical: number; max: number };
+
+const buildTokens = (chain: ChainType): Token[] => {
+    const t = IMGT_TEMPLATES[chain];
+    const tokens: Token[] = [];
+    const pushFr = (seq: string, start: number) => {
+        seq.split('').forEach((residue, i) => tokens.push({ kind: 'fr', position: start + i, residue }));
+    };
+    const pushCdr = (region: 'CDR1' | 'CDR2' | 'CDR3') => {
+        const { typical, max } = IMGT_CDR_LAYOUTS[region];
+        tokens.push({ kind: 'cdr', region, typical, max });
+    };
+    pushFr(t.fr1, 1);
+    pushCdr('CDR1');
+    pushFr(t.fr2, 39);
+    pushCdr('CDR2');
+    pushFr(t.fr3, 66);
+    pushCdr('CDR3');
+    pushFr(t.fr4, 118);
+    return tokens;
+};
+
+const TOKENS = Object.fromEntries(CHAIN_TYPES.map(c => [c, buildTokens(c)])) as Record<ChainType, Token[]>;
+
+const matchScore = (aa: string, token: { position: number; residue: string }): number => {
+    if (token.residue === '.') return GAPPED_MATCH;
+    const anchor = ANCHORS[token.position];
+    if (anchor) {
+        return anchor.includes(aa) ? BLOSUM62[token.residue][token.residue] + ANCHOR_BONUS : -ANCHOR_BONUS;
+    }
+    return BLOSUM62[aa]?.[token.residue] ?? -1;
+};
+
+const deletionScore = (token: { position: number; residue: string }): number => {
+    if (token.residue === '.') return 0;
+    if (token.position <= 4 || token.position >= 123) return TERMINAL_DELETION;
+    return FR_DELETION;
+};
+
+const cdrLengthScore = (length: number, typical: number) => -0.5 * Math.abs(length - typical);
+
+const selfScore = (tokens: Token[]): number =>
+    tokens.reduce((acc, t) => (t.kind === 'fr' && t.residue !== '.' ? acc + matchScore(t.residue, t) : acc), 0);
+
+const SELF_SCORES = Object.fromEntries(CHAIN_TYPES.map(c => [c, selfScore(TOKENS[c])])) as Record<ChainType, number>;
+
+const MOVE_START = 0, MOVE_MATCH = 1, MOVE_DELETE = 2, MOVE_INSERT = 3, MOVE_CDR = 4;
+
+interface Alignment {
+    raw: number;
+    // per token: residue indices consumed (fr: 0 or 1 residue, cdr: loop residues)
+    assigned: number[][];
+    // per fr token: residue indices inserted after it
+    inserted: number[][];
+}
+
+const alignToTemplate = (seq: string, tokens: Token[]): Alignment => {
+    const n = seq.length;
+    const T = tokens.length;
+    const width = n + 1;
+    const score = new Float64Array((T + 1) * width).fill(-Infinity);
+    const move = new Int8Array((T + 1) * width);
+    const from = new Int32Array((T + 1) * width);
+
+    // Leading residues (signal peptides, tags) are skipped for free
+    for (let i = 0; i <= n; i++) {
+        score[i] = 0;
+        move[i] = MOVE_START;
+    }
+
+    for (let t = 0; t < T; t++) {
+        const tok = tokens[t];
+        const prev = t * width;
+        const cur = (t + 1) * width;
+        for (let i = 0; i <= n; i++) {
+            let best = -Infinity, bestMove = MOVE_DELETE, bestFrom = i;
+            if (tok.kind === 'fr') {
+                const del = score[prev + i] + deletionScore(tok);
+                if (del > best) { best = del; bestMove = MOVE_DELETE; bestFrom = i; }
+                if (i > 0) {
+                    const m = score[prev + i - 1] + matchScore(seq[i - 1], tok);
+                    if (m > best) { best = m; bestMove = MOVE_MATCH; bestFrom = i - 1; }
+                    const ins = score[cur + i - 1] + FR_INSERTION;
+                    if (t + 1 < T && ins > best) { best = ins; bestMove = MOVE_INSERT; bestFrom = i - 1; }
+                }
+            } else {
+                for (let len = 0; len <= Math.min(tok.max, i); len++) {
+                    const c = score[prev + i - len] + cdrLengthScore(len, tok.typical);
+                    if (c > best) { best = c; bestMove = MOVE_CDR; bestFrom = i - len; }
+                }
+            }
+            score[cur + i] = best;
+            move[cur + i] = bestMove;
+            from[cur + i] = bestFrom;
+        }
+    }
+
+    // Trailing residues (constant region, tags) are also free
+    let endI = 0;
+    for (let i = 0; i <= n; i++) {
+        if (score[T * width + i] > score[T * width + endI]) endI = i;
+    }
+
+    const assigned: number[][] = tokens.map(() => []);
+    const inserted: number[][] = tokens.map(() => []);
+    let t = T, i = endI;
+    while (t > 0) {
+        const idx = t * width + i;
+        const m = move[idx];
+        const f = from[idx];
+        if (m === MOVE_MATCH) {
+            assigned[t - 1].push(i - 1);
+            t--;
+        } else if (m === MOVE_DELETE) {
+            t--;
+        } else if (m === MOVE_INSERT) {
+            inserted[t - 1].unshift(i - 1);
+        } else if (m === MOVE_CDR) {
+            for (let k = f; k < i; k++) assigned[t - 1].push(k);
+            t--;
+        }
+        i = f;
+    }
+
+    return { raw: score[T * width + endI], assigned, inserted };
+};
+
+const buildNumbering = (seq: string, chain: ChainType, alignment: Alignment): ImgtNumbering => {
+    const tokens = TOKENS[chain];
+    const residues: NumberedResidue[] = [];
+
+    tokens.forEach((tok, t) => {
+        if (tok.kind === 'fr') {
+            alignment.assigned[t].forEach(seqIndex => residues.push({
+                seqIndex, aa: seq[seqIndex], position: tok.position, insertion: '', region: imgtRegionOf(tok.position),
+            }));
+            alignment.inserted[t].forEach((seqIndex, k) => residues.push({
+                seqIndex, aa: seq[seqIndex], position: tok.position, insertion: insertionCode(k), region: imgtRegionOf(tok.position),
+            }));
+        } else {
+            const loop = alignment.assigned[t];
+            layoutLoop(loop.length, IMGT_CDR_LAYOUTS[tok.region]).forEach((slot, k) => residues.push({
+                seqIndex: loop[k], aa: seq[loop[k]], ...slot, region: tok.region,
+            }));
+        }
+    });
+
+    const occupied = new Set(residues.filter(r => !r.insertion).map(r => r.position));
+    return {
+        chain,
+        residues,
+        gaps: range(1, 128).filter(p => !occupied.has(p)),
+        start: residues.length ? residues[0].seqIndex : 0,
+        end: residues.length ? residues[residues.length - 1].seqIndex + 1 : 0,
+        score: Math.max(0, Math.min(1, alignment.raw / SELF_SCORES[chain])),
+    };
+};
+
+// Normalised framework score below which a sequence is not treated as a V domain
+export const MIN_ALIGNMENT_SCORE = 0.3;
+
+// Numbers the sequence against each chain template, best alignment first
+export const numberAllChains = (seq: string, chains: ChainType[] = CHAIN_TYPES): ImgtNumbering[] =>
+    seq
+        ? chains
+            .map(chain => buildNumbering(seq, chain, alignToTemplate(seq, TOKENS[chain])))
+            .filter(n => n.residues.length > 0)
+            .sort((a, b) => b.score - a.score)
+        : [];
+
+/**
+ * Assigns IMGT numbers to a V-domain sequence. The query is aligned against
+ * every chain template and the best-scoring chain is kept.
+ * Returns null if no template aligns.
+ */
+export const numberImgt = (seq: string, chains: ChainType[] = CHAIN_TYPES): ImgtNumbering | null =>
+    numberAllChains(seq, chains)[0] ?? null;
+
+// Looks up the residue at an IMGT position (e.g. "23", "111A")
+export const residueAt = (numbering: ImgtNumbering, label: string): NumberedResidue | undefined =>
+    numbering.residues.find(r => formatPosition(r) === label.toUpperCase());
+
+// --- Kabat / Chothia / Martin / North / AHo ---
+//
+// All schemes are derived from the IMGT numbering. Framework blocks map
+// position-for-position; the variable blocks (CDRs and the H82 region) are
+// re-laid out on the scheme's slots with its conventional insertion points:
+// H35A/B (Kabat) or H31A/B (Chothia), H52A-C, H82A-C, H100A-K, L27A-F
+// (Kabat) or L30A-F (Chothia), L95A-F. Martin (enhanced Chothia) moves the
+// framework insertions to their structural positions (H8, H72), North keeps
+// Chothia numbering with cluster-based CDR definitions, and AHo lays both
+// chains on one fixed 149-position frame with gaps centred on each loop.
+
+export type NumberingScheme = 'IMGT' | 'Kabat' | 'Chothia' | 'Martin' | 'North' | 'AHo';
+
+export const NUMBERING_SCHEMES: NumberingScheme[] = ['IMGT', 'Kabat', 'Chothia', 'Martin', 'North', 'AHo'];
+
+interface SchemeMap {
+    fixed: { from: number; to: number; start: number }[];   // IMGT [from, to] -> scheme start..
+    loops: ({ from: number; to: number } & CdrLayout)[];     // IMGT [from, to] re-laid out; take precedence over fixed
+}
+
+const HEAVY_CDR1_DELETIONS = [31, 30, 32, 29, 33, 28, 34, 27];
+const HEAVY_CDR3_DELETIONS = [100, 99, 98, 97, 96, 101, 95, 102];
+
+// Loop positions ordered from the tip outwards, used where gaps are centred (AHo)
+const tipFirst = (from: number, to: number): number[] => {
+    const mid = (from + to) / 2;
+    return range(from, to).sort((a, b) => Math.abs(a - mid) - Math.abs(b - mid) || b - a);
+};
+
+interface HeavyOptions {
+    cdr1InsertAfter: number;
+    fr1InsertAfter?: number;   // extra FR1 residue (occupied IMGT 10)
+    fr3InsertAfter?: number;   // extra FR3 residue (occupied IMGT 73)
+}
+
+const kabatHeavy = ({ cdr1InsertAfter, fr1InsertAfter, fr3InsertAfter }: HeavyOptions): SchemeMap => ({
+    fixed: [
+        { from: 1, to: 9, start: 1 },
+        { from: 11, to: 26, start: 10 },
+        { from: 41, to: 55, start: 36 },
+        { from: 66, to: 72, start: 58 },
+        { from: 74, to: 90, start: 65 },
+        { from: 95, to: 106, start: 83 },
+        { from: 118, to: 128, start: 103 },
+    ],
+    loops: [
+        ...(fr1InsertAfter ? [{ from: 6, to: 11, slots: range(6, 10), deletionOrder: [10, 9, 8, 7, 6], insertAfter: fr1InsertAfter }] : []),
+        { from: 27, to: 40, slots: range(26, 35), deletionOrder: HEAVY_CDR1_DELETIONS, insertAfter: cdr1InsertAfter },
+        { from: 56, to: 65, slots: range(51, 57), deletionOrder: [52, 53, 51, 54, 55], insertAfter: 52 },
+        ...(fr3InsertAfter ? [{ from: 66, to: 81, slots: range(58, 72), deletionOrder: range(58, 72).reverse(), insertAfter: fr3InsertAfter }] : []),
+        { from: 91, to: 94, slots: [82], deletionOrder: [82], insertAfter: 82 },
+        { from: 107, to: 117, slots: range(95, 102), deletionOrder: HEAVY_CDR3_DELETIONS, insertAfter: 100 },
+    ],
+});
+
+const kabatLight = (cdr1InsertAfter: number): SchemeMap => ({
+    fixed: [
+        { from: 1, to: 26, start: 1 },
+        { from: 41, to: 55, start: 35 },
+        { from: 66, to: 72, start: 53 },
+        { from: 74, to: 80, start: 60 },
+        { from: 83, to: 106, start: 67 },
+        { from: 118, to: 128, start: 98 },
+    ],
+    loops: [
+        { from: 27, to: 40, slots: range(27, 34), deletionOrder: [28, 29, 30, 31, 32, 27, 33, 34], insertAfter: cdr1InsertAfter },
+        { from: 56, to: 65, slots: [50, 51, 52], deletionOrder: [51, 50, 52], insertAfter: 51 },
+        { from: 107, to: 117, slots: range(91, 97), deletionOrder: [95, 94, 93, 92, 91, 96, 97], insertAfter: 95 },
+    ],
+});
+
+const AHO: SchemeMap = {
+    fixed: [
+        { from: 1, to: 23, start: 1 },
+        { from: 41, to: 55, start: 43 },
+        { from: 76, to: 106, start: 78 },
+        { from: 118, to: 128, start: 138 },
+    ],
+    loops: [
+        { from: 24, to: 40, slots: range(24, 42), deletionOrder: tipFirst(24, 42), insertAfter: 32, insertBefore: 33 },
+        { from: 56, to: 75, slots: range(58, 77), deletionOrder: tipFirst(58, 77), insertAfter: 67, insertBefore: 68 },
+        { from: 107, to: 117, slots: range(109, 137), deletionOrder: tipFirst(109, 137), insertAfter: 123, insertBefore: 124 },
+    ],
+};
+
+const CHOTHIA = { heavy: kabatHeavy({ cdr1InsertAfter: 31, fr1InsertAfter: 6 }), light: kabatLight(30) };
+
+const SCHEME_MAPS: Record<Exclude<NumberingScheme, 'IMGT'>, { heavy: SchemeMap; light: SchemeMap }> = {
+    Kabat: { heavy: kabatHeavy({ cdr1InsertAfter: 35 }), light: kabatLight(27) },
+    Chothia: CHOTHIA,
+    Martin: { heavy: kabatHeavy({ cdr1InsertAfter: 31, fr1InsertAfter: 8, fr3InsertAfter: 72 }), light: kabatLight(30) },
+    North: CHOTHIA,
+    AHo: { heavy: AHO, light: AHO },
+};
+
+// CDR1, CDR2, CDR3 ranges in each scheme's own numbering (insertions follow their base position)
+export const SCHEME_CDRS: Record<NumberingScheme, { heavy: [number, number][]; light: [number, number][] }> = {
+    IMGT: { heavy: [[27, 38], [56, 65], [105, 117]], light: [[27, 38], [56, 65], [105, 117]] },
+    Kabat: { heavy: [[31, 35], [50, 65], [95, 102]], light: [[24, 34], [50, 56], [89, 97]] },
+    Chothia: { heavy: [[26, 32], [52, 56], [95, 102]], light: [[24, 34], [50, 56], [89, 97]] },
+    Martin: { heavy: [[26, 32], [52, 56], [95, 102]], light: [[24, 34], [50, 56], [89, 97]] },
+    North: { heavy: [[23, 35], [50, 58], [93, 102]], light: [[24, 34], [49, 56], [89, 97]] },
+    AHo: { heavy: [[25, 40], [58, 77], [109, 137]], light: [[25, 40], [58, 77], [109, 137]] },
+};
+
+// TCR alpha is numbered like a light chain, TCR beta like a heavy chain
+const chainClass = (chain: ChainType) => (chain === 'H' || chain === 'B' ? 'heavy' : 'light');
+
+// Kabat-derived schemes are only defined for antibodies; TCRs use IMGT or AHo
+export const schemeSupportsChain = (scheme: NumberingScheme, chain: ChainType) =>
+    scheme === 'IMGT' || scheme === 'AHo' || chain === 'H' || chain === 'K' || chain === 'L';
+
+export const schemeRegionOf = (scheme: NumberingScheme, chain: ChainType, position: number): ImgtRegion => {
+    const [cdr1, cdr2, cdr3] = SCHEME_CDRS[scheme][chainClass(chain)];
+    if (position < cdr1[0]) return 'FR1';
+    if (position <= cdr1[1]) return 'CDR1';
+    if (position < cdr2[0]) return 'FR2';
+    if (position <= cdr2[1]) return 'CDR2';
+    if (position < cdr3[0]) return 'FR3';
+    if (position <= cdr3[1]) return 'CDR3';
+    return 'FR4';
+};
+
+const nextInsertion = (prev: NumberedResidue) =>
+    prev.insertion ? insertionCode(prev.insertion.charCodeAt(prev.insertion.length - 1) - 65 + 1) : 'A';
+
+/**
+ * Renumbers an IMGT numbering in another scheme. Regions follow that scheme's
+ * CDR definitions. Residues with no scheme equivalent (e.g. an occupied IMGT 73
+ * in a heavy chain) take an insertion code on the preceding position.
+ * Schemes that do not cover the chain (see schemeSupportsChain) return IMGT.
+ */
+export const numberScheme = (imgt: ImgtNumbering, scheme: NumberingScheme): NumberedResidue[] => {
+    if (scheme === 'IMGT' || !schemeSupportsChain(scheme, imgt.chain)) return imgt.residues;
+    const map = SCHEME_MAPS[scheme][chainClass(imgt.chain)];
+    const out: NumberedResidue[] = [];
+
+    let activeLoop: SchemeMap['loops'][number] | undefined;
+    let buffer: NumberedResidue[] = [];
+    const flush = () => {
+        if (activeLoop) {
+            layoutLoop(buffer.length, activeLoop).forEach((slot, k) => out.push({ ...buffer[k], ...slot }));
+        }
+        activeLoop = undefined;
+        buffer = [];
+    };
+
+    for (const r of imgt.residues) {
+        const loop = map.loops.find(l => r.position >= l.from && r.position <= l.to);
+        if (loop !== activeLoop) flush();
+        if (loop) {
+            activeLoop = loop;
+            buffer.push(r);
+            continue;
+        }
+        const block = map.fixed.find(b => r.position >= b.from && r.position <= b.to);
+        const prev = out[out.length - 1];
+        if (block && !r.insertion) {
+            out.push({ ...r, position: block.start + r.position - block.from, insertion: '' });
+        } else if (prev) {
+            out.push({ ...r, position: prev.position, insertion: nextInsertion(prev) });
+        } else {
+            out.push(r);
+        }
+    }
+    flush();
+
+    return out.map(r => ({ ...r, region: schemeRegionOf(scheme, imgt.chain, r.position) }));
+};
+
+export type PositionSystem = NumberingScheme | 'Sequential';
+
+export const POSITION_SYSTEMS: PositionSystem[] = [...NUMBERING_SCHEMES, 'Sequential'];
+
+/**
+ * Converts a residue position between any numbering scheme and 1-based
+ * sequential indices, e.g. convertPosition(imgt, 'H52A', 'Kabat', 'IMGT').
+ * A leading chain letter (H/L) is accepted. Returns null if no residue
+ * occupies the position in either system.
+ */
+export const convertPosition = (
+    imgt: ImgtNumbering,
+    label: string,
+    from: PositionSystem,
+    to: PositionSystem
+): string | null => {
+    const clean = label.trim().toUpperCase().replace(/^[HL](?=\d)/, '');
+    let seqIndex: number | undefined;
+    if (from === 'Sequential') {
+        const n = parseInt(clean, 10);
+        if (!isNaN(n)) seqIndex = n - 1;
+    } else {
+        seqIndex = numberScheme(imgt, from).find(r => formatPosition(r) === clean)?.seqIndex;
+    }
+    if (seqIndex === undefined || seqIndex < 0) return null;
+    if (to === 'Sequential') return String(seqIndex + 1);
+
+    const target = numberScheme(imgt, to).find(r => r.seqIndex === seqIndex);
+    return target ? formatPosition(target) : null;
+};
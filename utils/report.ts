@@ -0,0 +1,269 @@
+import { AnnotatedSequence } from './annotation';
+import { HydrophobicityScale } from './aminoAcidProperties';
+import { hydrophobicityProfile, HumannessAnalysis, PkaSet } from './bioinformatics';
+import { CHAIN_CLASS_NAMES } from './chainType';
+import { DevelopabilityProfile, FlagLevel } from './developability';
+import { formatGeneHit, germlineAlignment, GERMLINE_DB } from './germlines';
+import { scanLiabilities, Liability, LIABILITY_LABELS, Severity } from './liabilities';
+import { HUMANNESS_TOP } from './germlineHumanness';
+
+// A Gemini call kept for provenance: what was asked, of which model, and the answer
+export interface AiRecord {
+    label: string;
+    prompt: string;
+    response: string;
+    model: string;
+    modelVersion: string;
+    timestamp: string; // ISO 8601
+}
+
+export interface ReportChain {
+    label: string; // 'VH', 'VL' or the chain class
+    annotation: AnnotatedSequence;
+    metrics: HumannessAnalysis;
+}
+
+export interface ReportData {
+    title: string;
+    generatedAt: Date;
+    chains: ReportChain[];
+    pI: number;
+    pkaSet: PkaSet;
+    formulationPh: number;
+    formulationCharge: number;
+    radar: { subject: string; A: number; B: number }[];
+    hydrophobicity: { scale: HydrophobicityScale; window: number };
+    developability: DevelopabilityProfile;
+    ai: AiRecord[];
+}
+
+const COLORS = {
+    fr: '#2563eb',
+    cdr: '#ec4899',
+    frBand: '#dbeafe',
+    cdrBand: '#fce7f3',
+    query: '#6366f1',
+    baseline: '#94a3b8',
+    grid: '#e2e8f0',
+    text: '#64748b',
+};
+
+const SEVERITY_COLORS: Record<Severity, string> = { high: '#dc2626', medium: '#f59e0b', low: '#a3a3a3' };
+const FLAG_COLORS: Record<FlagLevel, string> = { green: '#15803d', amber: '#b45309', red: '#b91c1c' };
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fixed = (value: number, digits = 1) => value.toFixed(digits);
+
+// FR/CDR bar with liability markers above it
+const regionMapSvg = (annotation: AnnotatedSequence, liabilities: Liability[]) => {
+    const width = 720;
+    const scale = width / Math.max(1, annotation.sequence.length);
+    const regions = annotation.regions.filter(r => r.seq.length).map(r => {
+        const x = r.start * scale;
+        const w = r.seq.length * scale;
+        const fill = r.type.startsWith('CDR') ? COLORS.cdr : COLORS.fr;
+        return `<rect x="${x}" y="14" width="${w}" height="24" fill="${fill}" stroke="#fff" />`
+            + `<text x="${x + w / 2}" y="30" font-size="9" fill="#fff" text-anchor="middle">${r.type}</text>`;
+    });
+    const markers = liabilities.map(l =>
+        `<circle cx="${((l.start + l.end) / 2) * scale}" cy="7" r="3.5" fill="${SEVERITY_COLORS[l.severity]}"><title>${escapeHtml(`${LIABILITY_LABELS[l.kind]} ${l.motif}`)}</title></circle>`);
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="44" viewBox="0 0 ${width} 44">${regions.join('')}${markers.join('')}</svg>`;
+};
+
+// Query (filled) against the baseline (dashed) on 0-100 axes
+const radarSvg = (radar: ReportData['radar']) => {
+    const size = 340;
+    const c = size / 2;
+    const r = 110;
+    const point = (i: number, value: number) => {
+        const angle = (Math.PI * 2 * i) / radar.length - Math.PI / 2;
+        const d = (Math.max(0, Math.min(100, value)) / 100) * r;
+        return [c + d * Math.cos(angle), c + d * Math.sin(angle)];
+    };
+    const polygon = (values: number[]) => values.map((v, i) => point(i, v).map(n => fixed(n)).join(',')).join(' ');
+    const rings = [25, 50, 75, 100].map(v => `<polygon points="${polygon(radar.map(() => v))}" fill="none" stroke="${COLORS.grid}" />`);
+    const axes = radar.map((d, i) => {
+        const [x, y] = point(i, 100);
+        const [lx, ly] = point(i, 122);
+        const anchor = Math.abs(lx - c) < 5 ? 'middle' : lx > c ? 'start' : 'end';
+        return `<line x1="${c}" y1="${c}" x2="${fixed(x)}" y2="${fixed(y)}" stroke="${COLORS.grid}" />`
+            + `<text x="${fixed(lx)}" y="${fixed(ly)}" font-size="10" fill="${COLORS.text}" text-anchor="${anchor}" dominant-baseline="middle">${escapeHtml(d.subject)}</text>`;
+    });
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`
+        + rings.join('') + axes.join('')
+        + `<polygon points="${polygon(radar.map(d => d.B))}" fill="none" stroke="${COLORS.baseline}" stroke-dasharray="4 4" stroke-width="2" />`
+        + `<polygon points="${polygon(radar.map(d => d.A))}" fill="${COLORS.query}" fill-opacity="0.35" stroke="${COLORS.query}" stroke-width="2" />`
+        + `</svg>`;
+};
+
+// Sliding-window profile over FR/CDR bands, with the zero line
+const hydrophobicitySvg = (annotation: AnnotatedSequence, scale: HydrophobicityScale, window: number) => {
+    const [width, height, pad] = [720, 200, 28];
+    const values = hydrophobicityProfile(annotation.sequence, scale, window);
+    if (!values.length) return '';
+    const lo = Math.min(0, ...values);
+    const hi = Math.max(0, ...values);
+    const span = hi - lo || 1;
+    const x = (i: number) => pad + (i / Math.max(1, values.length - 1)) * (width - pad * 2);
+    const y = (v: number) => pad / 2 + (1 - (v - lo) / span) * (height - pad * 1.5);
+    const bands = annotation.regions.filter(r => r.seq.length).map(r =>
+        `<rect x="${fixed(x(r.start))}" y="${pad / 2}" width="${fixed(Math.max(0, x(r.end - 1) - x(r.start)))}" height="${height - pad * 1.5}" fill="${r.type.startsWith('CDR') ? COLORS.cdrBand : COLORS.frBand}" />`
+        + `<text x="${fixed(x(r.start) + 2)}" y="${pad / 2 + 10}" font-size="9" fill="${COLORS.baseline}">${r.type}</text>`);
+    const line = values.map((v, i) => `${fixed(x(i))},${fixed(y(v))}`).join(' ');
+    const ticks = [lo, 0, hi].map(v =>
+        `<text x="${pad - 4}" y="${fixed(y(v))}" font-size="9" fill="${COLORS.text}" text-anchor="end" dominant-baseline="middle">${fixed(v)}</text>`);
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + bands.join('')
+        + `<line x1="${pad}" x2="${width - pad}" y1="${fixed(y(0))}" y2="${fixed(y(0))}" stroke="#cbd5e1" />`
+        + ticks.join('')
+        + `<polyline points="${line}" fill="none" stroke="${COLORS.cdr}" stroke-width="1.5" />`
+        + `</svg>`;
+};
+
+// Sequence in numbered lines of 60
+const sequenceBlock = (seq: string) => {
+    const lines: string[] = [];
+    for (let i = 0; i < seq.length; i += 60) lines.push(`${String(i + 1).padStart(4)}  ${seq.slice(i, i + 60)}`);
+    return `<pre>${escapeHtml(lines.join('\n'))}</pre>`;
+};
+
+// Query over the closest human V gene; dots mark identical residues
+const alignmentBlock = (chain: ReportChain) => {
+    const locus = chain.metrics.germlines.locus;
+    const gene = GERMLINE_DB.find(g => g.name === chain.metrics.germline && g.species === 'human' && g.locus === locus && g.segment === 'V');
+    if (!gene) return '<p class="muted">No human germline assigned.</p>';
+    const aligned = germlineAlignment(chain.annotation.sequence, gene);
+    const blocks: string[] = [];
+    for (let i = 0; i < aligned.length; i += 60) {
+        const slice = aligned.slice(i, i + 60);
+        const regions = slice.map(p => (p.region.startsWith('CDR') ? '^' : ' ')).join('');
+        blocks.push([
+            `${'IMGT'.padEnd(12)}${slice[0].label}`,
+            `${'Query'.padEnd(12)}${slice.map(p => p.query).join('')}`,
+            `${gene.name.padEnd(12)}${slice.map(p => (p.query === p.germline ? '.' : p.germline)).join('')}`,
+            `${'CDR'.padEnd(12)}${regions}`,
+        ].join('\n'));
+    }
+    return `<p>Closest human germline <b>${escapeHtml(gene.name)}</b>: ${fixed(chain.metrics.identity)}% V-region identity, ${fixed(chain.metrics.frameworkIdentity)}% framework.</p>`
+        + `<pre>${escapeHtml(blocks.join('\n\n'))}</pre>`;
+};
+
+const table = (headers: string[], rows: string[][]) =>
+    `<table><thead><tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr></thead>`
+    + `<tbody>${rows.map(r => `<tr>${r.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+const chainSection = (chain: ReportChain, scale: HydrophobicityScale, window: number) => {
+    const { annotation, metrics } = chain;
+    const liabilities = scanLiabilities(annotation);
+    const type = annotation.chain ? CHAIN_CLASS_NAMES[annotation.chain.type] : 'Unclassified V domain';
+    const g = metrics.germlines;
+
+    const regionRows = annotation.regions.map(r => [r.type, r.startPos ? `${r.startPos}–${r.endPos}` : '—', `${r.start + 1}–${r.end}`, `<code>${escapeHtml(r.seq)}</code>`]);
+    const metricRows = [
+        ['Germline (any species)', `${g.species} ${escapeHtml(formatGeneHit(g.v))}${g.d ? `, ${escapeHtml(formatGeneHit(g.d))}` : ''}, ${escapeHtml(formatGeneHit(g.j))}`],
+        ['Closest human V', escapeHtml(metrics.germline)],
+        ['V-region identity', `${fixed(metrics.identity)}%`],
+        ['Framework identity', `${fixed(metrics.frameworkIdentity)}%`],
+        [`Mean germline identity (top ${HUMANNESS_TOP})`, metrics.meanIdentity ? `${fixed(metrics.meanIdentity.score)}% (${fixed(metrics.meanIdentity.percentile, 0)}th percentile of human germlines)` : 'n/a'],
+        ['Net charge, pH 7.4', fixed(metrics.charge, 2)],
+        ['Mean hydropathy (Kyte-Doolittle)', fixed(metrics.avgHydro, 2)],
+    ];
+    const liabilityRows = liabilities.map(l => [
+        `<span style="color:${SEVERITY_COLORS[l.severity]};font-weight:600">${l.severity}</span>`,
+        LIABILITY_LABELS[l.kind],
+        `<code>${escapeHtml(l.motif)}</code>`,
+        l.region,
+        l.position ? `${annotation.scheme} ${l.position}` : `pos ${l.start + 1}`,
+        escapeHtml(l.description),
+    ]);
+
+    return `<section>
+<h2>${escapeHtml(chain.label)} · ${escapeHtml(type)}</h2>
+<h3>Sequence (${annotation.sequence.length} aa, ${annotation.scheme} numbering)</h3>
+${sequenceBlock(annotation.sequence)}
+<h3>Region map</h3>
+${regionMapSvg(annotation, liabilities)}
+${table(['Region', annotation.scheme, 'Residues', 'Sequence'], regionRows)}
+<h3>Humanness</h3>
+${table(['Metric', 'Value'], metricRows)}
+<h3>Hydrophobicity (${escapeHtml(scale)}, window ${window})</h3>
+${hydrophobicitySvg(annotation, scale, window)}
+<h3>Sequence liabilities (${liabilities.length})</h3>
+${liabilities.length ? table(['Severity', 'Type', 'Motif', 'Region', 'Position', 'Note'], liabilityRows) : '<p class="muted">No liability motifs found.</p>'}
+<h3>Germline alignment</h3>
+${alignmentBlock(chain)}
+</section>`;
+};
+
+const STYLE = `
+body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 800px; margin: 32px auto; padding: 0 16px; font-size: 13px; }
+h1 { font-size: 22px; margin-bottom: 4px; }
+h2 { font-size: 17px; border-bottom: 2px solid #e2e8f0; padding-bottom: 4px; margin-top: 32px; }
+h3 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; margin-top: 20px; }
+table { border-collapse: collapse; width: 100%; margin: 8px 0; }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+th { font-weight: 600; color: #64748b; font-size: 11px; }
+pre { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 6px; padding: 10px; font-size: 11px; overflow-x: auto; white-space: pre-wrap; }
+code { font-size: 11px; word-break: break-all; }
+.muted { color: #94a3b8; }
+.legend span { display: inline-block; margin-right: 16px; color: #64748b; font-size: 11px; }
+@media print { body { margin: 0; max-width: none; } section { page-break-inside: auto; } h2 { page-break-after: avoid; } pre, svg, table { page-break-inside: avoid; } }
+`;
+
+/**
+ * Self-contained HTML report of an ImmunoAI analysis: every chart is inline
+ * SVG and the stylesheet is embedded, so the file opens (and prints to PDF)
+ * without the app. Gemini output is reproduced with the prompt and model
+ * version that produced it.
+ */
+export const buildReportHtml = (data: ReportData): string => {
+    const developabilityRows = data.developability.metrics.map(m => [
+        escapeHtml(m.label),
+        fixed(m.value),
+        escapeHtml(m.guideline),
+        `<span style="color:${FLAG_COLORS[m.level]};font-weight:600">${m.level}</span>`,
+    ]);
+    const aiSections = data.ai.map(record => `<h3>${escapeHtml(record.label)}</h3>
+${table(['Model', 'Version', 'Time'], [[escapeHtml(record.model), escapeHtml(record.modelVersion), escapeHtml(record.timestamp)]])}
+<p><b>Prompt</b></p><pre>${escapeHtml(record.prompt.trim())}</pre>
+<p><b>Response</b></p><pre>${escapeHtml(record.response.trim())}</pre>`);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(data.title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(data.title)}</h1>
+<p class="muted">Generated ${escapeHtml(data.generatedAt.toISOString())} by ig-gemini. Sequence-based estimates; confirm experimentally.</p>
+
+<section>
+<h2>Summary</h2>
+${table(['Metric', 'Value'], [
+        ['Chains', data.chains.map(c => escapeHtml(c.label)).join(' + ')],
+        [`Isoelectric point (${escapeHtml(data.pkaSet)} pKa)`, fixed(data.pI, 2)],
+        [`Net charge at formulation pH ${fixed(data.formulationPh)}`, fixed(data.formulationCharge, 2)],
+    ])}
+<div style="display:flex;gap:24px;align-items:center">
+${radarSvg(data.radar)}
+<div class="legend"><span style="color:${COLORS.query}">■ Query</span><span>┅ Therapeutic baseline</span></div>
+</div>
+<h3>Developability guidelines</h3>
+${table(['Metric', 'Value', 'Guideline', 'Flag'], developabilityRows)}
+${data.developability.notes.map(n => `<p class="muted">${escapeHtml(n)}</p>`).join('\n')}
+</section>
+
+${data.chains.map(chain => chainSection(chain, data.hydrophobicity.scale, data.hydrophobicity.window)).join('\n')}
+
+<section>
+<h2>AI analysis</h2>
+${aiSections.length ? aiSections.join('\n') : '<p class="muted">No Gemini analysis was run for this sequence.</p>'}
+</section>
+</body>
+</html>
+`;
+};
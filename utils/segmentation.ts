@@ -0,0 +1,138 @@
+import { classifyChain, CHAIN_CLASS_NAMES, ChainClass } from './chainType';
+import { cleanSequence } from './annotation';
+import { EXTENDED_AMINO_ACID_PROPERTIES } from './aminoAcidProperties';
+
+// Shortest stretch worth numbering as a V domain
+export const MIN_DOMAIN_LENGTH = 70;
+
+export type SegmentKind = 'signal' | 'vdomain' | 'linker' | 'tag' | 'constant' | 'other';
+
+export interface Segment {
+    kind: SegmentKind;
+    start: number; // 0-based, inclusive
+    end: number; // exclusive
+    seq: string;
+    label: string;
+    chain?: ChainClass; // V domains only
+}
+
+// Purification/detection tags
+const TAGS: { label: string; pattern: RegExp }[] = [
+    { label: 'His tag', pattern: /H{6,}/g },
+    { label: 'FLAG tag', pattern: /DYKDDDDK/g },
+    { label: 'Strep-tag II', pattern: /WSHPQFEK/g },
+];
+
+// N-terminal motifs of human constant domains and hinge
+const CONSTANT_STARTS: { label: string; pattern: RegExp }[] = [
+    { label: 'CH1', pattern: /AS[TP]KGPS/g },
+    { label: 'Hinge', pattern: /EPKSCDKTHT|ERKCCVECPP|ESKYGPPCP/g },
+    { label: 'CH2', pattern: /APE[LF]LGGPS|APPVAGPS/g },
+    { label: 'CH3', pattern: /GQPREPQVY/g },
+    { label: 'Cκ', pattern: /RTVAAPS/g },
+    { label: 'Cλ', pattern: /[GS]QPKA[AN]P[ST]/g },
+];
+
+// Describes a linker as repeats of a Gly-Ser unit, e.g. (G4S)3
+export const describeLinker = (linker: string): string | null => {
+    const match = linker.match(/^((G+)S)\1*$/);
+    if (!match) return null;
+    const repeats = linker.length / match[1].length;
+    return `(G${match[2].length}S)${repeats > 1 ? repeats : ''}`;
+};
+
+// Flexible linkers are short and rich in Gly/Ser (Thr, Pro and charged residues allowed)
+const isLinker = (seq: string) =>
+    seq.length >= 3 && seq.split('').filter(aa => aa === 'G' || aa === 'S').length / seq.length >= 0.6;
+
+/**
+ * Signal-peptide heuristic for the stretch before the first V domain: starts
+ * with Met, 15-35 residues, a hydrophobic h-region (8-residue window with mean
+ * Kyte-Doolittle > 1.8) and small residues at -1 and -3 of the cleavage site.
+ */
+const isSignalPeptide = (seq: string) => {
+    if (seq[0] !== 'M' || seq.length < 15 || seq.length > 35) return false;
+    const hydro = (aa: string) => EXTENDED_AMINO_ACID_PROPERTIES[aa]?.hydro ?? 0;
+    let hRegion = false;
+    for (let i = 0; i + 8 <= seq.length; i++) {
+        const mean = seq.slice(i, i + 8).split('').reduce((sum, aa) => sum + hydro(aa), 0) / 8;
+        if (mean > 1.8) hRegion = true;
+    }
+    const small = 'AGSCTV';
+    return hRegion && small.includes(seq[seq.length - 1]) && small.includes(seq[seq.length - 3]);
+};
+
+// Finds V domains recursively in the stretches left of and right of each hit
+const findDomains = (sequence: string, from: number, to: number, out: Segment[]) => {
+    if (to - from < MIN_DOMAIN_LENGTH) return;
+    const hit = classifyChain(sequence.slice(from, to));
+    if (!hit) return;
+    const start = from + hit.numbering.start;
+    const end = from + hit.numbering.end;
+    out.push({
+        kind: 'vdomain', start, end,
+        seq: sequence.slice(start, end),
+        label: CHAIN_CLASS_NAMES[hit.type],
+        chain: hit.type,
+    });
+    findDomains(sequence, from, start, out);
+    findDomains(sequence, end, to, out);
+};
+
+const motifHits = (sequence: string, motifs: { label: string; pattern: RegExp }[]) =>
+    motifs.flatMap(({ label, pattern }) =>
+        [...sequence.matchAll(pattern)].map(m => ({ label, start: m.index ?? 0, end: (m.index ?? 0) + m[0].length }))
+    );
+
+/**
+ * Splits a construct (scFv, Fab chain, bispecific, tagged domain) into
+ * consecutive segments covering the whole sequence: every V domain, tags,
+ * constant regions (each running to the next feature), an N-terminal signal
+ * peptide, Gly/Ser-rich linkers between features and any leftover residues.
+ */
+export const segmentConstruct = (seq: string): Segment[] => {
+    const sequence = cleanSequence(seq);
+    const features: Segment[] = [];
+    findDomains(sequence, 0, sequence.length, features);
+
+    const overlaps = (start: number, end: number) => features.some(f => start < f.end && end > f.start);
+    for (const hit of motifHits(sequence, TAGS)) {
+        if (!overlaps(hit.start, hit.end)) {
+            features.push({ kind: 'tag', ...hit, seq: sequence.slice(hit.start, hit.end) });
+        }
+    }
+    const constants = motifHits(sequence, CONSTANT_STARTS)
+        .filter(hit => !overlaps(hit.start, hit.end))
+        .sort((a, b) => a.start - b.start);
+    features.sort((a, b) => a.start - b.start);
+
+    // Constant regions extend to the next feature or constant start
+    constants.forEach((hit, k) => {
+        const nextFeature = features.find(f => f.start >= hit.end)?.start ?? sequence.length;
+        const end = Math.min(nextFeature, constants[k + 1]?.start ?? sequence.length);
+        features.push({ kind: 'constant', label: hit.label, start: hit.start, end, seq: sequence.slice(hit.start, end) });
+    });
+    features.sort((a, b) => a.start - b.start);
+
+    const segments: Segment[] = [];
+    let cursor = 0;
+    const fillGap = (end: number) => {
+        if (end <= cursor) return;
+        const gap = sequence.slice(cursor, end);
+        const first = segments.length === 0;
+        if (first && features[0]?.kind === 'vdomain' && isSignalPeptide(gap)) {
+            segments.push({ kind: 'signal', start: cursor, end, seq: gap, label: 'Signal peptide' });
+        } else if (isLinker(gap)) {
+            segments.push({ kind: 'linker', start: cursor, end, seq: gap, label: describeLinker(gap) ?? 'Gly/Ser linker' });
+        } else {
+            segments.push({ kind: 'other', start: cursor, end, seq: gap, label: `${gap.length} aa` });
+        }
+    };
+    for (const f of features) {
+        fillGap(f.start);
+        segments.push(f);
+        cursor = f.end;
+    }
+    fillGap(sequence.length);
+    return segments;
+};
@@ -0,0 +1,187 @@
+import { formatPosition, numberImgt, ChainType, NumberedResidue } from './numbering';
+
+export type ClinicalStatus = 'Approved' | 'Withdrawn' | 'Phase 3' | 'Discontinued';
+
+export interface TherapeuticAntibody {
+    inn: string;
+    brand: string | null;
+    target: string;
+    status: ClinicalStatus;
+    origin: 'Human' | 'Humanized' | 'Chimeric';
+    vh: string;
+    vl: string;
+}
+
+// Variable domains of marketed and late-stage therapeutics (INN sequences)
+export const THERAPEUTIC_DB: TherapeuticAntibody[] = [
+    {
+        inn: 'Adalimumab', brand: 'Humira', target: 'TNF-α', status: 'Approved', origin: 'Human',
+        vh: 'EVQLVESGGGLVQPGRSLRLSCAASGFTFDDYAMHWVRQAPGKGLEWVSAITWNSGHIDYADSVEGRFTISRDNAKNSLYLQMNSLRAEDTAVYYCAKVSYLSTASSLDYWGQGTLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCRASQGIRNYLAWYQQKPGKAPKLLIYAASTLQSGVPSRFSGSGSGTDFTLTISSLQPEDVATYYCQRYNRAPYTFGQGTKVEIK',
+    },
+    {
+        inn: 'Trastuzumab', brand: 'Herceptin', target: 'HER2', status: 'Approved', origin: 'Humanized',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGFNIKDTYIHWVRQAPGKGLEWVARIYPTNGYTRYADSVKGRFTISADTSKNTAYLQMNSLRAEDTAVYYCSRWGGDGFYAMDYWGQGTLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCRASQDVNTAVAWYQQKPGKAPKLLIYSASFLYSGVPSRFSGSRSGTDFTLTISSLQPEDFATYYCQQHYTTPPTFGQGTKVEIK',
+    },
+    {
+        inn: 'Pertuzumab', brand: 'Perjeta', target: 'HER2', status: 'Approved', origin: 'Humanized',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGFTFTDYTMDWVRQAPGKGLEWVADVNPNSGGSIYNQRFKGRFTLSVDRSKNTLYLQMNSLRAEDTAVYYCARNLGPSFYFDYWGQGTLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCKASQDVSIGVAWYQQKPGKAPKLLIYSASYRYTGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQYYIYPYTFGQGTKVEIK',
+    },
+    {
+        inn: 'Rituximab', brand: 'Rituxan', target: 'CD20', status: 'Approved', origin: 'Chimeric',
+        vh: 'QVQLQQPGAELVKPGASVKMSCKASGYTFTSYNMHWVKQTPGRGLEWIGAIYPGNGDTSYNQKFKGKATLTADKSSSTAYMQLSSLTSEDSAVYYCARSTYYGGDWYFNVWGAGTTVTVSA',
+        vl: 'QIVLSQSPAILSASPGEKVTMTCRASSSVSYIHWFQQKPGSSPKPWIYATSNLASGVPVRFSGSGSGTSYSLTISRVEAEDAATYYCQQWTSNPPTFGGGTKLEIK',
+    },
+    {
+        inn: 'Cetuximab', brand: 'Erbitux', target: 'EGFR', status: 'Approved', origin: 'Chimeric',
+        vh: 'QVQLKQSGPGLVQPSQSLSITCTVSGFSLTNYGVHWVRQSPGKGLEWLGVIWSGGNTDYNTPFTSRLSINKDNSKSQVFFKMNSLQSNDTAIYYCARALTYYDYEFAYWGQGTLVTVSA',
+        vl: 'DILLTQSPVILSVSPGERVSFSCRASQSIGTNIHWYQQRTNGSPRLLIKYASESISGIPSRFSGSGSGTDFTLSINSVESEDIADYYCQQNNNWPTTFGAGTKLELK',
+    },
+    {
+        inn: 'Infliximab', brand: 'Remicade', target: 'TNF-α', status: 'Approved', origin: 'Chimeric',
+        vh: 'EVKLEESGGGLVQPGGSMKLSCVASGFIFSNHWMNWVRQSPEKGLEWVAEIRSKSINSATHYAESVKGRFTISRDDSKSAVYLQMTDLRTEDTGVYYCSRNYYGSTYDYWGQGTTLTVSS',
+        vl: 'DILLTQSPAILSVSPGERVSFSCRASQFVGSSIHWYQQRTNGSPRLLIKYASESMSGIPSRFSGSGSGTDFTLSINTVESEDIADYYCQQSHSWPFTFGSGTNLEVK',
+    },
+    {
+        inn: 'Bevacizumab', brand: 'Avastin', target: 'VEGF-A', status: 'Approved', origin: 'Humanized',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGYTFTNYGMNWVRQAPGKGLEWVGWINTYTGEPTYAADFKRRFTFSLDTSKSTAYLQMNSLRAEDTAVYYCAKYPHYYGSSHWYFDVWGQGTLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCSASQDISNYLNWYQQKPGKAPKVLIYFTSSLHSGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQYSTVPWTFGQGTKVEIK',
+    },
+    {
+        inn: 'Omalizumab', brand: 'Xolair', target: 'IgE', status: 'Approved', origin: 'Humanized',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAVSGYSITSGYSWNWIRQAPGKGLEWVASITYDGSTNYNPSVKGRITISRDDSKNTFYLQMNSLRAEDTAVYYCARGSHYFGHWHFAVWGQGTLVTVSS',
+        vl: 'DIQLTQSPSSLSASVGDRVTITCRASQSVDYDGDSYMNWYQQKPGKAPKLLIYAASYLESGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQSHEDPYTFGQGTKVEIK',
+    },
+    {
+        inn: 'Pembrolizumab', brand: 'Keytruda', target: 'PD-1', status: 'Approved', origin: 'Humanized',
+        vh: 'QVQLVQSGVEVKKPGASVKVSCKASGYTFTNYYMYWVRQAPGQGLEWMGGINPSNGGTNFNEKFKNRVTLTTDSSTTTAYMELKSLQFDDTAVYYCARRDYRFDMGFDYWGQGTTVTVSS',
+        vl: 'EIVLTQSPATLSLSPGERATLSCRASKGVSTSGYSYLHWYQQKPGQAPRLLIYLASYLESGVPARFSGSGSGTDFTLTISSLEPEDFAVYYCQHSRDLPLTFGGGTKVEIK',
+    },
+    {
+        inn: 'Nivolumab', brand: 'Opdivo', target: 'PD-1', status: 'Approved', origin: 'Human',
+        vh: 'QVQLVESGGGVVQPGRSLRLDCKASGITFSNSGMHWVRQAPGKGLEWVAVIWYDGSKRYYADSVKGRFTISRDNSKNTLFLQMNSLRAEDTAVYYCATNDDYWGQGTLVTVSS',
+        vl: 'EIVLTQSPATLSLSPGERATLSCRASQSVSSYLAWYQQKPGQAPRLLIYDASNRATGIPARFSGSGSGTDFTLTISSLEPEDFAVYYCQQSSNWPRTFGQGTKVEIK',
+    },
+    {
+        inn: 'Atezolizumab', brand: 'Tecentriq', target: 'PD-L1', status: 'Approved', origin: 'Humanized',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSDSWIHWVRQAPGKGLEWVAWISPYGGSTYYADSVKGRFTISADTSKNTAYLQMNSLRAEDTAVYYCARRHWPGGFDYWGQGTLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCRASQDVSTAVAWYQQKPGKAPKLLIYSASFLYSGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQYLYHPATFGQGTKVEIK',
+    },
+    {
+        inn: 'Durvalumab', brand: 'Imfinzi', target: 'PD-L1', status: 'Approved', origin: 'Human',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSRYWMSWVRQAPGKGLEWVANIKQDGSEKYYVDSVKGRFTISRDNAKNSLYLQMNSLRAEDTAVYYCAREGGWFGELAFDYWGQGTLVTVSS',
+        vl: 'EIVLTQSPGTLSLSPGERATLSCRASQRVSSSYLAWYQQKPGQAPRLLIYDASSRATGIPDRFSGSGSGTDFTLTISRLEPEDFAVYYCQQYGSLPWTFGQGTKVEIK',
+    },
+    {
+        inn: 'Ipilimumab', brand: 'Yervoy', target: 'CTLA-4', status: 'Approved', origin: 'Human',
+        vh: 'QVQLVESGGGVVQPGRSLRLSCAASGFTFSSYTMHWVRQAPGKGLEWVTFISYDGNNKYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAIYYCARTGWLGPFDYWGQGTLVTVSS',
+        vl: 'EIVLTQSPGTLSLSPGERATLSCRASQSVGSSYLAWYQQKPGQAPRLLIYGAFSRATGIPDRFSGSGSGTDFTLTISRLEPEDFAVYYCQQYGSSPWTFGQGTKVEIK',
+    },
+    {
+        inn: 'Tocilizumab', brand: 'Actemra', target: 'IL-6R', status: 'Approved', origin: 'Humanized',
+        vh: 'QVQLQESGPGLVRPSQTLSLTCTVSGYSITSDHAWSWVRQPPGRGLEWIGYISYSGITTYNPSLKSRVTMLRDTSKNQFSLRLSSVTAADTAVYYCARSLARTTAMDYWGQGSLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCRASQDISSYLNWYQQKPGKAPKLLIYYTSRLHSGVPSRFSGSGSGTDFTFTISSLQPEDIATYYCQQGNTLPYTFGQGTKVEIK',
+    },
+    {
+        inn: 'Secukinumab', brand: 'Cosentyx', target: 'IL-17A', status: 'Approved', origin: 'Human',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSNYWMNWVRQAPGKGLEWVAAINQDGSEKYYVGSVKGRFTISRDNAKNSLYLQMNSLRVEDTAVYYCVRDYYDILTDYYIHYWYFDLWGRGTLVTVSS',
+        vl: 'EIVLTQSPGTLSLSPGERATLSCRASQSVSSSYLAWYQQKPGQAPRLLIYGASSRATGIPDRFSGSGSGTDFTLTISRLEPEDFAVYYCQQYGSSPCTFGQGTRLEIK',
+    },
+    {
+        inn: 'Ustekinumab', brand: 'Stelara', target: 'IL-12/IL-23 p40', status: 'Approved', origin: 'Human',
+        vh: 'EVQLVQSGAEVKKPGESLKISCKGSGYSFTTYWLGWVRQMPGKGLDWIGIMSPVDSDIRYSPSFQGQVTMSVDKSITTAYLQWNSLKASDTAMYYCARRRPGQGYFDFWGQGTLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCRASQGISSWLAWYQQKPEKAPKSLIYAASSLQSGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQYNIYPYTFGQGTKLEIK',
+    },
+    {
+        inn: 'Denosumab', brand: 'Prolia', target: 'RANKL', status: 'Approved', origin: 'Human',
+        vh: 'EVQLLESGGGLVQPGGSLRLSCAASGFTFSSYAMSWVRQAPGKGLEWVSGITGSGGSTYYADSVKGRFTISRDNSKNTLYLQMNSLRAEDTAVYYCAKDPGTTVIMSWFDPWGQGTLVTVSS',
+        vl: 'EIVLTQSPGTLSLSPGERATLSCRASQSVRGRYLAWYQQKPGQAPRLLIYGASSRATGIPDRFSGSGSGTDFTLTISRLEPEDFAVFYCQQYGSSPRTFGQGTKVEIK',
+    },
+    {
+        inn: 'Natalizumab', brand: 'Tysabri', target: 'α4 integrin', status: 'Approved', origin: 'Humanized',
+        vh: 'QVQLVQSGAEVKKPGASVKVSCKASGFNIKDTYIHWVRQAPGQRLEWMGRIDPANGYTKYDPKFQGRVTITADTSASTAYMELSSLRSEDTAVYYCAREGYYGNYGVYAMDYWGQGTLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCKTSQDINKYMAWYQQTPGKAPRLLIHYTSALQPGIPSRFSGSGSGRDYTFTISSLQPEDIATYYCLQYDNLWTFGQGTKVEIK',
+    },
+    {
+        inn: 'Palivizumab', brand: 'Synagis', target: 'RSV F protein', status: 'Approved', origin: 'Humanized',
+        vh: 'QVTLRESGPALVKPTQTLTLTCTFSGFSLSTSGMSVGWIRQPPGKALEWLADIWWDDKKDYNPSLKSRLTISKDTSKNQVVLKVTNMDPADTATYYCARSMITNWYFDVWGAGTTVTVSS',
+        vl: 'DIQMTQSPSTLSASVGDRVTITCKCQLSVGYMHWYQQKPGKAPKLLIYDTSKLASGVPSRFSGSGSGTEFTLTISSLQPDDFATYYCFQGSGYPFTFGGGTKLEIK',
+    },
+    {
+        inn: 'Efalizumab', brand: 'Raptiva', target: 'CD11a', status: 'Withdrawn', origin: 'Humanized',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGYSFTGHWMNWVRQAPGKGLEWVGMIHPSDSETRYNQKFKDRFTISVDKSKNTLYLQMNSLRAEDTAVYYCARGIYFYGTTYFDYWGQGTLVTVSS',
+        vl: 'DIQMTQSPSSLSASVGDRVTITCRASKTISKYLAWYQQKPGKAPKLLIYSGSTLQSGVPSRFSGSGSGTDFTLTISSLQPEDFATYYCQQHNEYPLTFGQGTKVEIK',
+    },
+    {
+        inn: 'Crenezumab', brand: null, target: 'Amyloid-β', status: 'Discontinued', origin: 'Humanized',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSSYGMSWVRQAPGKGLELVASINSNGGSTYYPDSVKGRFTISRDNAKNSLYLQMNSLRAEDTAVYYCASGDYWGQGTTVTVSS',
+        vl: 'DIVMTQSPLSLPVTPGEPASISCRSSQSLVYSNGDTYLHWYLQKPGQSPQLLIYKVSNRFSGVPDRFSGSGSGTDFTLKISRVEAEDVGVYYCSQSTHVPWTFGQGTKVEIK',
+    },
+    {
+        inn: 'Solanezumab', brand: null, target: 'Amyloid-β', status: 'Discontinued', origin: 'Humanized',
+        vh: 'EVQLVESGGGLVQPGGSLRLSCAASGFTFSRYSMSWVRQAPGKGLELVAQINSVGNSTYYPDTVKGRFTISRDNAKNTLYLQMNSLRAEDTAVYYCASGDYWGQGTTVTVSS',
+        vl: 'DVVMTQSPLSLPVTLGQPASISCRSSQSLIYSDGNAYLHWFLQKPGQSPRLLIYKVSNRFSGVPDRFSGSGSGTDFTLKISRVEAEDVGVYYCSQSTHVPWTFGQGTKVEIK',
+    },
+];
+
+export const therapeuticName = (ab: TherapeuticAntibody) => (ab.brand ? `${ab.inn} (${ab.brand})` : ab.inn);
+
+type NumberedDomain = Map<string, NumberedResidue>;
+
+const numberDomain = (seq: string, chains: ChainType[]): NumberedDomain =>
+    new Map((numberImgt(seq, chains)?.residues ?? []).map(r => [formatPosition(r), r]));
+
+// Database chains are numbered once, on first search
+const dbNumbering = new Map<string, NumberedDomain>();
+const numberedTherapeutic = (ab: TherapeuticAntibody, chain: 'vh' | 'vl') => {
+    const key = `${ab.inn}:${chain}`;
+    if (!dbNumbering.has(key)) dbNumbering.set(key, numberDomain(ab[chain], chain === 'vh' ? ['H'] : ['K', 'L']));
+    return dbNumbering.get(key)!;
+};
+
+// Identity over IMGT positions occupied in either domain; a residue opposite a gap is a mismatch
+const domainIdentity = (query: NumberedDomain, subject: NumberedDomain) => {
+    const tally = { cdr: [0, 0], fr: [0, 0] };
+    for (const label of new Set([...query.keys(), ...subject.keys()])) {
+        const q = query.get(label);
+        const s = subject.get(label);
+        const bucket = (q ?? s)!.region.startsWith('CDR') ? tally.cdr : tally.fr;
+        bucket[1]++;
+        if (q && s && q.aa === s.aa) bucket[0]++;
+    }
+    const percent = ([matches, total]: number[]) => (total ? (matches / total) * 100 : 0);
+    return { cdr: percent(tally.cdr), fr: percent(tally.fr) };
+};
+
+export interface TherapeuticHit {
+    antibody: TherapeuticAntibody;
+    chains: ('VH' | 'VL')[]; // chains compared
+    cdrIdentity: number; // percent over IMGT CDR positions, averaged over chains
+    frameworkIdentity: number;
+    score: number; // mean of CDR and framework identity
+}
+
+/**
+ * Ranks the bundled therapeutics against a query VH and/or VL by identity on
+ * IMGT positions, CDRs and frameworks scored separately so a shared germline
+ * framework alone does not make a close match. A single domain is compared
+ * with the matching chain of each entry; a pair with both.
+ */
+export const searchTherapeutics = (heavy: string | null, light: string | null = null, limit = 5): TherapeuticHit[] => {
+    const queries: { chain: 'VH' | 'VL'; numbered: NumberedDomain }[] = [];
+    if (heavy) queries.push({ chain: 'VH', numbered: numberDomain(heavy, ['H']) });
+    if (light) queries.push({ chain: 'VL', numbered: numberDomain(light, ['K', 'L']) });
+    const usable = queries.filter(q => q.numbered.size);
+    if (!usable.length) return [];
+
+    return THERAPEUTIC_DB.map(antibody => {
+        const scores = usable.map(q => domainIdentity(q.numbered, numberedTherapeutic(antibody, q.chain === 'VH' ? 'vh' : 'vl')));
+        const cdrIdentity = scores.reduce((sum, s) => sum + s.cdr, 0) / scores.length;
+        const frameworkIdentity = scores.reduce((sum, s) => sum + s.fr, 0) / scores.length;
+        return { antibody, chains: usable.map(q => q.chain), cdrIdentity, frameworkIdentity, score: (cdrIdentity + frameworkIdentity) / 2 };
+    })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
@@ -0,0 +1,189 @@
+import type { ValidationIssue } from './validation';
+
+export type Frame = 1 | 2 | 3 | -1 | -2 | -3;
+
+/**
+ * Protein translated from a nucleotide input. `codons[i]` is the codon of
+ * protein residue i; nucleotide positions are 1-based on the strand read
+ * (the reverse complement for negative frames).
+ */
+export interface Translation {
+    protein: string;
+    frame: Frame; // negative frames read the reverse complement
+    codons: string[];
+    ntStart: number; // first nucleotide of the translated ORF
+    ntEnd: number; // last nucleotide
+    frameshift: boolean; // the J region reads in another frame than the V region
+    issues: ValidationIssue[];
+}
+
+const BASES = 'TCAG';
+// Standard genetic code in TCAG order (TTT, TTC, TTA, TTG, TCT, ...)
+const AMINO_ACIDS = 'FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG';
+const CODON_TABLE: Record<string, string> = {};
+for (let i = 0; i < 64; i++) {
+    CODON_TABLE[BASES[i >> 4] + BASES[(i >> 2) & 3] + BASES[i & 3]] = AMINO_ACIDS[i];
+}
+
+// IUPAC nucleotide ambiguity codes
+const IUPAC_BASES: Record<string, string> = {
+    A: 'A', C: 'C', G: 'G', T: 'T',
+    R: 'AG', Y: 'CT', S: 'CG', W: 'AT', K: 'GT', M: 'AC',
+    B: 'CGT', D: 'AGT', H: 'ACT', V: 'ACG', N: 'ACGT',
+};
+
+const COMPLEMENT: Record<string, string> = {
+    A: 'T', C: 'G', G: 'C', T: 'A', R: 'Y', Y: 'R', S: 'S', W: 'W',
+    K: 'M', M: 'K', B: 'V', D: 'H', H: 'D', V: 'B', N: 'N',
+};
+
+// Shortest input treated as DNA; shorter strings of A/C/G/T are more likely peptides
+const MIN_NUCLEOTIDES = 30;
+
+// Residues of FR1 before the conserved Cys (IMGT 1-22)
+const FR1_BEFORE_CYS = 21;
+
+// FR1 cysteine ... CDR1 ... the conserved FR2 Trp (IMGT 23 to 41)
+const V_SIGNATURE = /C[A-Z]{8,16}W[VIFYL][RKQ]/;
+// FR4 [FW]GXG, the J-region motif
+const J_SIGNATURE = /[FW]G[A-Z]G/;
+
+/**
+ * True when a cleaned sequence reads as nucleotides: long enough and made up
+ * of A/C/G/T/U with at most a few IUPAC ambiguity codes.
+ */
+export const isNucleotide = (seq: string) => {
+    if (seq.length < MIN_NUCLEOTIDES) return false;
+    const bases = seq.replace(/[^ACGTU]/g, '').length;
+    const ambiguous = seq.replace(/[^RYSWKMBDHVN]/g, '').length;
+    return bases + ambiguous === seq.length && bases / seq.length >= 0.9;
+};
+
+export const formatFrame = (frame: Frame) => `${frame > 0 ? '+' : ''}${frame}`;
+
+export const reverseComplement = (dna: string) =>
+    dna.split('').reverse().map(b => COMPLEMENT[b] ?? 'N').join('');
+
+// A codon with ambiguous bases still translates when every expansion agrees
+export const translateCodon = (codon: string) => {
+    if (CODON_TABLE[codon]) return CODON_TABLE[codon];
+    if (codon.length !== 3 || [...codon].some(b => !IUPAC_BASES[b])) return 'X';
+    const residues = new Set<string>();
+    for (const a of IUPAC_BASES[codon[0]]) {
+        for (const b of IUPAC_BASES[codon[1]]) {
+            for (const c of IUPAC_BASES[codon[2]]) residues.add(CODON_TABLE[a + b + c]);
+        }
+    }
+    return residues.size === 1 ? [...residues][0] : 'X';
+};
+
+interface FrameReading {
+    frame: Frame;
+    strand: string;
+    protein: string; // full translation, stops as '*'
+    orfStart: number; // residue index of the longest stop-free stretch
+    orfEnd: number; // exclusive
+    score: number;
+}
+
+const readFrame = (strand: string, frame: Frame): FrameReading => {
+    const offset = Math.abs(frame) - 1;
+    let protein = '';
+    for (let i = offset; i + 3 <= strand.length; i += 3) protein += translateCodon(strand.slice(i, i + 3));
+
+    let orfStart = 0;
+    let orfEnd = 0;
+    let start = 0;
+    for (let i = 0; i <= protein.length; i++) {
+        if (i === protein.length || protein[i] === '*') {
+            if (i - start > orfEnd - orfStart) [orfStart, orfEnd] = [start, i];
+            start = i + 1;
+        }
+    }
+    // An ORF that carries the V-domain signature outranks a longer one that does not
+    const orf = protein.slice(orfStart, orfEnd);
+    const score = orf.length + (V_SIGNATURE.test(orf) ? 60 : 0) + (J_SIGNATURE.test(orf) ? 20 : 0);
+    return { frame, strand, protein, orfStart, orfEnd, score };
+};
+
+/**
+ * Translates a nucleotide sequence in the frame most likely to encode a V
+ * domain: all six frames are read, and the longest open reading frame wins,
+ * with a bonus for the FR1-Cys/FR2-Trp and J-region signatures. In-frame stops
+ * (an error when they split the domain), a V and J signature split across
+ * frames (a frameshift) and ambiguous bases are reported as issues.
+ */
+export const translateNucleotides = (dna: string): Translation => {
+    const forward = dna.replace(/U/g, 'T');
+    const reverse = reverseComplement(forward);
+    const readings = ([1, 2, 3, -1, -2, -3] as Frame[]).map(frame => readFrame(frame > 0 ? forward : reverse, frame));
+    const best = readings.reduce((a, b) => (b.score > a.score ? b : a));
+
+    const ntOf = (reading: FrameReading, residue: number) => Math.abs(reading.frame) + residue * 3; // 1-based
+    const protein = best.protein.slice(best.orfStart, best.orfEnd);
+    const codons = Array.from({ length: protein.length }, (_, i) => {
+        const nt = ntOf(best, best.orfStart + i) - 1;
+        return best.strand.slice(nt, nt + 3);
+    });
+    const ntStart = ntOf(best, best.orfStart);
+    const ntEnd = ntOf(best, best.orfEnd) - 1;
+
+    const issues: ValidationIssue[] = [];
+
+    const stops = [...best.protein].flatMap((aa, i) => (aa === '*' ? [i] : []));
+    // Reading through the stops, a stop between the start of FR1 (about 21
+    // residues before the first Cys) and the J motif truncates the domain
+    const readThrough = best.protein.replace(/\*/g, 'X');
+    const v = readThrough.match(V_SIGNATURE);
+    const j = v ? readThrough.slice(v.index ?? 0).match(J_SIGNATURE) : null;
+    const domainStart = v ? Math.max(0, (v.index ?? 0) - FR1_BEFORE_CYS) : 0;
+    const domainEnd = v && j ? (v.index ?? 0) + (j.index ?? 0) + j[0].length : domainStart;
+    const truncated = stops.some(i => i >= domainStart && i < domainEnd);
+    if (truncated) {
+        issues.push({
+            level: 'error',
+            message: `Stop codon inside the V domain (in-frame stops at nt ${stops.map(i => ntOf(best, i)).join(', ')}); the sequence is non-productive`,
+            positions: [],
+        });
+    } else if (stops.length) {
+        issues.push({
+            level: 'warning',
+            message: `${stops.length} in-frame stop codon${stops.length > 1 ? 's' : ''} at nt ${stops.map(i => ntOf(best, i)).join(', ')}; only the longest open reading frame is analyzed`,
+            positions: [],
+        });
+    }
+
+    // The V signature in one frame and the J motif downstream in another point
+    // to an insertion or deletion between them
+    const vMatch = protein.match(V_SIGNATURE);
+    const jMatch = protein.match(J_SIGNATURE);
+    let frameshift = false;
+    if (vMatch && !jMatch) {
+        const vEnd = ntOf(best, best.orfStart + (vMatch.index ?? 0) + vMatch[0].length);
+        for (const r of readings) {
+            if (r.strand !== best.strand || r.frame === best.frame) continue;
+            const from = Math.ceil((vEnd - Math.abs(r.frame)) / 3);
+            const j = r.protein.slice(from).match(J_SIGNATURE);
+            if (!j) continue;
+            frameshift = true;
+            issues.push({
+                level: 'warning',
+                message: `Possible frameshift between nt ${vEnd} and ${ntOf(r, from + (j.index ?? 0))}: the J region reads in frame ${formatFrame(r.frame)}`,
+                positions: [],
+            });
+            break;
+        }
+    }
+
+    const ambiguous = [...forward].flatMap((b, i) => ('ACGT'.includes(b) ? [] : [i + 1]));
+    if (ambiguous.length) {
+        const unresolved = [...protein].filter(aa => aa === 'X').length;
+        issues.push({
+            level: 'warning',
+            message: `${ambiguous.length} ambiguous base${ambiguous.length > 1 ? 's' : ''} (nt ${ambiguous.slice(0, 5).join(', ')}${ambiguous.length > 5 ? '…' : ''})${unresolved ? `; ${unresolved} codon${unresolved > 1 ? 's' : ''} translated as X` : ''}`,
+            positions: [],
+        });
+    }
+
+    return { protein, frame: best.frame, codons, ntStart, ntEnd, frameshift, issues };
+};
@@ -0,0 +1,96 @@
+import { AMBIGUOUS_RESIDUES, NONSTANDARD_RESIDUES } from './aminoAcidProperties';
+import { isNucleotide, translateNucleotides, Translation } from './translation';
+
+export type IssueLevel = 'error' | 'warning';
+
+export interface ValidationIssue {
+    level: IssueLevel;
+    message: string;
+    positions: number[]; // 1-based positions in the cleaned sequence
+}
+
+export interface SequenceValidation {
+    sequence: string; // residues only, ready for analysis
+    issues: ValidationIssue[];
+    translation: Translation | null; // set when the input was nucleotides
+    valid: boolean; // false when any issue is an error
+}
+
+// Above this share of X the sequence carries too little information to score
+const MAX_UNKNOWN_FRACTION = 0.1;
+
+const formatPositions = (positions: number[]) =>
+    positions.length > 5 ? `${positions.slice(0, 5).join(', ')}… (${positions.length} total)` : positions.join(', ');
+
+/**
+ * Checks a pasted protein sequence before analysis. FASTA header lines,
+ * whitespace and numbering digits are dropped silently; gaps and other
+ * symbols are dropped with a warning. Ambiguity codes (B, Z, J, X) and the
+ * non-standard residues U and O are kept and scored by their table entries,
+ * with a warning. A stop (`*`) ends the chain: trailing stops are trimmed,
+ * an internal one is an error. Nucleotide input is translated first (see
+ * utils/translation) and its frame issues lead the list.
+ */
+export const validateSequence = (raw: string): SequenceValidation => {
+    const input = raw
+        .split(/\r?\n/)
+        .filter(line => !line.trim().startsWith('>'))
+        .join('')
+        .toUpperCase()
+        .replace(/[\s\d]/g, '');
+
+    const bases = input.replace(/[-.]/g, '');
+    const translation = isNucleotide(bases) ? translateNucleotides(bases) : null;
+    const body = translation ? translation.protein : input;
+
+    const issues: ValidationIssue[] = [...(translation?.issues ?? [])];
+    const ignored = new Set<string>();
+    let gaps = 0;
+    let sequence = '';
+    const stops: number[] = [];
+    for (const char of body) {
+        if (char === '*') stops.push(sequence.length);
+        else if (char === '-' || char === '.') gaps++;
+        else if (/[A-Z]/.test(char)) sequence += char;
+        else ignored.add(char);
+    }
+
+    const internalStops = stops.filter(at => at < sequence.length);
+    if (internalStops.length) {
+        issues.push({
+            level: 'error',
+            message: `Internal stop codon (*) after residue ${formatPositions(internalStops)}; the chain would be truncated`,
+            positions: internalStops,
+        });
+    } else if (stops.length) {
+        issues.push({ level: 'warning', message: 'Terminal stop (*) removed', positions: [] });
+    }
+    if (gaps) issues.push({ level: 'warning', message: `${gaps} alignment gap character${gaps > 1 ? 's' : ''} removed`, positions: [] });
+    if (ignored.size) issues.push({ level: 'warning', message: `Unrecognised symbols removed: ${[...ignored].join(' ')}`, positions: [] });
+
+    const positionsOf = (codes: string) =>
+        sequence.split('').flatMap((aa, i) => (codes.includes(aa) ? [i + 1] : []));
+
+    for (const code of Object.keys(AMBIGUOUS_RESIDUES)) {
+        const positions = positionsOf(code);
+        if (!positions.length) continue;
+        const meaning = code === 'X' ? 'any residue' : AMBIGUOUS_RESIDUES[code].split('').join(' or ');
+        issues.push({ level: 'warning', message: `Ambiguous ${code} (${meaning}) at ${formatPositions(positions)}; scored as an average`, positions });
+    }
+    for (const [code, { name, scoredAs }] of Object.entries(NONSTANDARD_RESIDUES)) {
+        const positions = positionsOf(code);
+        if (positions.length) issues.push({ level: 'warning', message: `${name} (${code}) at ${formatPositions(positions)}; scored as ${scoredAs}`, positions });
+    }
+
+    const unknown = positionsOf('X').length;
+    if (sequence.length && unknown / sequence.length > MAX_UNKNOWN_FRACTION) {
+        issues.push({
+            level: 'warning',
+            message: `${((unknown / sequence.length) * 100).toFixed(0)}% of residues are X; germline, humanness and liability results are unreliable`,
+            positions: [],
+        });
+    }
+    if (!sequence.length) issues.push({ level: 'error', message: 'No residues to analyze', positions: [] });
+
+    return { sequence, issues, translation, valid: !issues.some(i => i.level === 'error') };
+};